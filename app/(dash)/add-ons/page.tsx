@@ -0,0 +1,341 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { Edit3, LucidePlus, LucideSearch, Trash2Icon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AddOnUnit } from "@/app/(dash)/enums/addOnUnit.enum";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { TAddOn, TAddOnInput } from "@/app/(dash)/types/addOn";
+import { currencyOptions } from "@/lib/currency";
+import {
+  ADD_ON_UNITS,
+  deleteAddOn,
+  fetchAddOns,
+  formatAddOnPrice,
+  saveAddOn,
+} from "@/lib/addOns";
+
+const EMPTY_ADD_ON: TAddOnInput = {
+  name: "",
+  description: "",
+  unit: AddOnUnit.PER_PERSON,
+  price: 0,
+  currency: Currency.USD,
+};
+
+export default function AddOns() {
+  const [addOns, setAddOns] = useState<TAddOn[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TAddOn | null>(null);
+  const [deleting, setDeleting] = useState<TAddOn | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<TAddOnInput>({ defaultValues: EMPTY_ADD_ON });
+
+  const loadAddOns = useCallback(async () => {
+    try {
+      setLoading(true);
+      setAddOns(await fetchAddOns());
+    } catch {
+      toast.error("Failed to load add-ons");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAddOns();
+  }, [loadAddOns]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return addOns
+      .filter(
+        (a) =>
+          !query ||
+          a.name.toLowerCase().includes(query) ||
+          a.description.toLowerCase().includes(query),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [addOns, search]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    reset(EMPTY_ADD_ON);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (addOn: TAddOn) => {
+    setEditing(addOn);
+    reset({
+      name: addOn.name,
+      description: addOn.description,
+      unit: addOn.unit,
+      price: addOn.price,
+      currency: addOn.currency,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (input: TAddOnInput) => {
+    try {
+      await saveAddOn(input, editing?.id);
+      toast.success(editing ? "Add-on updated" : "Add-on added");
+      setIsDialogOpen(false);
+      loadAddOns();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteAddOn(deleting.id);
+      toast.success("Add-on deleted");
+      loadAddOns();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h4 className="font-semibold text-xl">Add-ons</h4>
+          <p className="text-sm text-muted-foreground">
+            Optional extras travelers can book with a trip, eg. a safari, a
+            private room or porter hire
+          </p>
+        </div>
+        <Button size="lg" onClick={openCreateDialog}>
+          <LucidePlus className="mr-2" size={18} />
+          Add New Add-on
+        </Button>
+      </div>
+
+      <div className="flex justify-end mb-4">
+        <div className="relative">
+          <Input
+            placeholder="Search add-ons..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-72 pl-8"
+          />
+          <LucideSearch className="absolute top-2 left-2 h-4 w-4 text-gray-400" />
+        </div>
+      </div>
+
+      <Table>
+        <TableCaption>
+          {loading
+            ? "Loading add-ons..."
+            : filtered.length
+              ? "Prices can be overridden per trip in the trip editor."
+              : "No add-ons yet."}
+        </TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Price</TableHead>
+            <TableHead>Updated At</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {filtered.map((addOn) => (
+            <TableRow key={addOn.id}>
+              <TableCell className="whitespace-normal">
+                <p className="font-medium">{addOn.name}</p>
+                {addOn.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    {addOn.description}
+                  </p>
+                )}
+              </TableCell>
+              <TableCell>{formatAddOnPrice(addOn, addOn.price)}</TableCell>
+              <TableCell>
+                {addOn.updatedAt
+                  ? new Date(addOn.updatedAt).toLocaleDateString()
+                  : "—"}
+              </TableCell>
+              <TableCell className="flex gap-4">
+                <Button size="lg" onClick={() => openEditDialog(addOn)}>
+                  <Edit3 size={12} />
+                </Button>
+                <Button
+                  size="lg"
+                  variant="secondary"
+                  onClick={() => setDeleting(addOn)}
+                >
+                  <Trash2Icon size={12} />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? "Edit Add-on" : "Add New Add-on"}
+            </DialogTitle>
+            <DialogDescription>
+              Editors can attach this add-on to trips from the pricing step.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="addOnName">Name</Label>
+              <Input
+                id="addOnName"
+                {...register("name")}
+                placeholder="Eg. Chitwan jungle safari"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="addOnDescription">Description</Label>
+              <Textarea
+                id="addOnDescription"
+                {...register("description")}
+                placeholder="What is included and how it fits with the trip"
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="addOnPrice">Price</Label>
+                <Input
+                  id="addOnPrice"
+                  type="number"
+                  step="0.01"
+                  {...register("price", {
+                    valueAsNumber: true,
+                    min: { value: 0, message: "Price cannot be negative" },
+                  })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Controller
+                  control={control}
+                  name="currency"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {currencyOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Pricing unit</Label>
+                <Controller
+                  control={control}
+                  name="unit"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ADD_ON_UNITS.map((unit) => (
+                          <SelectItem key={unit.value} value={unit.value}>
+                            {unit.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            </div>
+            {errors.price && (
+              <p className="text-sm text-red-500">{errors.price.message}</p>
+            )}
+
+            <DialogFooter>
+              <Button type="submit" size="lg" disabled={isSubmitting}>
+                {editing ? "Update" : "Add"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Are you sure?</DialogTitle>
+            <DialogDescription>
+              “{deleting?.name}” is removed from the catalogue and is no longer
+              offered on the trips it is attached to.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="secondary" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
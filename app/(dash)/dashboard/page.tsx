@@ -2,6 +2,7 @@
 import { StatCard } from "@/components/cards/stat-card";
 import { LucideClock, LucideMegaphone, TrendingUp } from "lucide-react";
 import { useEffect, useState } from "react";
+import Link from "next/link";
 
 type StatsProps = {
   total_activity_count: number;
@@ -45,11 +46,13 @@ export default function Dashboard() {
           value={stats?.active_activities}
           icon={LucideMegaphone}
         />
-        <StatCard
-          description="Requires Action"
-          value={stats?.activities_pending_approval}
-          icon={LucideClock}
-        />
+        <Link href="/trips/review">
+          <StatCard
+            description="Requires Action"
+            value={stats?.activities_pending_approval}
+            icon={LucideClock}
+          />
+        </Link>
       </div>
     </div>
   );
@@ -0,0 +1,5 @@
+export enum AddOnUnit {
+  PER_PERSON = "PER_PERSON",
+  PER_GROUP = "PER_GROUP",
+  PER_DAY = "PER_DAY",
+}
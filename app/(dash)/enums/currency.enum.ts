@@ -0,0 +1,7 @@
+export enum Currency {
+  USD = "USD",
+  EUR = "EUR",
+  GBP = "GBP",
+  INR = "INR",
+  NPR = "NPR",
+}
@@ -0,0 +1,6 @@
+export enum DepartureStatus {
+  OPEN = "OPEN",
+  GUARANTEED = "GUARANTEED",
+  SOLD_OUT = "SOLD_OUT",
+  CANCELLED = "CANCELLED",
+}
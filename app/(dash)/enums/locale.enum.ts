@@ -0,0 +1,6 @@
+export enum Locale {
+  EN = "en",
+  DE = "de",
+  FR = "fr",
+  ES = "es",
+}
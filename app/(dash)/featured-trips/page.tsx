@@ -25,6 +25,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ChevronLeft, ChevronRight, Eye, MapPin, Calendar } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { formatPrice } from "@/lib/currency";
+import ConvertedPrices from "@/components/atoms/converted-prices";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { TTripImage } from "@/app/(dash)/types/image";
+import { getCoverImage, toTripImages } from "@/lib/tripImages";
 
 interface FeaturedTag {
   id: string;
@@ -39,8 +44,10 @@ interface Activity {
   slug: string;
   shortDescription?: string;
   price?: number;
+  currency?: Currency;
   duration?: string;
-  images: string[];
+  // Plain URLs on trips saved before the gallery manager
+  images: Array<string | TTripImage>;
   locations: string[];
   views: number;
   averageRating: number;
@@ -252,64 +259,78 @@ export default function FeaturedTrips() {
                     </TableCell>
                   </TableRow>
                 ) : (
-                  activities.map((trip, index) => (
-                    <TableRow key={trip.id}>
-                      <TableCell>{(page - 1) * limit + index + 1}</TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-3">
-                          {trip.images[0] && (
-                            <img
-                              src={trip.images[0]}
-                              alt={trip.title}
-                              className="h-12 w-16 object-cover rounded-md"
-                            />
+                  activities.map((trip, index) => {
+                    const cover = getCoverImage(toTripImages(trip.images));
+                    return (
+                      <TableRow key={trip.id}>
+                        <TableCell>{(page - 1) * limit + index + 1}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            {cover && (
+                              <img
+                                src={cover.url}
+                                alt={trip.title}
+                                className="h-12 w-16 object-cover rounded-md"
+                              />
+                            )}
+                            <p className="font-medium text-md">
+                              {trip.title.substring(0, 30) + "..."}
+                            </p>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3 text-muted-foreground" />
+                            {trip.duration || "—"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {trip.price ? (
+                            <div>
+                              {formatPrice(
+                                trip.price,
+                                trip.currency ?? Currency.USD,
+                              )}
+                              <ConvertedPrices
+                                amount={trip.price}
+                                currency={trip.currency ?? Currency.USD}
+                              />
+                            </div>
+                          ) : (
+                            "—"
                           )}
-                          <p className="font-medium text-md">
-                            {trip.title.substring(0, 30) + "..."}
-                          </p>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3 text-muted-foreground" />
-                          {trip.duration || "—"}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-1">
-                          {trip.price ? `$${trip.price}` : "—"}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-1">
-                          <Eye className="h-3 w-3 text-muted-foreground" />
-                          {trip.views}
-                        </div>
-                      </TableCell>
-                      <TableCell className="flex gap-2">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleViewTrip(trip.slug)}
-                        >
-                          View
-                        </Button>
-                        <Button
-                          size={"sm"}
-                          variant={"outline"}
-                          onClick={() =>
-                            router.push(
-                              `${
-                                process.env.NEXT_PUBLIC_FRONTEND_BASE_URL
-                              }/trips/edit?id=${trip.id}`,
-                            )
-                          }
-                        >
-                          Edit
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  ))
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Eye className="h-3 w-3 text-muted-foreground" />
+                            {trip.views}
+                          </div>
+                        </TableCell>
+                        <TableCell className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleViewTrip(trip.slug)}
+                          >
+                            View
+                          </Button>
+                          <Button
+                            size={"sm"}
+                            variant={"outline"}
+                            onClick={() =>
+                              router.push(
+                                `${
+                                  process.env.NEXT_PUBLIC_FRONTEND_BASE_URL
+                                }/trips/edit?id=${trip.id}`,
+                              )
+                            }
+                          >
+                            Edit
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
                 )}
               </TableBody>
             </Table>
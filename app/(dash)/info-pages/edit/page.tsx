@@ -28,6 +28,13 @@ import {
 import { QuillField } from "@/lib/quill/quill-field";
 import "react-quill-new/dist/quill.snow.css";
 import { generateSlug } from "@/lib/generateSlug";
+import { SeoAuditPanel } from "@/components/organisms/seo-audit-panel";
+import { TranslationPanel } from "@/components/organisms/translation-panel";
+import {
+  INFO_PAGE_TRANSLATABLE_FIELDS,
+  pruneTranslations,
+} from "@/lib/translations";
+import { TTranslations } from "@/app/(dash)/types/locale";
 
 type InfoPageCategory = {
   id: string;
@@ -56,6 +63,7 @@ const InfoPageFormInner = () => {
         metaDescription: "",
         published: false,
         infoPageCategoryId: "",
+        translations: {} as TTranslations,
       },
     });
 
@@ -92,6 +100,7 @@ const InfoPageFormInner = () => {
           metaDescription: infoPage.metaDescription ?? "",
           published: infoPage.published ?? false,
           infoPageCategoryId: infoPage.infoPageCategoryId ?? "",
+          translations: infoPage.translations ?? {},
         });
 
         if (infoPage.coverImage) setCoverImage(infoPage.coverImage);
@@ -131,6 +140,7 @@ const InfoPageFormInner = () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           ...data,
+          translations: pruneTranslations(data.translations),
           coverImage,
           published: shouldPublish,
         }),
@@ -169,6 +179,20 @@ const InfoPageFormInner = () => {
             {id ? "Edit Info Page" : "Add New Info Page"}
           </h2>
           <div className="btn-group flex gap-1 justify-center items-center">
+            <TranslationPanel
+              control={control}
+              getFields={() => INFO_PAGE_TRANSLATABLE_FIELDS}
+            />
+            <SeoAuditPanel
+              source="info-page"
+              getInput={() => ({
+                title: getValues("title"),
+                slug: getValues("slug"),
+                metaTitle: getValues("metaTitle"),
+                metaDescription: getValues("metaDescription"),
+                content: getValues("content"),
+              })}
+            />
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
+import { localeOptions } from "@/lib/translations";
 
 type Pagination = {
   page?: number;
@@ -36,6 +37,7 @@ export default function InfoPages() {
   const [pagination, setPagination] = useState<Pagination>({ totalPages: 1 });
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [categories, setCategories] = useState<InfoPageCategory[]>([]);
+  const [missingLocale, setMissingLocale] = useState<string>("all");
 
   useEffect(() => {
     async function fetchInfoPages() {
@@ -48,6 +50,8 @@ export default function InfoPages() {
           params.set("published", String(status === "published"));
         if (selectedCategory !== "all")
           params.set("categoryId", selectedCategory);
+        if (missingLocale !== "all")
+          params.set("missingTranslation", missingLocale);
 
         const response = await fetch(
           `${process.env.NEXT_PUBLIC_API_BASE_URL}/info-page?${params.toString()}`,
@@ -66,7 +70,7 @@ export default function InfoPages() {
       }
     }
     fetchInfoPages();
-  }, [selectedCategory, status, page, limit]);
+  }, [selectedCategory, status, missingLocale, page, limit]);
 
   useEffect(() => {
     async function fetchCategories() {
@@ -123,8 +127,29 @@ export default function InfoPages() {
             ))}
           </div>
 
-          {/* Category filter */}
+          {/* Category and translation filters */}
           <div className="flex items-center gap-2">
+            <Select
+              value={missingLocale}
+              onValueChange={(value) => {
+                setMissingLocale(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Any translation" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="all">Any translation</SelectItem>
+                  {localeOptions.map((locale) => (
+                    <SelectItem key={locale.value} value={locale.value}>
+                      Missing {locale.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
             <Select
               value={selectedCategory}
               onValueChange={(value) => {
@@ -0,0 +1,347 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Edit3, LucidePlus, Plus, Trash2, Trash2Icon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import LabelDescription from "@/components/atoms/label-description";
+import {
+  TPaymentPolicy,
+  TPaymentPolicyInput,
+} from "@/app/(dash)/types/paymentPolicy";
+import { paymentPolicySchema } from "@/lib/validationSchemas";
+import {
+  deletePaymentPolicy,
+  describePaymentPolicy,
+  fetchPaymentPolicies,
+  savePaymentPolicy,
+} from "@/lib/paymentPolicies";
+
+const EMPTY_POLICY: TPaymentPolicyInput = {
+  name: "",
+  depositPercent: 20,
+  balanceDueDays: 60,
+  refundTiers: [
+    { daysBefore: 60, refundPercent: 100 },
+    { daysBefore: 30, refundPercent: 50 },
+  ],
+};
+
+export default function PaymentPolicies() {
+  const [policies, setPolicies] = useState<TPaymentPolicy[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TPaymentPolicy | null>(null);
+  const [deleting, setDeleting] = useState<TPaymentPolicy | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<TPaymentPolicyInput>({
+    resolver: zodResolver(paymentPolicySchema),
+    defaultValues: EMPTY_POLICY,
+  });
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "refundTiers",
+  });
+  const values = useWatch({ control }) as TPaymentPolicyInput;
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPolicies(await fetchPaymentPolicies());
+    } catch {
+      toast.error("Failed to load payment policies");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    reset(EMPTY_POLICY);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (policy: TPaymentPolicy) => {
+    setEditing(policy);
+    reset({
+      name: policy.name,
+      depositPercent: policy.depositPercent,
+      balanceDueDays: policy.balanceDueDays,
+      refundTiers: policy.refundTiers ?? [],
+    });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (input: TPaymentPolicyInput) => {
+    try {
+      await savePaymentPolicy(input, editing?.id);
+      toast.success(editing ? "Policy updated" : "Policy added");
+      setIsDialogOpen(false);
+      loadPolicies();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deletePaymentPolicy(deleting.id);
+      toast.success("Policy deleted");
+      loadPolicies();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+    setDeleting(null);
+  };
+
+  const tierError =
+    errors.refundTiers?.root?.message ?? errors.refundTiers?.message;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h4 className="font-semibold text-xl">Payment Policies</h4>
+          <p className="text-sm text-muted-foreground">
+            Deposit, balance and cancellation terms editors can assign to trips
+          </p>
+        </div>
+        <Button size="lg" onClick={openCreateDialog}>
+          <LucidePlus className="mr-2" size={18} />
+          Add New Policy
+        </Button>
+      </div>
+
+      <Table>
+        <TableCaption>
+          {loading
+            ? "Loading payment policies..."
+            : policies.length
+              ? "The summary is what travelers see on the trip page."
+              : "No payment policies yet."}
+        </TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Summary</TableHead>
+            <TableHead>Updated At</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {policies.map((policy) => (
+            <TableRow key={policy.id}>
+              <TableCell className="font-medium">{policy.name}</TableCell>
+              <TableCell className="whitespace-pre-line text-sm">
+                {policy.summary}
+              </TableCell>
+              <TableCell>
+                {policy.updatedAt
+                  ? new Date(policy.updatedAt).toLocaleDateString()
+                  : "—"}
+              </TableCell>
+              <TableCell className="flex gap-4">
+                <Button size="lg" onClick={() => openEditDialog(policy)}>
+                  <Edit3 size={12} />
+                </Button>
+                <Button
+                  size="lg"
+                  variant="secondary"
+                  onClick={() => setDeleting(policy)}
+                >
+                  <Trash2Icon size={12} />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-xl">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? "Edit Policy" : "Add New Policy"}
+            </DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Changes apply to every trip using this policy."
+                : "Editors can assign this policy to trips from the pricing step."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="policyName">Name</Label>
+              <Input
+                id="policyName"
+                {...register("name")}
+                placeholder="Eg. Standard trekking terms"
+              />
+              {errors.name && (
+                <p className="text-sm text-red-500">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="depositPercent">Deposit (%)</Label>
+                <Input
+                  id="depositPercent"
+                  type="number"
+                  {...register("depositPercent", { valueAsNumber: true })}
+                />
+                {errors.depositPercent && (
+                  <p className="text-sm text-red-500">
+                    {errors.depositPercent.message}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="balanceDueDays">
+                  Balance due (days before departure)
+                </Label>
+                <Input
+                  id="balanceDueDays"
+                  type="number"
+                  {...register("balanceDueDays", { valueAsNumber: true })}
+                />
+                {errors.balanceDueDays && (
+                  <p className="text-sm text-red-500">
+                    {errors.balanceDueDays.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Refund tiers</Label>
+              <LabelDescription text="Cancelling at least this many days before departure refunds this share of what was paid. Cancelling later than the last tier gets no refund." />
+              {fields.map((field, index) => (
+                <div key={field.id} className="flex items-start gap-2">
+                  <div className="flex-1">
+                    <Input
+                      type="number"
+                      aria-label="Days before departure"
+                      placeholder="Days before departure"
+                      {...register(`refundTiers.${index}.daysBefore`, {
+                        valueAsNumber: true,
+                      })}
+                    />
+                    {errors.refundTiers?.[index]?.daysBefore && (
+                      <p className="text-sm text-red-500">
+                        {errors.refundTiers[index].daysBefore?.message}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex-1">
+                    <Input
+                      type="number"
+                      aria-label="Refund (%)"
+                      placeholder="Refund (%)"
+                      {...register(`refundTiers.${index}.refundPercent`, {
+                        valueAsNumber: true,
+                      })}
+                    />
+                    {errors.refundTiers?.[index]?.refundPercent && (
+                      <p className="text-sm text-red-500">
+                        {errors.refundTiers[index].refundPercent?.message}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              {tierError && <p className="text-sm text-red-500">{tierError}</p>}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => append({ daysBefore: 0, refundPercent: 0 })}
+              >
+                <Plus /> Add tier
+              </Button>
+            </div>
+
+            <div className="rounded-md border bg-muted/30 p-3">
+              <p className="text-xs text-muted-foreground mb-1">
+                Summary shown to travelers
+              </p>
+              <ul className="text-sm flex flex-col gap-1">
+                {describePaymentPolicy(values).map((line, i) => (
+                  <li key={i}>{line}</li>
+                ))}
+              </ul>
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" size="lg" disabled={isSubmitting}>
+                {editing ? "Update" : "Add"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Are you sure?</DialogTitle>
+            <DialogDescription>
+              Trips using “{deleting?.name}” are left without a payment policy
+              until another one is assigned.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="secondary" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -27,6 +27,13 @@ import {
 import { QuillField } from "@/lib/quill/quill-field";
 import "react-quill-new/dist/quill.snow.css";
 import { generateSlug } from "@/lib/generateSlug";
+import { SeoAuditPanel } from "@/components/organisms/seo-audit-panel";
+import { TranslationPanel } from "@/components/organisms/translation-panel";
+import {
+  POST_TRANSLATABLE_FIELDS,
+  pruneTranslations,
+} from "@/lib/translations";
+import { TTranslations } from "@/app/(dash)/types/locale";
 
 type BlogCategoryType = {
   id: string;
@@ -66,6 +73,7 @@ const BlogFormInner = () => {
         content: "",
         published: false,
         publishedAt: "",
+        translations: {} as TTranslations,
       },
     });
 
@@ -124,6 +132,7 @@ const BlogFormInner = () => {
           content: blog.content || "",
           published: blog.published || false,
           publishedAt: blog.publishedAt || "",
+          translations: blog.translations ?? {},
         });
 
         if (blog.coverImage) setCoverImage(blog.coverImage);
@@ -167,6 +176,7 @@ const BlogFormInner = () => {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           ...data,
+          translations: pruneTranslations(data.translations),
           coverImage,
           blogCategoryId: data.category,
           writerId: data.writerId, // Include author ID
@@ -210,6 +220,24 @@ const BlogFormInner = () => {
             {slug ? "Edit Blog" : "Add New Blog"}
           </h2>
           <div className="btn-group flex gap-1 justify-center items-center">
+            <TranslationPanel
+              control={control}
+              getFields={() => POST_TRANSLATABLE_FIELDS}
+            />
+            <SeoAuditPanel
+              source="post"
+              getInput={() => ({
+                title: getValues("title"),
+                slug: getValues("slug"),
+                metaTitle: getValues("metaTitle"),
+                metaDescription: getValues("metaDescription"),
+                content: getValues("content"),
+                // The "tags" field holds the cover image alt text
+                images: coverImage
+                  ? [{ url: coverImage, alt: getValues("tags") }]
+                  : [],
+              })}
+            />
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
@@ -16,6 +16,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { localeOptions } from "@/lib/translations";
 
 type Pagination = {
   page?: number;
@@ -35,6 +36,7 @@ export default function Blogs() {
   const [pagination, setPagination] = useState<Pagination>({ totalPages: 1 });
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [categories, setCategories] = useState<BlogCategory[]>([]);
+  const [missingLocale, setMissingLocale] = useState<string>("all");
   // "all" | "trash"
   const [view, setView] = useState<"all" | "trash">("all");
 
@@ -45,6 +47,8 @@ export default function Blogs() {
           page: String(page),
           limit: String(limit),
         });
+        if (missingLocale !== "all")
+          params.set("missingTranslation", missingLocale);
 
         let url: string;
         if (view === "trash") {
@@ -70,7 +74,7 @@ export default function Blogs() {
       }
     }
     fetchBlogs();
-  }, [view, selectedCategory, page, limit]);
+  }, [view, selectedCategory, missingLocale, page, limit]);
 
   useEffect(() => {
     async function fetchCategories() {
@@ -140,21 +144,47 @@ export default function Blogs() {
             ))}
           </div>
 
-          <Select value={selectedCategory} onValueChange={handleCategoryChange}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="All Categories" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectGroup>
-                <SelectItem value="all">All Categories</SelectItem>
-                {categories.map((cat) => (
-                  <SelectItem key={cat.id} value={cat.slug}>
-                    {cat.name}
-                  </SelectItem>
-                ))}
-              </SelectGroup>
-            </SelectContent>
-          </Select>
+          <div className="flex items-center gap-2">
+            <Select
+              value={missingLocale}
+              onValueChange={(value) => {
+                setMissingLocale(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Any translation" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="all">Any translation</SelectItem>
+                  {localeOptions.map((locale) => (
+                    <SelectItem key={locale.value} value={locale.value}>
+                      Missing {locale.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <Select
+              value={selectedCategory}
+              onValueChange={handleCategoryChange}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="All Categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="all">All Categories</SelectItem>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.slug}>
+                      {cat.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LabelDescription from "@/components/atoms/label-description";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { TCurrencySettings } from "@/app/(dash)/types/currency";
+import {
+  convertPrice,
+  currencyOptions,
+  formatPrice,
+  roundingModeOptions,
+} from "@/lib/currency";
+import {
+  clearCurrencySettingsCache,
+  fetchCurrencySettings,
+} from "@/hooks/use-currency-settings";
+
+const API = `${process.env.NEXT_PUBLIC_API_BASE_URL}/currency-settings`;
+
+// Sample amount used to preview how each rate and rounding rule behaves
+const SAMPLE_AMOUNT = 1000;
+
+// One row per supported currency other than the base, keeping saved values
+const buildRates = (
+  baseCurrency: Currency,
+  existing: TCurrencySettings["rates"] = [],
+) =>
+  Object.values(Currency)
+    .filter((currency) => currency !== baseCurrency)
+    .map(
+      (currency) =>
+        existing.find((r) => r.currency === currency) ?? {
+          currency,
+          rate: 0,
+          rounding: { mode: "NONE" as const, increment: 1 },
+        },
+    );
+
+// Rates are relative to the base, so switching it re-expresses each one per
+// unit of the new base; without a rate for the new base they can't be kept
+const rebaseRates = (
+  from: Currency,
+  to: Currency,
+  existing: TCurrencySettings["rates"],
+) => {
+  const pivot = existing.find((r) => r.currency === to)?.rate || 0;
+  const rebased = [
+    ...existing,
+    {
+      currency: from,
+      rate: 1,
+      rounding: { mode: "NONE" as const, increment: 1 },
+    },
+  ].map((r) => ({
+    ...r,
+    rate: pivot > 0 && r.rate > 0 ? r.rate / pivot : 0,
+  }));
+  return buildRates(to, rebased);
+};
+
+export default function CurrencySettings() {
+  const { register, handleSubmit, reset, control, watch, getValues } =
+    useForm<TCurrencySettings>({
+      defaultValues: {
+        baseCurrency: Currency.USD,
+        rates: buildRates(Currency.USD),
+      },
+    });
+
+  const rates = useFieldArray({ control, name: "rates" });
+  const values = watch();
+
+  const loadSettings = useCallback(async () => {
+    const settings = await fetchCurrencySettings();
+    if (!settings) return;
+    reset({
+      baseCurrency: settings.baseCurrency,
+      rates: buildRates(settings.baseCurrency, settings.rates),
+    });
+  }, [reset]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  async function onSubmit(values: TCurrencySettings) {
+    try {
+      const res = await fetch(API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(values),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      clearCurrencySettingsCache();
+      toast.success("Currency settings saved successfully");
+    } catch (e) {
+      toast.error(`Save failed: ${(e as Error).message}`);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="mx-auto">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold">Currencies</h1>
+          <p className="text-sm text-muted-foreground">
+            Manage exchange rates and rounding for converted prices
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/site-config">
+            <Button type="button" variant="ghost" size="sm">
+              ← Site configuration
+            </Button>
+          </Link>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={loadSettings}
+          >
+            ↺ Refresh
+          </Button>
+          <Button type="submit" size="sm">
+            Save changes
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xs uppercase tracking-widest text-muted-foreground">
+              Base currency
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1.5">
+            <LabelDescription text="Exchange rates below are entered as units of each currency for one unit of the base currency." />
+            <Controller
+              control={control}
+              name="baseCurrency"
+              render={({ field }) => (
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => {
+                    rates.replace(
+                      rebaseRates(
+                        field.value,
+                        value as Currency,
+                        getValues("rates"),
+                      ),
+                    );
+                    field.onChange(value);
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencyOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xs uppercase tracking-widest text-muted-foreground">
+              Exchange rates
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {rates.fields.map((f, i) => {
+              const preview = convertPrice(
+                SAMPLE_AMOUNT,
+                values.baseCurrency,
+                f.currency,
+                values,
+              );
+              return (
+                <div
+                  key={f.id}
+                  className="grid grid-cols-5 items-end gap-3 rounded-lg border border-border p-3"
+                >
+                  <div className="space-y-1.5">
+                    <Label>Currency</Label>
+                    <p className="h-9 flex items-center font-semibold">
+                      {f.currency}
+                    </p>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>
+                      1 {values.baseCurrency} = ? {f.currency}
+                    </Label>
+                    <Input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      {...register(`rates.${i}.rate`, { valueAsNumber: true })}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>Rounding</Label>
+                    <Controller
+                      control={control}
+                      name={`rates.${i}.rounding.mode`}
+                      render={({ field }) => (
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {roundingModeOptions.map((option) => (
+                              <SelectItem
+                                key={option.value}
+                                value={option.value}
+                              >
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>Increment</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Eg. 1, 5, 100"
+                      // readOnly rather than disabled, which would drop the
+                      // value on submit
+                      readOnly={values.rates?.[i]?.rounding?.mode === "NONE"}
+                      {...register(`rates.${i}.rounding.increment`, {
+                        valueAsNumber: true,
+                      })}
+                    />
+                  </div>
+                  <div className="space-y-1.5 text-sm">
+                    <Label>Preview</Label>
+                    <p className="h-9 flex items-center text-muted-foreground">
+                      {preview === null
+                        ? "No rate set"
+                        : `${formatPrice(SAMPLE_AMOUNT, values.baseCurrency)} → ${formatPrice(preview, f.currency)}`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </form>
+  );
+}
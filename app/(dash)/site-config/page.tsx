@@ -10,6 +10,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { getFullImageUrl } from "@/lib/getFullImageUrl";
+import Link from "next/link";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -217,6 +218,11 @@ export default function SiteConfigForm() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Link href="/site-config/currencies">
+            <Button type="button" variant="ghost" size="sm">
+              Currencies →
+            </Button>
+          </Link>
           <Button
             type="button"
             variant="outline"
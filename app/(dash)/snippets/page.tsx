@@ -0,0 +1,443 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import { Controller, useForm, useWatch } from "react-hook-form";
+import { toast } from "sonner";
+import {
+  CheckCircle2,
+  Edit3,
+  Loader2,
+  LucidePlus,
+  LucideSearch,
+  Trash2Icon,
+  XCircle,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import LabelDescription from "@/components/atoms/label-description";
+import {
+  TSnippet,
+  TSnippetInput,
+  TSnippetType,
+} from "@/app/(dash)/types/snippet";
+import { TBulkResult } from "@/app/(dash)/types/bulk";
+import {
+  SNIPPET_TYPES,
+  deleteSnippet,
+  fetchSnippets,
+  findTripsUsingSnippet,
+  getSnippetField,
+  saveSnippet,
+} from "@/lib/snippets";
+import { runBulkAction } from "@/lib/tripBulk";
+
+type TSnippetForm = TSnippetInput & { updateTrips: boolean };
+
+export default function Snippets() {
+  const [snippets, setSnippets] = useState<TSnippet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [type, setType] = useState<TSnippetType>("inclusion");
+  const [search, setSearch] = useState("");
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<TSnippet | null>(null);
+  const [deleting, setDeleting] = useState<TSnippet | null>(null);
+  // Progress and report of pushing an edit out to the trips using it
+  const [progress, setProgress] = useState<string | null>(null);
+  const [results, setResults] = useState<TBulkResult[] | null>(null);
+
+  const { register, handleSubmit, reset, control } = useForm<TSnippetForm>({
+    defaultValues: {
+      type: "inclusion",
+      category: "",
+      text: "",
+      updateTrips: false,
+    },
+  });
+
+  const loadSnippets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSnippets(await fetchSnippets());
+    } catch {
+      toast.error("Failed to load snippets");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSnippets();
+  }, [loadSnippets]);
+
+  const categories = useMemo(
+    () => [...new Set(snippets.map((s) => s.category).filter(Boolean))].sort(),
+    [snippets],
+  );
+
+  // The selected type, grouped by category and filtered by the search
+  const groups = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matches = snippets.filter(
+      (s) =>
+        s.type === type &&
+        (!query ||
+          s.text.toLowerCase().includes(query) ||
+          s.category.toLowerCase().includes(query)),
+    );
+    const byCategory: Record<string, TSnippet[]> = {};
+    matches.forEach((s) => (byCategory[s.category || "Other"] ??= []).push(s));
+    return Object.entries(byCategory).sort(([a], [b]) => a.localeCompare(b));
+  }, [snippets, type, search]);
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    setResults(null);
+    reset({ type, category: "", text: "", updateTrips: false });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (snippet: TSnippet) => {
+    setEditing(snippet);
+    setResults(null);
+    reset({
+      type: snippet.type,
+      category: snippet.category,
+      text: snippet.text,
+      updateTrips: false,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    if (progress !== null) return;
+    setIsDialogOpen(false);
+    setResults(null);
+  };
+
+  const onSubmit = async ({ updateTrips, ...input }: TSnippetForm) => {
+    try {
+      await saveSnippet(input, editing?.id);
+    } catch (e) {
+      toast.error((e as Error).message);
+      return;
+    }
+    toast.success(editing ? "Snippet updated" : "Snippet added");
+    loadSnippets();
+
+    const from = editing?.text.trim();
+    const to = input.text.trim();
+    if (!editing || !updateTrips || !from || from === to) {
+      setIsDialogOpen(false);
+      return;
+    }
+
+    try {
+      setProgress("Finding trips...");
+      const targets = await findTripsUsingSnippet(editing);
+      setResults(
+        await runBulkAction(
+          targets,
+          { kind: "snippet", field: getSnippetField(editing.type), from, to },
+          (done) => setProgress(`Updating ${done} of ${targets.length}`),
+        ),
+      );
+    } catch (e) {
+      toast.error((e as Error).message);
+      setIsDialogOpen(false);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteSnippet(deleting.id);
+      toast.success("Snippet deleted");
+      loadSnippets();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+    setDeleting(null);
+  };
+
+  const text = useWatch({ control, name: "text" });
+  const textChanged = !!editing && text.trim() !== editing.text.trim();
+  const succeeded = results?.filter((r) => r.ok).length ?? 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h4 className="font-semibold text-xl">Snippet Library</h4>
+          <p className="text-sm text-muted-foreground">
+            Shared inclusions, exclusions and highlights editors can pick from
+            in the trip form
+          </p>
+        </div>
+        <Button size="lg" onClick={openCreateDialog}>
+          <LucidePlus className="mr-2" size={18} />
+          Add New Snippet
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <Tabs
+          value={type}
+          onValueChange={(value) => setType(value as TSnippetType)}
+        >
+          <TabsList>
+            {SNIPPET_TYPES.map((t) => (
+              <TabsTrigger key={t.value} value={t.value}>
+                {t.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="relative">
+          <Input
+            placeholder="Search snippets..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="w-72 pl-8"
+          />
+          <LucideSearch className="absolute top-2 left-2 h-4 w-4 text-gray-400" />
+        </div>
+      </div>
+
+      <Table>
+        <TableCaption>
+          {loading
+            ? "Loading snippets..."
+            : groups.length
+              ? "Snippets grouped by category."
+              : "No snippets yet."}
+        </TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Text</TableHead>
+            <TableHead>Updated At</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {groups.map(([category, items]) => (
+            <Fragment key={category}>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <TableCell colSpan={3} className="font-semibold">
+                  {category}{" "}
+                  <span className="font-normal text-muted-foreground">
+                    ({items.length})
+                  </span>
+                </TableCell>
+              </TableRow>
+              {items.map((snippet) => (
+                <TableRow key={snippet.id}>
+                  <TableCell className="font-medium whitespace-normal">
+                    {snippet.text}
+                  </TableCell>
+                  <TableCell>
+                    {snippet.updatedAt
+                      ? new Date(snippet.updatedAt).toLocaleDateString()
+                      : "—"}
+                  </TableCell>
+                  <TableCell className="flex gap-4">
+                    <Button size="lg" onClick={() => openEditDialog(snippet)}>
+                      <Edit3 size={12} />
+                    </Button>
+                    <Button
+                      size="lg"
+                      variant="secondary"
+                      onClick={() => setDeleting(snippet)}
+                    >
+                      <Trash2Icon size={12} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </Fragment>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog
+        open={isDialogOpen}
+        onOpenChange={(open) => !open && closeDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {results
+                ? `${succeeded} of ${results.length} trips updated`
+                : editing
+                  ? "Edit Snippet"
+                  : "Add New Snippet"}
+            </DialogTitle>
+            <DialogDescription>
+              {results
+                ? results.length
+                  ? "Trips marked with an error still use the old text."
+                  : "No trips were using this snippet."
+                : "Editors can add this line to a trip from the library."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {results ? (
+            <>
+              <ul className="max-h-64 overflow-y-auto flex flex-col gap-1 text-sm">
+                {results.map((result) => (
+                  <li key={result.id} className="flex items-start gap-2">
+                    {result.ok ? (
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                    )}
+                    <span className="flex-1">{result.title}</span>
+                    {!result.ok && (
+                      <span className="text-red-600">{result.message}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <DialogFooter>
+                <Button size="lg" onClick={closeDialog}>
+                  Done
+                </Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-3">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Controller
+                  control={control}
+                  name="type"
+                  render={({ field }) => (
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                      disabled={!!editing}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SNIPPET_TYPES.map((t) => (
+                          <SelectItem key={t.value} value={t.value}>
+                            {t.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Input
+                  {...register("category")}
+                  list="snippet-categories"
+                  placeholder="Eg. Permits, Transport, Accommodation"
+                />
+                <datalist id="snippet-categories">
+                  {categories.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Text</Label>
+                <Input
+                  {...register("text")}
+                  placeholder="Eg. TIMS permit"
+                  required
+                />
+              </div>
+
+              {textChanged && (
+                <div className="flex items-start gap-2">
+                  <Controller
+                    control={control}
+                    name="updateTrips"
+                    render={({ field }) => (
+                      <Checkbox
+                        id="updateTrips"
+                        checked={field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(checked === true)
+                        }
+                      />
+                    )}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="updateTrips">
+                      Update every trip that uses it
+                    </Label>
+                    <LabelDescription text="Replaces the old text wherever it appears as its own line in a trip. Trips that reworded it are left alone." />
+                  </div>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="submit" size="lg" disabled={progress !== null}>
+                  {progress !== null && <Loader2 className="animate-spin" />}
+                  {progress ?? (editing ? "Update" : "Add")}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Are you sure?</DialogTitle>
+            <DialogDescription>
+              Trips keep their copy of “{deleting?.text}”; it is only removed
+              from the library.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="secondary" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { ColumnDef } from "@tanstack/react-table";
+import { ColumnDef, Table } from "@tanstack/react-table";
 import { formatStatus } from "@/components/atoms/status-badge";
 import {
   DropdownMenu,
@@ -24,6 +24,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import {
+  Copy,
   Edit3,
   LucideArrowRight,
   LucideGlobe,
@@ -34,8 +35,44 @@ import { Suspense, useState } from "react";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { getFullImageUrl } from "@/lib/getFullImageUrl";
+import { formatDepartureDate } from "@/lib/departures";
+import { formatPrice } from "@/lib/currency";
+import ConvertedPrices from "@/components/atoms/converted-prices";
+import { duplicateTrip } from "@/lib/duplicateTrip";
+import { Checkbox } from "@/components/ui/checkbox";
+import { deleteTrip, setListingStatus } from "@/lib/tripBulk";
+import { SortHeader } from "@/components/trip/sort-header";
+import {
+  formatScheduleTime,
+  getDisplayStatus,
+  getUpcomingChange,
+} from "@/lib/tripSchedule";
+
+// Refetches the current page; set by DataTable through the table meta
+const refreshTable = (table: Table<unknown>) =>
+  (table.options.meta as { onDataChange?: () => void })?.onDataChange?.();
 
 export const columns: ColumnDef<any>[] = [
+  {
+    id: "select",
+    header: ({ table }) => (
+      <Checkbox
+        checked={
+          table.getIsAllPageRowsSelected() ||
+          (table.getIsSomePageRowsSelected() && "indeterminate")
+        }
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        aria-label="Select all"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        aria-label="Select row"
+      />
+    ),
+  },
   {
     accessorKey: "id",
     header: "SN",
@@ -66,7 +103,7 @@ export const columns: ColumnDef<any>[] = [
   },
   {
     accessorKey: "title",
-    header: "Title",
+    header: () => <SortHeader field="title" label="Title" />,
     cell: ({ row }) => {
       return <div>{row.original.title.substring(0, 25) + "..."}</div>;
     },
@@ -77,67 +114,121 @@ export const columns: ColumnDef<any>[] = [
   },
   {
     accessorKey: "duration",
-    header: "Duration",
+    header: () => <SortHeader field="duration" label="Duration" />,
   },
   {
     accessorKey: "guestCapacity",
     header: "Capacity",
   },
+  {
+    accessorKey: "nextDeparture",
+    header: "Next Departure",
+    cell: ({ row }) => {
+      const { nextDeparture, seatsRemaining } = row.original;
+      if (!nextDeparture) {
+        return <div className="text-muted-foreground">—</div>;
+      }
+      return (
+        <div className="flex flex-col">
+          <span>{formatDepartureDate(nextDeparture)}</span>
+          <span
+            className={cn(
+              "text-xs",
+              seatsRemaining === 0 ? "text-red-500" : "text-muted-foreground",
+            )}
+          >
+            {seatsRemaining} seats left
+          </span>
+        </div>
+      );
+    },
+  },
   {
     accessorKey: "amount",
-    header: () => <div className="text-left">Price</div>,
+    header: () => <SortHeader field="price" label="Price" />,
     cell: ({ row }) => {
       const amount = Number.parseFloat(row.getValue("amount"));
-      const formatted = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-      }).format(amount);
+      const formatted = formatPrice(amount, row.original.currency);
 
-      return <div className="text-left font-medium">{formatted}/person</div>;
+      return (
+        <div className="text-left">
+          <div className="font-medium">from {formatted}/person</div>
+          <ConvertedPrices amount={amount} currency={row.original.currency} />
+        </div>
+      );
     },
   },
   {
     accessorKey: "status",
-    header: "Status",
+    header: () => <SortHeader field="status" label="Status" />,
     cell: ({ row }) => {
-      const status = row.getValue("status");
+      const status = getDisplayStatus(row.original);
+      const upcoming = getUpcomingChange(row.original);
       return (
-        <Badge
-          variant={"outline"}
-          className={cn(
-            // @ts-expect-error it's unknown
-            formatStatus(status)?.color ? formatStatus(status)?.color : "",
-            "text-white",
+        <div className="flex flex-col gap-1">
+          <Badge
+            variant={"outline"}
+            className={cn(
+              // @ts-expect-error it's unknown
+              formatStatus(status)?.color ? formatStatus(status)?.color : "",
+              "text-white",
+            )}
+          >
+            {/* @ts-expect-error it's unknown */}
+            {formatStatus(status)?.icon} {formatStatus(status)?.text}
+          </Badge>
+          {upcoming && (
+            <span className="text-xs text-muted-foreground">
+              {upcoming.field === "publishAt" ? "Publishes" : "Unpublishes"}{" "}
+              {formatScheduleTime(upcoming.at)}
+            </span>
           )}
-        >
-          {/* @ts-expect-error it's unknown */}
-          {formatStatus(status)?.icon} {formatStatus(status)?.text}
-        </Badge>
+        </div>
       );
     },
   },
   {
     id: "actions",
-    cell: function ActionCell({ row }) {
+    cell: function ActionCell({ row, table }) {
       const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+      const [isDuplicating, setIsDuplicating] = useState(false);
       const router = useRouter();
 
-      const deleteItem = async (id: string) => {
-        const response = await fetch(
-          `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/${id}`,
-          {
-            method: "DELETE",
-          },
-        );
+      const duplicateItem = async (id: string) => {
+        setIsDuplicating(true);
+        try {
+          const newId = await duplicateTrip(id);
+          toast.success("Trip duplicated as a draft");
+          router.push(
+            `${process.env.NEXT_PUBLIC_FRONTEND_BASE_URL}/trips/edit?id=${newId}`,
+          );
+        } catch (err) {
+          toast.error((err as Error)?.message || "Something went wrong!");
+        } finally {
+          setIsDuplicating(false);
+        }
+      };
 
-        if (response.ok) {
+      const deleteItem = async (id: string) => {
+        try {
+          await deleteTrip(id);
           toast.success("Item deleted Successfully!");
-          router.refresh();
-        } else {
+          refreshTable(table);
+        } catch {
           toast.error("Something went wrong!");
         }
       };
 
+      const approveListing = async (id: string, reject?: boolean) => {
+        try {
+          const data = await setListingStatus(id, reject);
+          toast.success(data?.message || "Status updated successfully!");
+          refreshTable(table);
+        } catch (err) {
+          toast((err as Error)?.message || "Something went wrong!");
+        }
+      };
+
       return (
         <Suspense fallback={<div>Loading...</div>}>
           <DropdownMenu modal={false}>
@@ -174,6 +265,18 @@ export const columns: ColumnDef<any>[] = [
                   Edit Tour
                 </Button>
               </DropdownMenuItem>
+              <DropdownMenuItem>
+                <Button
+                  variant={"ghost"}
+                  size={"sm"}
+                  className="flex gap-1 items-center p-0!"
+                  disabled={isDuplicating}
+                  onClick={() => duplicateItem(row.getValue("id"))}
+                >
+                  <Copy />
+                  {isDuplicating ? "Duplicating..." : "Duplicate"}
+                </Button>
+              </DropdownMenuItem>
               <DropdownMenuItem>
                 <Button
                   className="flex gap-1 items-center p-0!"
@@ -225,9 +328,7 @@ export const columns: ColumnDef<any>[] = [
               <AlertDialogFooter>
                 <AlertDialogCancel>Cancel</AlertDialogCancel>
                 <AlertDialogAction
-                  onClick={() => {
-                    (deleteItem(row.getValue("id")), router.refresh());
-                  }}
+                  onClick={() => deleteItem(row.getValue("id"))}
                 >
                   Delete
                 </AlertDialogAction>
@@ -239,32 +340,3 @@ export const columns: ColumnDef<any>[] = [
     },
   },
 ];
-
-async function approveListing(id: string, reject?: boolean) {
-  const bodyData = reject
-    ? { activityId: Number(id), reject: true }
-    : { activityId: Number(id) };
-
-  const response = await fetch(
-    `${process.env.NEXT_PUBLIC_API_BASE_URL}/admin/approve-listing`,
-    {
-      method: "PATCH",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(bodyData),
-      cache: "no-store",
-      credentials: "include",
-    },
-  );
-
-  const data = await response.json();
-
-  if (!response.ok) {
-    toast(data.message || "Something went wrong!");
-    window.location.href = "/trips";
-  } else {
-    toast.success(data.message || "Status updated successfully!");
-    window.location.href = "/trips";
-  }
-}
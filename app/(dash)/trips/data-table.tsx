@@ -6,9 +6,8 @@ import {
   ColumnDef,
   flexRender,
   getCoreRowModel,
-  getFilteredRowModel,
   useReactTable,
-  ColumnFiltersState,
+  RowSelectionState,
 } from "@tanstack/react-table";
 
 import {
@@ -29,8 +28,7 @@ import {
 } from "@/components/ui/select";
 
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { ChevronLeft, ChevronRight, LucideSearch } from "lucide-react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
@@ -41,51 +39,65 @@ interface DataTableProps<TData, TValue> {
     totalPages: number;
     page: number;
   };
+  // Search, filters and actions shown above the table
+  toolbar?: React.ReactNode;
+  // Enables checkbox selection; rendered above the table while rows are picked
+  bulkActions?: (
+    selected: TData[],
+    clearSelection: () => void,
+  ) => React.ReactNode;
+  getRowId?: (row: TData) => string;
+  // Lets row actions refetch the current page instead of reloading it
+  onDataChange?: () => void;
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
   pagination,
+  toolbar,
+  bulkActions,
+  getRowId,
+  onDataChange,
 }: DataTableProps<TData, TValue>) {
   const router = useRouter();
-  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>(
-    [],
-  );
+  const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({});
 
   const table = useReactTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    onColumnFiltersChange: setColumnFilters,
-    state: { columnFilters },
+    enableRowSelection: !!bulkActions,
+    onRowSelectionChange: setRowSelection,
+    getRowId,
+    meta: { onDataChange },
+    state: { rowSelection },
   });
 
+  const selectedRows = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original);
+
   const searchParams = new URLSearchParams(window.location.search);
   const page = Number(searchParams.get("page") ?? "1");
   const limit = Number(searchParams.get("limit") ?? "10");
 
+  // Keep the search, filters and sort when paging
   const updateUrl = (newPage: number, newLimit: number) => {
-    router.push(`?page=${newPage}&limit=${newLimit}`, { scroll: false });
+    searchParams.set("page", String(newPage));
+    searchParams.set("limit", String(newLimit));
+    router.push(`?${searchParams.toString()}`, { scroll: false });
   };
 
   return (
     <div>
-      {/* Search */}
-      <div className="flex items-center py-4">
-        <div className="relative">
-          <Input
-            placeholder="Filter Packages..."
-            value={(table.getColumn("title")?.getFilterValue() as string) ?? ""}
-            onChange={(event) =>
-              table.getColumn("title")?.setFilterValue(event.target.value)
-            }
-            className="w-md pl-8"
-          />
-          <LucideSearch className="absolute top-2 left-2 h-4 w-4 text-gray-400" />
+      {toolbar && <div className="py-4">{toolbar}</div>}
+
+      {bulkActions && selectedRows.length > 0 && (
+        <div className="mb-4">
+          {bulkActions(selectedRows, () => setRowSelection({}))}
         </div>
-      </div>
+      )}
 
       {/* Table */}
       <div className="overflow-hidden rounded-md border">
@@ -22,6 +22,9 @@ function LayoutContent({ children }: Readonly<{ children: React.ReactNode }>) {
     "Additional Info",
     "FAQs",
     "SEO",
+    "Featured",
+    "Departures",
+    "Related & Extensions",
   ];
 
   return (
@@ -62,6 +65,12 @@ function LayoutContent({ children }: Readonly<{ children: React.ReactNode }>) {
             <li>
               <StepButton stepNumber={11} stepText="Featured" />
             </li>
+            <li>
+              <StepButton stepNumber={12} stepText="Departures" />
+            </li>
+            <li>
+              <StepButton stepNumber={13} stepText="Related & Extensions" />
+            </li>
           </ul>
         </ScrollArea>
       </nav>
@@ -1,7 +1,13 @@
 "use client";
 
-import React, { Suspense, useEffect, useMemo, useState } from "react";
-import Image from "next/image";
+import React, {
+  Suspense,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,12 +19,13 @@ import { cn } from "@/lib/utils";
 import { getFullImageUrl } from "@/lib/getFullImageUrl";
 import { useTripStore } from "@/store/useTripStore";
 import {
+  Eye,
+  EyeOff,
   LucideCloudUpload,
   LucideEdit2,
   Plus,
   Trash2,
   Upload,
-  X,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Combobox } from "@/components/organisms/combo-box";
@@ -44,9 +51,80 @@ import { Badge } from "@/components/ui/badge";
 import { generateSlug } from "@/lib/generateSlug";
 import { stripStyles } from "@/lib/stripQuillHTMLStyles";
 import { compressIfNeeded } from "@/lib/imageCompressor";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DepartureStatus } from "@/app/(dash)/enums/departureStatus.enum";
+import { TDeparture } from "@/app/(dash)/types/departure";
+import { DepartureCalendar } from "@/components/trip/departure-calendar";
+import { TripLinksEditor } from "@/components/trip/trip-links-editor";
+import { TripAddOns } from "@/components/trip/trip-add-ons";
+import { PaymentPolicyPicker } from "@/components/trip/payment-policy-picker";
+import {
+  departureStatusOptions,
+  getRemainingSeats,
+  toDateKey,
+} from "@/lib/departures";
+import { PricingTable } from "@/components/trip/pricing-table";
+import { ItineraryEditor } from "@/components/trip/itinerary-editor";
+import { AltitudeProfile } from "@/components/trip/altitude-profile";
+import { RouteMap } from "@/components/trip/route-map";
+import { ImageGallery } from "@/components/trip/image-gallery";
+import { SnippetPicker } from "@/components/trip/snippet-picker";
+import { SaveTemplateDialog } from "@/components/trip/save-template-dialog";
+import { ReviewThread } from "@/components/trip/review-thread";
+import { fetchTemplate, fillSeoPatterns } from "@/lib/tripTemplates";
+import { TTripImage } from "@/app/(dash)/types/image";
+import { addTripImages, getImageUrls, toTripImages } from "@/lib/tripImages";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { currencyOptions } from "@/lib/currency";
+import ConvertedPrices from "@/components/atoms/converted-prices";
+import { RevisionHistory } from "@/components/trip/revision-history";
+import { TripPreview } from "@/components/trip/trip-preview";
+import { SchemaGenerator } from "@/components/trip/schema-generator";
+import { TTripSchemaSource } from "@/lib/tripSchema";
+import { SeoAuditPanel } from "@/components/organisms/seo-audit-panel";
+import { TranslationPanel } from "@/components/organisms/translation-panel";
+import { fromDateTimeInput, toDateTimeInput } from "@/lib/tripSchedule";
+import {
+  getTripTranslatableFields,
+  pruneTranslations,
+  remapTranslatedList,
+} from "@/lib/translations";
+import { EMPTY_TRIP_LINKS, toTripLinks } from "@/lib/tripLinks";
+import { toStringId } from "@/lib/stringIds";
+import { toTripAddOns } from "@/lib/addOns";
+import { fetchPaymentPolicies } from "@/lib/paymentPolicies";
+import { TPaymentPolicy } from "@/app/(dash)/types/paymentPolicy";
+import { recordBaselineRevision, recordRevision } from "@/lib/tripRevisions";
+import { DraftConflictDialog } from "@/components/trip/draft-conflict-dialog";
+import { TTripDraft } from "@/app/(dash)/types/draft";
+import { useTripAutosave } from "@/hooks/use-trip-autosave";
+import {
+  NEW_TRIP_DRAFT_KEY,
+  deleteDraft,
+  fetchDraft,
+  getConflictingKeys,
+  mergeDraft,
+  saveDraft,
+  toDraftBase,
+} from "@/lib/tripDraft";
+import {
+  defaultPricingTiers,
+  getFromPrice,
+  pricingFromLegacyPrice,
+} from "@/lib/tripPricing";
+
+// Lists come back from the API as arrays but are edited as joined text
+const joinList = (value: unknown, separator: string) =>
+  Array.isArray(value) ? value.join(separator) : ((value as string) ?? "");
 
 function getFirstErrorStep(errors: Record<string, any>): number | null {
-  for (let step = 1; step <= 11; step++) {
+  for (let step = 1; step <= Object.keys(STEP_FIELDS).length; step++) {
     const fields = STEP_FIELDS[step as keyof typeof STEP_FIELDS] ?? [];
     const hasError = fields.some((field) => {
       // Support nested paths like "seo.metaTitle" → errors.seo
@@ -71,22 +149,27 @@ const STEP_FIELDS = {
   4: ["inclusions", "exclusions"],
   5: ["meetingPoint", "dropOffPoint"],
   6: ["highlights", "keywords", "images"],
-  7: ["price"],
+  7: ["pricing", "addOns", "paymentPolicyId"],
   8: ["additionalInfo"],
   9: ["FAQs"],
   10: ["seo"],
-  11: ["Feature"],
+  11: ["Feature", "publishAt", "unpublishAt"],
+  12: ["departures"],
+  13: ["tripLinks"],
 };
 
 function TripForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const editId = searchParams?.get("id") || null;
+  const templateId = searchParams?.get("template") || null;
   const currStep = useTripStore((s) => s.currentStep);
   const setStep = useTripStore((s) => s.setStep);
-  const maxStep = 11;
+  const maxStep = Object.keys(STEP_FIELDS).length;
 
   const [isEditing, setIsEditing] = useState(false);
+  // The trip as loaded, kept as the baseline revision for its first save
+  const serverActivity = useRef<Record<string, unknown> | null>(null);
   const [isLoadingEdit, setIsLoadingEdit] = useState(false);
 
   const [cities, setCities] = useState<any[]>([]);
@@ -94,6 +177,7 @@ function TripForm() {
   const [categories, setCategories] = useState<any[]>([]);
   const [activityTypes, setActivityTypes] = useState<any[]>([]);
   const [featuredTags, setFeaturedTags] = useState<any[]>([]);
+  const [paymentPolicies, setPaymentPolicies] = useState<TPaymentPolicy[]>([]);
 
   const [selectedCity, setSelectedCity] = useState<string | null>(null);
   const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
@@ -114,12 +198,29 @@ function TripForm() {
     label: level.charAt(0).toUpperCase() + level.slice(1).toLowerCase(),
   }));
 
-  const [uploadedUrls, setUploadedUrls] = useState<string[]>([]);
+  const [galleryImages, setGalleryImages] = useState<TTripImage[]>([]);
   const [isUploading, setIsUploading] = useState(false);
 
   const [featuredMediaUrl, setFeaturedMediaUrl] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
 
+  const [showPreview, setShowPreview] = useState(false);
+  const [rating, setRating] = useState<TTripSchemaSource["rating"]>(null);
+
+  // A trip started from a template keeps its own draft next to blank ones
+  const draftKey =
+    editId ??
+    (templateId ? `${NEW_TRIP_DRAFT_KEY}-${templateId}` : NEW_TRIP_DRAFT_KEY);
+  const [isDraftReady, setIsDraftReady] = useState(false);
+  const [draftBase, setDraftBase] = useState<
+    Pick<TTripDraft, "base" | "baseUpdatedAt">
+  >({ base: null, baseUpdatedAt: null });
+  // A draft started from an older version of the trip, waiting for a choice
+  const [conflict, setConflict] = useState<{
+    draft: TTripDraft;
+    server: Record<string, unknown>;
+  } | null>(null);
+
   const onInvalid = (errors: Record<string, any>) => {
     const firstStep = getFirstErrorStep(errors);
     if (firstStep !== null) {
@@ -140,6 +241,7 @@ function TripForm() {
     reset,
     getValues,
     setValue,
+    watch,
     formState: { errors },
   } = useForm<TripFormData>({
     mode: "onChange",
@@ -164,7 +266,28 @@ function TripForm() {
       exclusions: "",
       meetingPoint: "",
       dropOffPoint: "",
-      price: 0,
+      currency: Currency.USD,
+      pricing: {
+        tiers: defaultPricingTiers,
+        seasons: [
+          {
+            name: "Peak Season",
+            startMonth: 3,
+            endMonth: 5,
+            rates: defaultPricingTiers.map(() => 0),
+          },
+          {
+            name: "Off Season",
+            startMonth: 6,
+            endMonth: 8,
+            rates: defaultPricingTiers.map(() => 0),
+          },
+        ],
+        childRate: null,
+        singleSupplement: null,
+      },
+      addOns: [],
+      paymentPolicyId: null,
       highlights: "",
       keywords: "",
       transportation: "",
@@ -173,6 +296,7 @@ function TripForm() {
       groupSize: "",
       videoUrl: "",
       map: "",
+      route: null,
       faqs: [{ question: "", answer: "" }],
       itinerary: [
         {
@@ -185,9 +309,12 @@ function TripForm() {
           descent: "",
           meals: "",
           accommodations: "",
+          sleepingAltitude: null,
+          maxAltitude: null,
         },
       ],
       additionalInfo: [{ title: "", description: "" }],
+      departures: [],
       seo: {
         metaTitle: "",
         metaDescription: "",
@@ -197,14 +324,13 @@ function TripForm() {
         metaRobots: "",
         metaAuthor: "",
       },
+      publishAt: "",
+      unpublishAt: "",
+      translations: {},
+      tripLinks: EMPTY_TRIP_LINKS,
     },
   });
 
-  const {
-    fields: itineraryFields,
-    append: addItinerary,
-    remove: removeItinerary,
-  } = useFieldArray({ control, name: "itinerary" });
   const {
     fields: infoFields,
     append: addInfo,
@@ -215,6 +341,39 @@ function TripForm() {
     append: addFaq,
     remove: removeFaq,
   } = useFieldArray({ control, name: "faqs" });
+  // Translated FAQs are stored by position, so the later ones shift up too
+  const deleteFaq = (index: number) => {
+    removeFaq(index);
+    setValue(
+      "translations",
+      remapTranslatedList(
+        getValues("translations"),
+        "faqs",
+        faqFields.length,
+        (faqs) => {
+          faqs.splice(index, 1);
+          return faqs;
+        },
+      ),
+    );
+  };
+  const {
+    fields: departureFields,
+    append: addDeparture,
+    remove: removeDeparture,
+  } = useFieldArray({ control, name: "departures" });
+  const watchedDepartures = watch("departures");
+  const watchedCurrency = watch("currency");
+  const watchedPaymentPolicyId = watch("paymentPolicyId");
+
+  const appendDeparture = (startDate = "") =>
+    addDeparture({
+      startDate,
+      seatsTotal: Number(getValues("guestCapacity")) || 1,
+      seatsBooked: 0,
+      status: DepartureStatus.OPEN,
+      priceOverride: null,
+    });
 
   // Fetch options
   useEffect(() => {
@@ -239,6 +398,16 @@ function TripForm() {
     })();
   }, []);
 
+  useEffect(() => {
+    (async () => {
+      try {
+        setPaymentPolicies(await fetchPaymentPolicies());
+      } catch (e) {
+        console.error("Failed to fetch payment policies", e);
+      }
+    })();
+  }, []);
+
   const categoryOptions = categories.map((c) => ({
     value: c.id,
     label: c.categoryName,
@@ -259,85 +428,190 @@ function TripForm() {
     label: r.regionName,
   }));
 
-  // Edit mode
-  useEffect(() => {
-    if (!editId) return;
-    setIsLoadingEdit(true);
-    (async () => {
-      try {
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/${editId}`,
-        );
-        if (!res.ok) throw new Error("Failed to fetch activity");
-        const activity = (await res.json()).data;
-        const mapped = {
-          ...activity,
-          faqs: activity.faqs || [{ question: "", answer: "" }],
-          itinerary: activity.itinerary || [
-            {
-              day: 1,
-              title: "",
-              description: "",
-              duration: "",
-              distance: "",
-              ascent: "",
-              descent: "",
-              meals: Array.isArray(activity.meals)
-                ? activity.meals.join(", ")
-                : (activity.meals ?? ""),
-              accommodations: Array.isArray(activity.accommodations)
-                ? activity.accommodations.join(", ")
-                : (activity.accommodations ?? ""),
-            },
-          ],
-          additionalInfo: activity.additionalInfo || [
+  // Maps an activity from the API (or a saved revision snapshot) onto the form
+  const applyActivity = useCallback(
+    (activity: Record<string, unknown>) => {
+      const seo = activity.seo as TripFormData["seo"] | undefined;
+      const mapped = {
+        ...activity,
+        faqs: (activity.faqs as TripFormData["faqs"]) || [
+          { question: "", answer: "" },
+        ],
+        // Saved revisions store day meals and stays as arrays
+        itinerary: (activity.itinerary as Record<string, unknown>[])?.map(
+          (day) => ({
+            ...day,
+            meals: joinList(day.meals, ", "),
+            accommodations: joinList(day.accommodations, ", "),
+          }),
+        ) || [
+          {
+            day: 1,
+            title: "",
+            description: "",
+            duration: "",
+            distance: "",
+            ascent: "",
+            descent: "",
+            meals: joinList(activity.meals, ", "),
+            accommodations: joinList(activity.accommodations, ", "),
+          },
+        ],
+        additionalInfo:
+          (activity.additionalInfo as TripFormData["additionalInfo"]) || [
             { title: "", description: "" },
           ],
-          highlights: Array.isArray(activity.highlights)
-            ? activity.highlights.join("\n")
-            : (activity.highlights ?? ""),
-          inclusions: Array.isArray(activity.inclusions)
-            ? activity.inclusions.join("\n")
-            : (activity.inclusions ?? ""),
-          exclusions: Array.isArray(activity.exclusions)
-            ? activity.exclusions.join("\n")
-            : (activity.exclusions ?? ""),
-          keywords: Array.isArray(activity.keywords)
-            ? activity.keywords.join(", ")
-            : (activity.keywords ?? ""),
-          locations: Array.isArray(activity.locations)
-            ? activity.locations.join(", ")
-            : (activity.locations ?? ""),
-          seo: activity.seo || {
-            metaTitle: "",
-            metaDescription: "",
-            featuredMedia: "",
-            schema: "",
-            metaKeywords: "",
-            metaRobots: "",
-            metaAuthor: "",
-          },
-        };
-        reset(mapped);
-        setUploadedUrls(activity.images || []);
-        setSelectedCategory(activity.tripCategoryId || "");
-        setDifficulty(activity.difficultyLevel || TripDifficulty.EASY);
-        setSelectedActivityType(activity.tripTypeId || "");
-        setSelectedCity(activity.cityId || "");
-        setSelectedRegion(activity.regionId || "");
-        if (activity.featuredTags && Array.isArray(activity.featuredTags)) {
-          const tagIds = activity.featuredTags.map((tag: any) => tag.id);
-          setSelectedFeaturedTags(tagIds);
-        }
-        setFeaturedMediaUrl(activity.seo.featuredMedia);
-        setIsEditing(true);
+        currency: (activity.currency as Currency) || Currency.USD,
+        pricing:
+          (activity.pricing as TripFormData["pricing"]) ||
+          pricingFromLegacyPrice(activity.price as number | null),
+        route: (activity.route as TripFormData["route"]) ?? null,
+        departures: ((activity.departures as TDeparture[]) || []).map((d) => ({
+          ...d,
+          startDate: d.startDate ? toDateKey(d.startDate) : "",
+          priceOverride: d.priceOverride ?? null,
+        })),
+        highlights: joinList(activity.highlights, "\n"),
+        inclusions: joinList(activity.inclusions, "\n"),
+        exclusions: joinList(activity.exclusions, "\n"),
+        keywords: joinList(activity.keywords, ", "),
+        accommodations: joinList(activity.accommodations, ", "),
+        locations: joinList(activity.locations, ", "),
+        seo: seo || {
+          metaTitle: "",
+          metaDescription: "",
+          featuredMedia: "",
+          schema: "",
+          metaKeywords: "",
+          metaRobots: "",
+          metaAuthor: "",
+        },
+        publishAt: toDateTimeInput(activity.publishAt as string | null),
+        unpublishAt: toDateTimeInput(activity.unpublishAt as string | null),
+        translations:
+          (activity.translations as TripFormData["translations"]) ?? {},
+        tripLinks: toTripLinks(activity.tripLinks),
+        addOns: toTripAddOns(activity.addOns),
+        paymentPolicyId: toStringId(activity.paymentPolicyId) || null,
+      } as TripFormData;
+      reset(mapped);
+      setGalleryImages(toTripImages(activity.images));
+      setSelectedCategory((activity.tripCategoryId as string) || "");
+      setDifficulty(
+        (activity.difficultyLevel as TripDifficulty) || TripDifficulty.EASY,
+      );
+      setSelectedActivityType((activity.tripTypeId as string) || "");
+      setSelectedCity((activity.cityId as string) || "");
+      setSelectedRegion((activity.regionId as string) || "");
+      if (Array.isArray(activity.featuredTags)) {
+        const tagIds = activity.featuredTags.map(
+          (tag: Record<string, unknown> | string) =>
+            typeof tag === "object" ? String(tag.id) : tag,
+        );
+        setSelectedFeaturedTags(tagIds);
+      }
+      setFeaturedMediaUrl(seo?.featuredMedia ?? null);
+      if (activity.averageRating && activity.reviewCount)
+        setRating({
+          value: Number(activity.averageRating),
+          count: Number(activity.reviewCount),
+        });
+    },
+    [reset],
+  );
+
+  // Puts an unsaved draft from the server back on the form, unless the trip
+  // was saved again since the draft started
+  const restoreDraft = useCallback(
+    async (activity: Record<string, unknown> | null) => {
+      const base = activity ? toDraftBase(activity) : null;
+      const baseUpdatedAt = activity?.updatedAt
+        ? String(activity.updatedAt)
+        : null;
+      setDraftBase({ base, baseUpdatedAt });
+
+      let draft: TTripDraft | null = null;
+      try {
+        draft = await fetchDraft(draftKey);
       } catch (err) {
         console.error(err);
-      } finally {
-        setIsLoadingEdit(false);
       }
+      if (!draft) {
+        setIsDraftReady(true);
+        return;
+      }
+      if (!activity || draft.baseUpdatedAt === baseUpdatedAt) {
+        applyActivity(draft.values);
+        toast.info("Unsaved draft restored");
+        setIsDraftReady(true);
+        return;
+      }
+      setConflict({ draft, server: activity });
+    },
+    [draftKey, applyActivity],
+  );
+
+  // Edit mode, then any unsaved draft on top of it
+  useEffect(() => {
+    (async () => {
+      let activity: Record<string, unknown> | null = null;
+      if (editId) {
+        setIsLoadingEdit(true);
+        try {
+          const res = await fetch(
+            `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/${editId}`,
+          );
+          if (!res.ok) throw new Error("Failed to fetch activity");
+          const data = (await res.json()).data;
+          activity = data;
+          serverActivity.current = data;
+          applyActivity(data);
+          setIsEditing(true);
+        } catch (err) {
+          console.error(err);
+          return;
+        } finally {
+          setIsLoadingEdit(false);
+        }
+      } else if (templateId) {
+        try {
+          const template = await fetchTemplate(templateId);
+          applyActivity({
+            ...getValues(),
+            ...template.values,
+            seo: { ...getValues("seo"), ...template.values.seo },
+          });
+        } catch (err) {
+          console.error(err);
+          toast.error("Failed to load template");
+        }
+      }
+      await restoreDraft(activity);
     })();
-  }, [editId, reset]);
+  }, [editId, templateId, applyActivity, restoreDraft, getValues]);
+
+  const resolveConflict = async (choice: "merge" | "overwrite" | "discard") => {
+    if (!conflict) return;
+    const { draft, server } = conflict;
+    setConflict(null);
+    try {
+      if (choice === "discard") {
+        // The latest server version is already on the form
+        await deleteDraft(draftKey);
+      } else {
+        const values =
+          choice === "merge"
+            ? mergeDraft(draft.base ?? {}, server, draft.values)
+            : draft.values;
+        applyActivity(values);
+        // The draft now builds on the latest version, so it stops conflicting
+        await saveDraft(draftKey, { ...draft, ...draftBase, values });
+      }
+    } catch (err) {
+      console.error(err);
+    }
+    setIsDraftReady(true);
+  };
 
   // Handle file upload immediately - FIXED VERSION
   const handleFileChange: React.ChangeEventHandler<HTMLInputElement> = async (
@@ -367,7 +641,7 @@ function TripForm() {
 
       console.log("Uploaded URLs:", urls); // Debug log
 
-      setUploadedUrls((prev) => [...prev, ...urls]);
+      setGalleryImages((prev) => addTripImages(prev, urls));
       toast.success(
         `Uploaded ${urls.length} image${urls.length > 1 ? "s" : ""}`,
       );
@@ -415,10 +689,6 @@ function TripForm() {
     }
   };
 
-  const handleRemovePreview = (index: number) => {
-    setUploadedUrls((prev) => prev.filter((_, i) => i !== index));
-  };
-
   const handleNextStep = async (e: React.MouseEvent<HTMLButtonElement>) => {
     e.preventDefault();
     if (isUploading) return;
@@ -434,39 +704,90 @@ function TripForm() {
 
   process.env.ENV && console.log("Form Errors:", errors);
 
-  const onSubmit = async (data: TripFormData) => {
-    const payload = {
-      ...data,
-      shortDescription: stripStyles(data.shortDescription),
-      slug: data.slug || generateSlug(data.title),
-      tripCategoryId: selectedCategory ?? undefined,
-      tripTypeId: selectedActivityType ?? undefined,
-      cityId: selectedCity ?? undefined,
-      regionId: selectedRegion ?? undefined,
-      images: uploadedUrls,
-      difficultyLevel: difficulty,
-      itinerary: data.itinerary.map((field) => ({
-        day: field.day,
-        title: field.title,
-        description: field.description,
-        duration: field.duration,
-        distance: field.distance,
-        ascent: field.ascent,
-        descent: field.descent,
-        meals: cleanStringArray(field.meals, ","),
-        accommodations: cleanStringArray(field.accommodations, ","),
-      })),
-      keywords: cleanStringArray(data.keywords, ","),
-      locations: cleanStringArray(data.locations, ","),
-      highlights: cleanStringArray(data.highlights, "\n"),
-      inclusions: cleanStringArray(data.inclusions, "\n"),
-      exclusions: cleanStringArray(data.exclusions, "\n"),
-      seo: { ...data.seo, featuredMedia: featuredMediaUrl },
-      featuredTags: selectedFeaturedTags,
-      accommodations: cleanStringArray(data.accommodations, ","),
+  const buildPayload = (data: TripFormData) => ({
+    ...data,
+    shortDescription: stripStyles(data.shortDescription),
+    slug: data.slug || generateSlug(data.title),
+    tripCategoryId: selectedCategory ?? undefined,
+    tripTypeId: selectedActivityType ?? undefined,
+    cityId: selectedCity ?? undefined,
+    regionId: selectedRegion ?? undefined,
+    images: galleryImages,
+    difficultyLevel: difficulty,
+    price: getFromPrice(data.pricing),
+    itinerary: data.itinerary.map((field) => ({
+      day: field.day,
+      title: field.title,
+      description: field.description,
+      duration: field.duration,
+      distance: field.distance,
+      ascent: field.ascent,
+      descent: field.descent,
+      meals: cleanStringArray(field.meals, ","),
+      accommodations: cleanStringArray(field.accommodations, ","),
+      sleepingAltitude: field.sleepingAltitude ?? null,
+      maxAltitude: field.maxAltitude ?? null,
+    })),
+    keywords: cleanStringArray(data.keywords, ","),
+    locations: cleanStringArray(data.locations, ","),
+    highlights: cleanStringArray(data.highlights, "\n"),
+    inclusions: cleanStringArray(data.inclusions, "\n"),
+    exclusions: cleanStringArray(data.exclusions, "\n"),
+    seo: { ...data.seo, featuredMedia: featuredMediaUrl },
+    featuredTags: selectedFeaturedTags,
+    accommodations: cleanStringArray(data.accommodations, ","),
+    publishAt: fromDateTimeInput(data.publishAt),
+    unpublishAt: fromDateTimeInput(data.unpublishAt),
+    translations: pruneTranslations(data.translations),
+  });
+
+  const getSchemaSource = (): TTripSchemaSource => ({
+    ...getValues(),
+    images: imageUrls,
+    rating,
+  });
+
+  const getSeoInput = () => {
+    const data = getValues();
+    const seo = fillSeoPatterns(data.seo ?? {}, data);
+    return {
+      title: data.title,
+      slug: data.slug,
+      metaTitle: seo.metaTitle ?? "",
+      metaDescription: seo.metaDescription ?? "",
+      content: [
+        data.shortDescription,
+        data.fullDescription,
+        ...data.itinerary.map((day) => day.description),
+      ].join(""),
+      images: galleryImages.map(({ url, alt }) => ({ url, alt })),
     };
+  };
+  const focusKeyword = watch("seo.metaKeywords")?.split(",")[0]?.trim();
+
+  const { lastSavedAt, clearDraft } = useTripAutosave({
+    draftKey,
+    enabled: isDraftReady,
+    getDraft: () => ({
+      activityId: editId,
+      values: buildPayload(getValues()),
+      ...draftBase,
+    }),
+  });
+
+  const onSubmit = async (data: TripFormData) => {
+    const base = buildPayload(data);
+    const payload = { ...base, seo: fillSeoPatterns(base.seo, base) };
 
     try {
+      if (editId && serverActivity.current) {
+        try {
+          await recordBaselineRevision(editId, serverActivity.current);
+          serverActivity.current = null;
+        } catch (err) {
+          console.error(err);
+        }
+      }
       const endpoint = editId
         ? `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/${editId}`
         : `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/`;
@@ -479,6 +800,17 @@ function TripForm() {
       });
 
       if (!res.ok) throw new Error("Submission failed");
+      const saved = await res.json().catch(() => null);
+      const activityId = editId ?? saved?.data?.id;
+      if (activityId) {
+        try {
+          await recordRevision(String(activityId), payload);
+        } catch (err) {
+          console.error(err);
+          toast.error("Trip saved, but this version was not added to history");
+        }
+      }
+      await clearDraft();
       toast.success(
         editId ? "Trip updated successfully" : "Trip created successfully",
       );
@@ -546,973 +878,1182 @@ function TripForm() {
   //   }
   // };
 
-  // FIXED: Use memoized previews with proper URL construction
-  const renderedPreviews = useMemo(() => {
-    return uploadedUrls.map((url) => getFullImageUrl(url));
-  }, [uploadedUrls]);
+  // Cover first, the order the listing and the public gallery use
+  const imageUrls = useMemo(() => getImageUrls(galleryImages), [galleryImages]);
+  const renderedPreviews = useMemo(
+    () => imageUrls.map((url) => getFullImageUrl(url)),
+    [imageUrls],
+  );
 
   return (
-    <form
-      id="tripform"
-      // @ts-expect-error some error on onsubmit type errors
-      onSubmit={handleSubmit(onSubmit, onInvalid)}
-      className="space-y-4"
-    >
-      {/* STEP 1 */}
-      <div className={cn(currStep === 1 ? "flex flex-col gap-3" : "hidden")}>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="title">Trip Name</Label>
-          <Input
-            {...register("title", { required: "Title is required" })}
-            placeholder={
-              "Short, descriptive, and attractive (e.g., Day Tour in Pokhara)."
-            }
+    <div className={cn(showPreview && "grid grid-cols-2 gap-6")}>
+      <form
+        id="tripform"
+        // @ts-expect-error some error on onsubmit type errors
+        onSubmit={handleSubmit(onSubmit, onInvalid)}
+        className="space-y-4 min-w-0"
+      >
+        <div className="flex items-center justify-end gap-3">
+          {lastSavedAt && (
+            <p className="text-xs text-muted-foreground">
+              Draft saved at{" "}
+              {lastSavedAt.toLocaleTimeString("en-US", {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </p>
+          )}
+          <SeoAuditPanel
+            source="trip"
+            getInput={getSeoInput}
+            defaultKeyword={focusKeyword}
           />
-          {errors.title && (
-            <p className="text-sm text-red-500">{errors.title.message}</p>
+          <TranslationPanel
+            control={control}
+            getFields={getTripTranslatableFields}
+          />
+          <SaveTemplateDialog getTrip={() => buildPayload(getValues())} />
+          {editId && <ReviewThread activityId={editId} />}
+          {editId && (
+            <RevisionHistory activityId={editId} onRestore={applyActivity} />
           )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setShowPreview((open) => !open)}
+          >
+            {showPreview ? (
+              <EyeOff className="h-4 w-4" />
+            ) : (
+              <Eye className="h-4 w-4" />
+            )}{" "}
+            Preview
+          </Button>
         </div>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="slug">Slug/Trip Handle</Label>
-          <LabelDescription text="Keep it concise (under 60 characters is great, max ~250), short, simple and in kebab-case eg. annapurna-circuit-trek" />
-          <div className="flex gap-1 items-center">
+        <DraftConflictDialog
+          open={!!conflict}
+          conflictingKeys={
+            conflict
+              ? getConflictingKeys(
+                  conflict.draft.base ?? {},
+                  conflict.server,
+                  conflict.draft.values,
+                )
+              : []
+          }
+          onMerge={() => resolveConflict("merge")}
+          onOverwrite={() => resolveConflict("overwrite")}
+          onDiscard={() => resolveConflict("discard")}
+        />
+        {/* STEP 1 */}
+        <div className={cn(currStep === 1 ? "flex flex-col gap-3" : "hidden")}>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="title">Trip Name</Label>
             <Input
-              {...register("slug", { required: "Slug is required" })}
-              placeholder="tour-title-slug"
+              {...register("title", { required: "Title is required" })}
+              placeholder={
+                "Short, descriptive, and attractive (e.g., Day Tour in Pokhara)."
+              }
             />
-            <Button
-              type="button"
-              onClick={() => setValue("slug", generateSlug(getValues("title")))}
-            >
-              Generate from Title
-            </Button>
+            {errors.title && (
+              <p className="text-sm text-red-500">{errors.title.message}</p>
+            )}
           </div>
-          {errors.slug && (
-            <p className="text-sm text-red-500">{errors?.slug?.message}</p>
-          )}
-        </div>
-        <fieldset className="border px-4 pb-4 rounded-md">
-          <legend>Trip Family</legend>
-          <div className="flex gap-1">
-            <LabelDescription text="Fields in this section can be omitted, choose the required fields to categorize them in any order." />
-            <InstructionTooltip instruction="If your trip only have category i.e. Trekking, it may not include activity type, destination or region, or it can only include region and not category, activity type or destination. This will reflect in the public facing design." />
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="slug">Slug/Trip Handle</Label>
+            <LabelDescription text="Keep it concise (under 60 characters is great, max ~250), short, simple and in kebab-case eg. annapurna-circuit-trek" />
+            <div className="flex gap-1 items-center">
+              <Input
+                {...register("slug", { required: "Slug is required" })}
+                placeholder="tour-title-slug"
+              />
+              <Button
+                type="button"
+                onClick={() =>
+                  setValue("slug", generateSlug(getValues("title")))
+                }
+              >
+                Generate from Title
+              </Button>
+            </div>
+            {errors.slug && (
+              <p className="text-sm text-red-500">{errors?.slug?.message}</p>
+            )}
+          </div>
+          <fieldset className="border px-4 pb-4 rounded-md">
+            <legend>Trip Family</legend>
+            <div className="flex gap-1">
+              <LabelDescription text="Fields in this section can be omitted, choose the required fields to categorize them in any order." />
+              <InstructionTooltip instruction="If your trip only have category i.e. Trekking, it may not include activity type, destination or region, or it can only include region and not category, activity type or destination. This will reflect in the public facing design." />
+            </div>
+            <br />
+            <div className="flex items-start gap-8">
+              <div className="flex flex-col gap-2 w-full">
+                <Label htmlFor="category">Category</Label>
+                <LabelDescription text="Main high level type of the activity (Trekking, Luxury, Tours, Multi Country) that includes broad range of activities" />
+                <Combobox
+                  options={categoryOptions}
+                  value={selectedCategory ?? ""}
+                  setValue={setSelectedCategory}
+                  placeholder="Select Category"
+                  notFoundPlaceholder="No category found."
+                />
+                {errors.tripCategoryId && (
+                  <p className="text-sm text-red-500">
+                    {errors.tripCategoryId.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-2 w-full">
+                <Label htmlFor="activityType">Activity Type</Label>
+                <LabelDescription text="These are the activities travelers can expect to experience. Eg. Jungle Safari, Rafting, Hiking, etc." />
+                <Combobox
+                  options={activityTypeOptions}
+                  value={selectedActivityType ?? ""}
+                  setValue={setSelectedActivityType}
+                  placeholder="Select Activity Type"
+                  notFoundPlaceholder="No activity type found."
+                />
+                {errors.tripTypeId && (
+                  <p className="text-sm text-red-500">
+                    {errors.tripTypeId.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* City and Region */}
+            <div className="flex items-start gap-8">
+              <div className="flex flex-col gap-2 w-full mt-4">
+                <Label htmlFor="category">Destination</Label>
+                <LabelDescription text="These are the major destinations like country (Nepal, Bhutan, Tibet, India,etc), specific location points" />
+                <Combobox
+                  options={cityOptions}
+                  value={selectedCity ?? ""}
+                  setValue={setSelectedCity}
+                  placeholder="Select Destination"
+                  notFoundPlaceholder="No destinations found."
+                />
+                {errors.cityId && (
+                  <p className="text-sm text-red-500">
+                    {errors.cityId.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-2 w-full">
+                <Label htmlFor="activityType" className="mt-4">
+                  Region
+                </Label>
+                <LabelDescription text="These are the major regions for the activity like Annapurna Region, Everest Regions,etc" />
+                <Combobox
+                  options={regionOptions}
+                  value={selectedRegion ?? ""}
+                  setValue={setSelectedRegion}
+                  placeholder="Select region"
+                  notFoundPlaceholder="No region found."
+                />
+                {errors.regionId && (
+                  <p className="text-sm text-red-500">
+                    {errors.regionId.message}
+                  </p>
+                )}
+              </div>
+            </div>
+          </fieldset>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-2 items-center">
+              <Label htmlFor="shortDescription">
+                Overview <span className="text-red-500 text-xs">*</span>
+              </Label>
+              <InstructionTooltip instruction="Write 3–5 sentences describing what travelers will do and experience on the trip." />
+            </div>
+            {/* <QuillTableBetterDemo name="shortDescription" control={control}/> */}
+            <QuillField
+              minHeight={100}
+              name="shortDescription"
+              control={control}
+            />
+            {errors.shortDescription && (
+              <p className="text-sm text-red-500">
+                {errors.shortDescription.message}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="fullDescription">Full Description</Label>
+            <ListBox
+              list={[
+                "List the main sights, activities, or experiences included in the trip.",
+                "Indicate whether the trip is relaxed, active, or moderate.",
+                "Write a short sentence explaining what makes this trip special or different from others.",
+              ]}
+            />
+            <QuillField name={`fullDescription`} control={control} />
+            {errors.fullDescription && (
+              <p className="text-sm text-red-500">
+                {errors.fullDescription.message}
+              </p>
+            )}
           </div>
-          <br />
-          <div className="flex items-start gap-8">
-            <div className="flex flex-col gap-2 w-full">
-              <Label htmlFor="category">Category</Label>
-              <LabelDescription text="Main high level type of the activity (Trekking, Luxury, Tours, Multi Country) that includes broad range of activities" />
-              <Combobox
-                options={categoryOptions}
-                value={selectedCategory ?? ""}
-                setValue={setSelectedCategory}
-                placeholder="Select Category"
-                notFoundPlaceholder="No category found."
+        </div>
+
+        {/* STEP 2 */}
+        <div className={cn(currStep === 2 ? "flex flex-col gap-3" : "hidden")}>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="duration">Duration</Label>
+              <LabelDescription text="Enter the total length of the trip. Eg. 8 hours or 3 Days" />
+              <Input
+                {...register("duration", { required: "Duration is required" })}
+                placeholder="Enter duration (e.g., 2 hours, 1 day)"
               />
-              {errors.tripCategoryId && (
+              {errors.duration && (
                 <p className="text-sm text-red-500">
-                  {errors.tripCategoryId.message}
+                  {errors.duration.message}
                 </p>
               )}
             </div>
 
-            <div className="flex flex-col gap-2 w-full">
-              <Label htmlFor="activityType">Activity Type</Label>
-              <LabelDescription text="These are the activities travelers can expect to experience. Eg. Jungle Safari, Rafting, Hiking, etc." />
-              <Combobox
-                options={activityTypeOptions}
-                value={selectedActivityType ?? ""}
-                setValue={setSelectedActivityType}
-                placeholder="Select Activity Type"
-                notFoundPlaceholder="No activity type found."
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="groupSize">Group Size</Label>
+              <LabelDescription text="Enter number of people that should be in this trip" />
+              <Input
+                {...register("groupSize")}
+                placeholder="Enter Group Size (e.g., At least 1 Pax, 10 Pax Max)"
               />
-              {errors.tripTypeId && (
+              {errors.groupSize && (
                 <p className="text-sm text-red-500">
-                  {errors.tripTypeId.message}
+                  {errors.groupSize.message}
                 </p>
               )}
             </div>
           </div>
 
-          {/* City and Region */}
-          <div className="flex items-start gap-8">
-            <div className="flex flex-col gap-2 w-full mt-4">
-              <Label htmlFor="category">Destination</Label>
-              <LabelDescription text="These are the major destinations like country (Nepal, Bhutan, Tibet, India,etc), specific location points" />
-              <Combobox
-                options={cityOptions}
-                value={selectedCity ?? ""}
-                setValue={setSelectedCity}
-                placeholder="Select Destination"
-                notFoundPlaceholder="No destinations found."
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="meals">Meals</Label>
+            <Input
+              {...register("meals")}
+              placeholder="Enter included meals like breakfast, lunch, dinner,etc."
+            />
+            {errors.meals && (
+              <p className="text-sm text-red-500">{errors.meals.message}</p>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="bestSeason">Best Seasons</Label>
+            <Input
+              {...register("bestSeason")}
+              placeholder="Eg. Summer & Winter, Oct-Dec, etc."
+            />
+            {errors.bestSeason && (
+              <p className="text-sm text-red-500">
+                {errors.bestSeason.message}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="difficulty">Difficulty</Label>
+            <LabelDescription text="Select the trip's difficulty level: Easy, Moderate, or Hard" />
+            <Combobox
+              options={difficultyOptions}
+              value={difficulty ?? ""}
+              setValue={setDifficulty}
+              placeholder="Select difficulty"
+              notFoundPlaceholder="No difficulty level found."
+            />
+            {errors.difficultyLevel && (
+              <p className="text-sm text-red-500">
+                {errors.difficultyLevel.message}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="transportation">Transportation</Label>
+            <LabelDescription text="Write what methods of transportation will be used in this trip." />
+            <Input
+              {...register("transportation")}
+              placeholder="Eg. Bus, Private Car, Helicopter,etc."
+            />
+            {errors.transportation && (
+              <p className="text-sm text-red-500">
+                {errors.transportation.message}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label htmlFor="videoUrl">Video URL</Label>
+              <InstructionTooltip instruction="For YouTube, go to your YouTube video. Click share. You will see a embed option. Click on that to get the embed code. Copy the code and paste below." />
+            </div>
+            <LabelDescription text="Enter a YouTube or Vimeo URL for the trip video." />
+            <Input
+              {...register("videoUrl")}
+              placeholder='Eg. <iframe width="560" height="315" src="https://www.youtube.com/embed/ueOkyI3XD5s?si=g8XLztaRoizhqTbx" title="YouTube video player" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" referrerpolicy="strict-origin-when-cross-origin" allowfullscreen></iframe>'
+            />
+            {errors.difficultyLevel && (
+              <p className="text-sm text-red-500">
+                {errors.difficultyLevel.message}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2  gap-2">
+            <div>
+              <Label htmlFor="maximumAltitude">Maximum Altitude</Label>
+              <LabelDescription text="The maximum altitude (height) from sea level that travelers are expected to witness." />
+              <Input
+                {...register("maximumAltitude", {
+                  valueAsNumber: false,
+                  required: "Altitude is required",
+                })}
+                placeholder=""
               />
-              {errors.cityId && (
-                <p className="text-sm text-red-500">{errors.cityId.message}</p>
+              {errors.maximumAltitude && (
+                <p className="text-sm text-red-500">
+                  {errors.maximumAltitude.message}
+                </p>
               )}
             </div>
 
-            <div className="flex flex-col gap-2 w-full">
-              <Label htmlFor="activityType" className="mt-4">
-                Region
-              </Label>
-              <LabelDescription text="These are the major regions for the activity like Annapurna Region, Everest Regions,etc" />
-              <Combobox
-                options={regionOptions}
-                value={selectedRegion ?? ""}
-                setValue={setSelectedRegion}
-                placeholder="Select region"
-                notFoundPlaceholder="No region found."
+            <div>
+              <Label htmlFor="accommodations">Accommodation</Label>
+              <LabelDescription text="The type of accommodation travelers can expect during the trip. Separated by Comma." />
+              <Input
+                {...register("accommodations")}
+                placeholder="Eg. Tea Houses, Hotels, etc."
               />
-              {errors.regionId && (
+              {errors.accommodations && (
                 <p className="text-sm text-red-500">
-                  {errors.regionId.message}
+                  {errors.accommodations.message}
                 </p>
               )}
             </div>
           </div>
-        </fieldset>
-
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-2 items-center">
-            <Label htmlFor="shortDescription">
-              Overview <span className="text-red-500 text-xs">*</span>
-            </Label>
-            <InstructionTooltip instruction="Write 3–5 sentences describing what travelers will do and experience on the trip." />
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="locations">Locations (comma separated)</Label>
+            <LabelDescription
+              text="List all destinations or key places separated by commas.
+          Eg: Pokhara, Sarangkot, Phewa Lake, Devi's Fall"
+            />
+            <Input
+              {...register("locations", {
+                required: "At least one location required",
+              })}
+              placeholder="Enter Location(s)"
+            />
+            {errors.locations && (
+              <p className="text-sm text-red-500">{errors.locations.message}</p>
+            )}
           </div>
-          {/* <QuillTableBetterDemo name="shortDescription" control={control}/> */}
-          <QuillField
-            minHeight={100}
-            name="shortDescription"
-            control={control}
-          />
-          {errors.shortDescription && (
-            <p className="text-sm text-red-500">
-              {errors.shortDescription.message}
-            </p>
-          )}
         </div>
 
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="fullDescription">Full Description</Label>
-          <ListBox
-            list={[
-              "List the main sights, activities, or experiences included in the trip.",
-              "Indicate whether the trip is relaxed, active, or moderate.",
-              "Write a short sentence explaining what makes this trip special or different from others.",
-            ]}
-          />
-          <QuillField name={`fullDescription`} control={control} />
-          {errors.fullDescription && (
-            <p className="text-sm text-red-500">
-              {errors.fullDescription.message}
-            </p>
+        {/* STEP 3: ITINERARY */}
+        <div
+          className={cn(
+            currStep === 3 ? "flex flex-col gap-2 space-y-6" : "hidden",
           )}
+        >
+          <AltitudeProfile control={control} />
+          <ItineraryEditor
+            control={control}
+            register={register}
+            setValue={setValue}
+            getValues={getValues}
+            errors={errors}
+          />
         </div>
-      </div>
 
-      {/* STEP 2 */}
-      <div className={cn(currStep === 2 ? "flex flex-col gap-3" : "hidden")}>
-        <div className="grid grid-cols-2 gap-2">
+        {/* STEP 4: INCLUSIONS/EXCLUSIONS */}
+        <div className={cn(currStep === 4 ? "flex flex-col gap-3" : "hidden")}>
           <div className="flex flex-col gap-2">
-            <Label htmlFor="duration">Duration</Label>
-            <LabelDescription text="Enter the total length of the trip. Eg. 8 hours or 3 Days" />
-            <Input
-              {...register("duration", { required: "Duration is required" })}
-              placeholder="Enter duration (e.g., 2 hours, 1 day)"
+            <Label htmlFor="inclusions">Inclusions (one per line)</Label>
+            <LabelDescription text="List everything that is included in the trip. Write one item per line." />
+            <SnippetPicker
+              type="inclusion"
+              control={control}
+              getValues={getValues}
+              setValue={setValue}
+            />
+            <QuillField
+              placeholder="Enter inclusions, one per line"
+              name={`inclusions`}
+              control={control}
             />
-            {errors.duration && (
-              <p className="text-sm text-red-500">{errors.duration.message}</p>
+            {errors.inclusions && (
+              <p className="text-sm text-red-500">
+                {errors.inclusions.message}
+              </p>
             )}
           </div>
 
           <div className="flex flex-col gap-2">
-            <Label htmlFor="groupSize">Group Size</Label>
-            <LabelDescription text="Enter number of people that should be in this trip" />
-            <Input
-              {...register("groupSize")}
-              placeholder="Enter Group Size (e.g., At least 1 Pax, 10 Pax Max)"
+            <Label htmlFor="exclusions">Exclusions (one per line)</Label>
+            <LabelDescription text="List everything not included in the trip. Write one item per line." />
+            <SnippetPicker
+              type="exclusion"
+              control={control}
+              getValues={getValues}
+              setValue={setValue}
+            />
+            <QuillField
+              placeholder="Enter exclusions, one per line"
+              name={`exclusions`}
+              control={control}
             />
-            {errors.groupSize && (
-              <p className="text-sm text-red-500">{errors.groupSize.message}</p>
+            {errors.exclusions && (
+              <p className="text-sm text-red-500">
+                {errors.exclusions.message}
+              </p>
             )}
           </div>
+          <InfoCard info="Be clear and specific. Travelers should know exactly what they are paying for and what is extra." />
         </div>
 
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="meals">Meals</Label>
-          <Input
-            {...register("meals")}
-            placeholder="Enter included meals like breakfast, lunch, dinner,etc."
-          />
-          {errors.meals && (
-            <p className="text-sm text-red-500">{errors.meals.message}</p>
-          )}
-        </div>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="bestSeason">Best Seasons</Label>
-          <Input
-            {...register("bestSeason")}
-            placeholder="Eg. Summer & Winter, Oct-Dec, etc."
-          />
-          {errors.bestSeason && (
-            <p className="text-sm text-red-500">{errors.bestSeason.message}</p>
-          )}
-        </div>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="difficulty">Difficulty</Label>
-          <LabelDescription text="Select the trip's difficulty level: Easy, Moderate, or Hard" />
-          <Combobox
-            options={difficultyOptions}
-            value={difficulty ?? ""}
-            setValue={setDifficulty}
-            placeholder="Select difficulty"
-            notFoundPlaceholder="No difficulty level found."
-          />
-          {errors.difficultyLevel && (
-            <p className="text-sm text-red-500">
-              {errors.difficultyLevel.message}
-            </p>
-          )}
-        </div>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="transportation">Transportation</Label>
-          <LabelDescription text="Write what methods of transportation will be used in this trip." />
-          <Input
-            {...register("transportation")}
-            placeholder="Eg. Bus, Private Car, Helicopter,etc."
-          />
-          {errors.transportation && (
-            <p className="text-sm text-red-500">
-              {errors.transportation.message}
-            </p>
-          )}
-        </div>
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label htmlFor="videoUrl">Video URL</Label>
-            <InstructionTooltip instruction="For YouTube, go to your YouTube video. Click share. You will see a embed option. Click on that to get the embed code. Copy the code and paste below." />
-          </div>
-          <LabelDescription text="Enter a YouTube or Vimeo URL for the trip video." />
-          <Input
-            {...register("videoUrl")}
-            placeholder='Eg. <iframe width="560" height="315" src="https://www.youtube.com/embed/ueOkyI3XD5s?si=g8XLztaRoizhqTbx" title="YouTube video player" frameborder="0" allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share" referrerpolicy="strict-origin-when-cross-origin" allowfullscreen></iframe>'
-          />
-          {errors.difficultyLevel && (
-            <p className="text-sm text-red-500">
-              {errors.difficultyLevel.message}
-            </p>
-          )}
-        </div>
-
-        <div className="grid grid-cols-2  gap-2">
-          <div>
-            <Label htmlFor="maximumAltitude">Maximum Altitude</Label>
-            <LabelDescription text="The maximum altitude (height) from sea level that travelers are expected to witness." />
+        {/* STEP 5: MEETING POINTS */}
+        <div className={cn(currStep === 5 ? "flex flex-col gap-3" : "hidden")}>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="meetingPoint">Meeting Point/ Start</Label>
+            <LabelDescription text="Enter the exact place where travelers should meet." />
             <Input
-              {...register("maximumAltitude", {
-                valueAsNumber: false,
-                required: "Altitude is required",
+              {...register("meetingPoint", {
+                required: "Meeting point is required",
               })}
-              placeholder=""
+              placeholder="Enter meeting point"
             />
-            {errors.maximumAltitude && (
+            {errors.meetingPoint && (
               <p className="text-sm text-red-500">
-                {errors.maximumAltitude.message}
+                {errors.meetingPoint.message}
               </p>
             )}
           </div>
 
-          <div>
-            <Label htmlFor="accommodations">Accommodation</Label>
-            <LabelDescription text="The type of accommodation travelers can expect during the trip. Separated by Comma." />
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="dropOffPoint">Drop-off Point / End</Label>
+            <LabelDescription text="Enter the location where the trip ends, or where travelers will be dropped off." />
             <Input
-              {...register("accommodations")}
-              placeholder="Eg. Tea Houses, Hotels, etc."
+              {...register("dropOffPoint", {
+                required: "Drop-off point is required",
+              })}
+              placeholder="Enter drop-off point"
             />
-            {errors.accommodations && (
+            {errors.dropOffPoint && (
               <p className="text-sm text-red-500">
-                {errors.accommodations.message}
+                {errors.dropOffPoint.message}
               </p>
             )}
           </div>
+          <InfoCard info="Include landmarks, hotel names, or clear instructions so travelers can easily find the locations." />
         </div>
 
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="locations">Locations (comma separated)</Label>
-          <LabelDescription
-            text="List all destinations or key places separated by commas.
-          Eg: Pokhara, Sarangkot, Phewa Lake, Devi's Fall"
-          />
-          <Input
-            {...register("locations", {
-              required: "At least one location required",
-            })}
-            placeholder="Enter Location(s)"
+        {/* STEP 6 media upload */}
+        <div className={cn(currStep == 6 ? "flex flex-col gap-3" : "hidden")}>
+          <div>
+            <ListBox
+              list={[
+                "Upload clear, high-resolution images that show the destination.",
+                "Use JPEG, PNG, or WebP Format.",
+                "Make sure images are bright, well-lit, and properly framed.",
+                "Select one main thumbnail image for the trip listing.",
+                "Use real photos that represent the actual trip.",
+                "Upload at least 3 images for better experience.",
+              ]}
+            />
+          </div>
+          <Label htmlFor="upload_file">
+            <div
+              className={cn(
+                "max-w-4xl hover:bg-primary/10 rounded-sm border border-dashed p-8 flex flex-col items-center justify-center cursor-pointer",
+                isUploading && "opacity-50 pointer-events-none",
+              )}
+            >
+              <Upload className="h-6 w-6 mb-2" />
+              <p className="font-medium">
+                {isUploading ? "Uploading..." : "Browse"}
+              </p>
+              <p className="text-sm text-foreground">Max file size up to 1MB</p>
+            </div>
+          </Label>
+          <input
+            id="upload_file"
+            hidden
+            type="file"
+            multiple
+            accept="image/png, image/jpeg, image/webp, image/avif"
+            onChange={handleFileChange}
           />
-          {errors.locations && (
-            <p className="text-sm text-red-500">{errors.locations.message}</p>
+          {galleryImages.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <Label>Gallery</Label>
+              <LabelDescription text="Drag images into the order they should appear. The cover is used as the listing thumbnail. Describe each image in its alt text for screen readers and search engines." />
+              <ImageGallery
+                images={galleryImages}
+                onChange={setGalleryImages}
+              />
+            </div>
           )}
-        </div>
-      </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="map">Map</Label>
+            <LabelDescription text="Upload or embed a map of the trip itinerary." />
+            <QuillField name={`map`} control={control} />
+            {errors.map && (
+              <p className="text-sm text-red-500">{errors.map.message}</p>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label>Route</Label>
+            <LabelDescription text="Upload a GPX or KML track, or draw waypoints for each itinerary day. The route is saved as GeoJSON." />
+            <RouteMap control={control} setValue={setValue} />
+          </div>
 
-      {/* STEP 3: ITINERARY */}
-      <div
-        className={cn(
-          currStep === 3 ? "flex flex-col gap-2 space-y-6" : "hidden",
-        )}
-      >
-        {itineraryFields.map((field, index) => (
-          <div key={field.id} className="p-4 border rounded-sm relative">
-            <div className="flex justify-between items-center mb-3">
-              <h3 className="font-semibold">Day {index + 1}</h3>
-              {itineraryFields.length > 1 && (
-                <Button
-                  type="button"
-                  variant="secondary"
-                  size="icon"
-                  onClick={() => removeItinerary(index)}
-                >
-                  <Trash2 className="h-4 w-4 text-foreground/70" />
-                </Button>
-              )}
-            </div>
-
-            <Input
-              {...register(`itinerary.${index}.title` as const, {
-                required: "Day title is required",
-              })}
-              placeholder={
-                "Give a short, descriptive title for the day. Example:  Sunrise at Sarangkot & Lakeside Tour"
-              }
-              className="mb-3"
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="highlights">Highlights (one per line)</Label>
+            <LabelDescription text="List the key attractions and experiences." />
+            <SnippetPicker
+              type="highlight"
+              control={control}
+              getValues={getValues}
+              setValue={setValue}
             />
-            {errors.itinerary?.[index]?.title && (
-              <p className="text-sm text-red-500 my-2">
-                {errors.itinerary[index].title?.message}
-              </p>
-            )}
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label className="pb-2" htmlFor={`itinerary.${index}.duration`}>
-                  Duration
-                </Label>
-                <Input
-                  {...register(`itinerary.${index}.duration` as const)}
-                  placeholder="Eg. 1 Night/ 1 Day"
-                />
-              </div>
-              <div>
-                <Label className="pb-2" htmlFor={`itinerary.${index}.distance`}>
-                  Distance
-                </Label>
-                <Input
-                  {...register(`itinerary.${index}.distance` as const)}
-                  placeholder="Eg. 13 Km"
-                />
-              </div>
-              <div>
-                <Label className="pb-2" htmlFor={`itinerary.${index}.ascent`}>
-                  Ascent
-                </Label>
-                <Input
-                  {...register(`itinerary.${index}.ascent` as const)}
-                  placeholder="Eg. 600m"
-                />
-              </div>
-              <div>
-                <Label className="pb-2" htmlFor={`itinerary.${index}.descent`}>
-                  Descent
-                </Label>
-                <Input
-                  {...register(`itinerary.${index}.descent` as const)}
-                  placeholder="Eg. 600m"
-                />
-              </div>
-              <div>
-                <Label className="pb-2" htmlFor={`itinerary.${index}.meals`}>
-                  Meals
-                </Label>
-                <Input
-                  {...register(`itinerary.${index}.meals` as const)}
-                  placeholder="Eg. Breakfast , Lunch, Dinner"
-                />
-              </div>
-              <div>
-                <Label
-                  htmlFor={`itinerary.${index}.accommodations`}
-                  className="pb-2"
-                >
-                  Accommodations
-                </Label>
-                <Input
-                  {...register(`itinerary.${index}.accommodations` as const)}
-                  placeholder="Eg. Stay in a Local Homestays, Hotels, etc."
-                />
-              </div>
-            </div>
-
-            <br />
             <QuillField
-              placeholder="Write 2-4 sentences detailing the activities, key stops, and experiences for that day."
-              name={`itinerary.${index}.description`}
+              placeholder="Enter highlights, one per line"
+              name={`highlights`}
               control={control}
             />
-            {errors.itinerary?.[index]?.description && (
+            {errors.highlights && (
               <p className="text-sm text-red-500">
-                {errors.itinerary[index].description?.message}
+                {errors.highlights.message}
               </p>
             )}
           </div>
-        ))}
-
-        <div className="flex justify-center">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() =>
-              addItinerary({
-                day: itineraryFields.length + 1,
-                title: "",
-                description: "",
-                duration: "",
-                distance: "",
-                ascent: "",
-                descent: "",
-                meals: "",
-                accommodations: "",
-              })
-            }
-            className="rounded-full flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" /> Add Day
-          </Button>
-        </div>
-      </div>
-
-      {/* STEP 4: INCLUSIONS/EXCLUSIONS */}
-      <div className={cn(currStep === 4 ? "flex flex-col gap-3" : "hidden")}>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="inclusions">Inclusions (one per line)</Label>
-          <LabelDescription text="List everything that is included in the trip. Write one item per line." />
-          <QuillField
-            placeholder="Enter inclusions, one per line"
-            name={`inclusions`}
-            control={control}
-          />
-          {errors.inclusions && (
-            <p className="text-sm text-red-500">{errors.inclusions.message}</p>
-          )}
         </div>
 
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="exclusions">Exclusions (one per line)</Label>
-          <LabelDescription text="List everything not included in the trip. Write one item per line." />
-          <QuillField
-            placeholder="Enter exclusions, one per line"
-            name={`exclusions`}
+        {/* STEP 7: PRICING */}
+        <div className={cn(currStep === 7 ? "flex flex-col gap-3" : "hidden")}>
+          <ListBox
+            list={[
+              "Prices are per person in the trip's base currency.",
+              "Add a group tier for each group-size band you quote, eg. 1, 2–4, 5–10.",
+              "Add a season for each period with its own rates, eg. peak and off season.",
+            ]}
+          />
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="currency">Base Currency</Label>
+            <LabelDescription text="The currency this trip is quoted in. Converted prices use the rates under Settings → Currencies." />
+            <Select
+              value={watchedCurrency}
+              onValueChange={(value) => setValue("currency", value as Currency)}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.currency && (
+              <p className="text-sm text-red-500">{errors.currency.message}</p>
+            )}
+          </div>
+          <PricingTable
             control={control}
+            register={register}
+            setValue={setValue}
+            getValues={getValues}
+            errors={errors}
           />
-          {errors.exclusions && (
-            <p className="text-sm text-red-500">{errors.exclusions.message}</p>
-          )}
-        </div>
-        <InfoCard info="Be clear and specific. Travelers should know exactly what they are paying for and what is extra." />
-      </div>
-
-      {/* STEP 5: MEETING POINTS */}
-      <div className={cn(currStep === 5 ? "flex flex-col gap-3" : "hidden")}>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="meetingPoint">Meeting Point/ Start</Label>
-          <LabelDescription text="Enter the exact place where travelers should meet." />
-          <Input
-            {...register("meetingPoint", {
-              required: "Meeting point is required",
-            })}
-            placeholder="Enter meeting point"
+          <TripAddOns control={control} register={register} errors={errors} />
+          <PaymentPolicyPicker
+            control={control}
+            setValue={setValue}
+            policies={paymentPolicies}
           />
-          {errors.meetingPoint && (
-            <p className="text-sm text-red-500">
-              {errors.meetingPoint.message}
-            </p>
-          )}
         </div>
 
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="dropOffPoint">Drop-off Point / End</Label>
-          <LabelDescription text="Enter the location where the trip ends, or where travelers will be dropped off." />
-          <Input
-            {...register("dropOffPoint", {
-              required: "Drop-off point is required",
-            })}
-            placeholder="Enter drop-off point"
+        {/* STEP 8: ADDITIONAL INFO */}
+        <div className={cn(currStep === 8 ? "flex flex-col gap-2" : "hidden")}>
+          <ListBox
+            list={[
+              "Write what travelers should bring (clothes, gear, etc.).",
+              "Say if the trip is good for kids, older people, or people with mobility issues.",
+              "Note any safety or health warnings.",
+              "Add other helpful tips (weather, local customs, language, etc.).",
+              "Extra Tips, if any.",
+            ]}
           />
-          {errors.dropOffPoint && (
-            <p className="text-sm text-red-500">
-              {errors.dropOffPoint.message}
-            </p>
-          )}
-        </div>
-        <InfoCard info="Include landmarks, hotel names, or clear instructions so travelers can easily find the locations." />
-      </div>
+          {infoFields.map((field, index) => (
+            <div key={field.id} className="p-4 relative border rounded-sm">
+              <div className="flex justify-end mb-3">
+                {infoFields.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeInfo(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
 
-      {/* FIXED: Preview section with proper URL construction */}
-      {currStep == 6 && renderedPreviews.length > 0 && (
-        <div className="flex flex-wrap gap-3 mt-2">
-          {renderedPreviews.map((fullUrl, idx) => (
-            <div
-              key={fullUrl}
-              className="relative w-32 h-32 border rounded-md overflow-hidden"
-            >
-              <Image
-                fill
-                src={fullUrl}
-                alt={`preview-${idx}`}
-                className="object-cover"
-                unoptimized // Add this to avoid Next.js image optimization issues
+              <Input
+                {...register(`additionalInfo.${index}.title` as const, {
+                  required: "Title is required",
+                })}
+                placeholder="Title"
+                className="mb-3"
               />
-              <button
-                type="button"
-                onClick={() => handleRemovePreview(idx)}
-                className="absolute top-1 right-1 bg-primary/90 text-background rounded-full p-1"
-              >
-                <X size={14} />
-              </button>
+              {errors.additionalInfo?.[index]?.title && (
+                <p className="text-sm text-red-500">
+                  {errors.additionalInfo[index].title?.message}
+                </p>
+              )}
+
+              <QuillField
+                name={`additionalInfo.${index}.description`}
+                control={control}
+              />
+              {errors.additionalInfo?.[index]?.description && (
+                <p className="text-sm text-red-500">
+                  {errors.additionalInfo[index].description?.message}
+                </p>
+              )}
             </div>
           ))}
-        </div>
-      )}
-
-      {/* STEP 6 media upload */}
-      <div className={cn(currStep == 6 ? "flex flex-col gap-3" : "hidden")}>
-        <div>
-          <ListBox
-            list={[
-              "Upload clear, high-resolution images that show the destination.",
-              "Use JPEG, PNG, or WebP Format.",
-              "Make sure images are bright, well-lit, and properly framed.",
-              "Select one main thumbnail image for the trip listing.",
-              "Use real photos that represent the actual trip.",
-              "Upload at least 3 images for better experience.",
-            ]}
-          />
-        </div>
-        <Label htmlFor="upload_file">
-          <div
-            className={cn(
-              "max-w-4xl hover:bg-primary/10 rounded-sm border border-dashed p-8 flex flex-col items-center justify-center cursor-pointer",
-              isUploading && "opacity-50 pointer-events-none",
-            )}
-          >
-            <Upload className="h-6 w-6 mb-2" />
-            <p className="font-medium">
-              {isUploading ? "Uploading..." : "Browse"}
-            </p>
-            <p className="text-sm text-foreground">Max file size up to 1MB</p>
+          <InfoCard info="Use clear, engaging language. Avoid all caps and excessive punctuation." />
+          <div className="flex justify-center">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => addInfo({ title: "", description: "" })}
+              className="rounded-full flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> Add More Info
+            </Button>
           </div>
-        </Label>
-        <input
-          id="upload_file"
-          hidden
-          type="file"
-          multiple
-          accept="image/png, image/jpeg, image/webp, image/avif"
-          onChange={handleFileChange}
-        />
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="keywords">Media Descriptions (comma separated)</Label>
-          <LabelDescription text="Enter a brief description for each media item, comma separated. First description will be used for first media, second for second and so on." />
-          <Textarea placeholder="Enter keywords, comma separated" rows={3} />
-          {errors.keywords && (
-            <p className="text-sm text-red-500">{errors.keywords.message}</p>
-          )}
-        </div>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="map">Map</Label>
-          <LabelDescription text="Upload or embed a map of the trip itinerary." />
-          <QuillField name={`map`} control={control} />
-          {errors.map && (
-            <p className="text-sm text-red-500">{errors.map.message}</p>
-          )}
         </div>
 
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="highlights">Highlights (one per line)</Label>
-          <LabelDescription text="List the key attractions and experiences." />
-          <QuillField
-            placeholder="Enter highlights, one per line"
-            name={`highlights`}
-            control={control}
-          />
-          {errors.highlights && (
-            <p className="text-sm text-red-500">{errors.highlights.message}</p>
+        {/* Faqs */}
+        <div
+          className={cn(
+            currStep === 9 ? "flex flex-col gap-2 space-y-6" : "hidden",
           )}
-        </div>
-      </div>
-
-      {/* STEP 7: PRICING */}
-      <div className={cn(currStep === 7 ? "flex flex-col gap-3" : "hidden")}>
-        <div className="flex flex-col gap-2">
-          <Label htmlFor="price">Price (per person in USD)</Label>
-          <Input
-            required
-            type="number"
-            step="0.01"
-            {...register("price", {
-              required: "Price is required",
-              valueAsNumber: true,
-              min: { value: 0.01, message: "Price must be positive" },
-            })}
-            placeholder="Enter price"
-          />
-          {errors.price && (
-            <p className="text-sm text-red-500">{errors.price.message}</p>
-          )}
-        </div>
-      </div>
-
-      {/* STEP 8: ADDITIONAL INFO */}
-      <div className={cn(currStep === 8 ? "flex flex-col gap-2" : "hidden")}>
-        <ListBox
-          list={[
-            "Write what travelers should bring (clothes, gear, etc.).",
-            "Say if the trip is good for kids, older people, or people with mobility issues.",
-            "Note any safety or health warnings.",
-            "Add other helpful tips (weather, local customs, language, etc.).",
-            "Extra Tips, if any.",
-          ]}
-        />
-        {infoFields.map((field, index) => (
-          <div key={field.id} className="p-4 relative border rounded-sm">
-            <div className="flex justify-end mb-3">
-              {infoFields.length > 1 && (
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => removeInfo(index)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+        >
+          {faqFields.map((field, index) => (
+            <div key={field.id} className="p-4 border rounded-sm relative">
+              <div className="flex justify-between items-center mb-3">
+                <div>
+                  {index + 1}. {getValues(`faqs.${index}.question`)}
+                </div>
+                {faqFields.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => deleteFaq(index)}
+                  >
+                    <Trash2 className="h-4 w-4 text-foreground/70" />
+                  </Button>
+                )}
+              </div>
+
+              <Input
+                {...register(`faqs.${index}.question` as const, {
+                  required: "Question is required",
+                })}
+                className="mb-3"
+              />
+              <p></p>
+
+              {errors.faqs?.[index]?.question && (
+                <p className="text-sm text-red-500">
+                  {errors.faqs[index].question?.message}
+                </p>
+              )}
+              <QuillField
+                placeholder=""
+                name={`faqs.${index}.answer`}
+                control={control}
+              />
+              {errors.faqs?.[index]?.answer && (
+                <p className="text-sm text-red-500">
+                  {errors.faqs[index].answer?.message}
+                </p>
               )}
             </div>
+          ))}
 
+          <div className="flex justify-center">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                addFaq({
+                  question: "",
+                  answer: "",
+                })
+              }
+              className=" flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> Add Another
+            </Button>
+          </div>
+        </div>
+
+        {/* STEP 10: SEO */}
+        <div
+          className={cn(currStep === 10 ? "flex flex-col gap-2 p-2" : "hidden")}
+        >
+          {/* Meta Title */}
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label htmlFor="metaTitle">Meta Title</Label>
+              <InstructionTooltip instruction="The main title shown on Google search results and browser tabs." />
+            </div>
+            <LabelDescription text="Keep it 50–60 characters. Include your primary keyword and make it readable for humans." />
             <Input
-              {...register(`additionalInfo.${index}.title` as const, {
-                required: "Title is required",
-              })}
-              placeholder="Title"
-              className="mb-3"
+              {...register("seo.metaTitle")}
+              placeholder="Annapurna Circuit Trek 16 Days | Cost & Itinerary"
             />
-            {errors.additionalInfo?.[index]?.title && (
+            {errors.seo?.metaTitle && (
               <p className="text-sm text-red-500">
-                {errors.additionalInfo[index].title?.message}
+                {errors?.seo?.metaTitle?.message}
               </p>
             )}
+          </div>
 
-            <QuillField
-              name={`additionalInfo.${index}.description`}
-              control={control}
+          {/* Meta Description */}
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label htmlFor="metaDescription">Meta Description</Label>
+              <InstructionTooltip instruction="A short summary shown under the title in search results." />
+            </div>
+            <LabelDescription text="Keep it 150–160 characters. Write it like an ad that encourages clicks." />
+            <Textarea
+              {...register("seo.metaDescription")}
+              placeholder="Discover affordable Nepal tour packages with local experts. Custom itineraries, trusted guides, and 24/7 support."
             />
-            {errors.additionalInfo?.[index]?.description && (
+            {errors.seo?.metaDescription && (
               <p className="text-sm text-red-500">
-                {errors.additionalInfo[index].description?.message}
+                {errors?.seo?.metaDescription?.message}
               </p>
             )}
           </div>
-        ))}
-        <InfoCard info="Use clear, engaging language. Avoid all caps and excessive punctuation." />
-        <div className="flex justify-center">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => addInfo({ title: "", description: "" })}
-            className="rounded-full flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" /> Add More Info
-          </Button>
-        </div>
-      </div>
 
-      {/* Faqs */}
-      <div
-        className={cn(
-          currStep === 9 ? "flex flex-col gap-2 space-y-6" : "hidden",
-        )}
-      >
-        {faqFields.map((field, index) => (
-          <div key={field.id} className="p-4 border rounded-sm relative">
-            <div className="flex justify-between items-center mb-3">
-              <div>
-                {index + 1}. {getValues(`faqs.${index}.question`)}
-              </div>
-              {faqFields.length > 1 && (
-                <Button
-                  type="button"
-                  variant="secondary"
-                  size="icon"
-                  onClick={() => removeFaq(index)}
-                >
-                  <Trash2 className="h-4 w-4 text-foreground/70" />
-                </Button>
-              )}
+          {/* OG Image - FIXED VERSION */}
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label
+                htmlFor="featuredMedia"
+                className="flex flex-col items-start"
+              >
+                <span className="flex items-center gap-2">
+                  Media
+                  <InstructionTooltip instruction="Primary image used for social sharing (Facebook, X, WhatsApp) and SEO previews." />
+                </span>
+                <LabelDescription text="Use high-quality image (recommended: 1200×630). Avoid text-heavy images." />
+                {featuredMediaUrl ? (
+                  <div className="relative">
+                    <img
+                      src={getFullImageUrl(featuredMediaUrl)}
+                      className="w-54 h-auto rounded-sm"
+                      alt="Featured media"
+                    />
+                    <Button
+                      size={"icon-sm"}
+                      className="absolute bottom-1 right-1"
+                      type="button"
+                    >
+                      <LucideEdit2 />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="size-54 bg-accent p-2 rounded-sm flex items-center justify-center cursor-pointer border-dotted border-2">
+                    <LucideCloudUpload />
+                  </div>
+                )}
+              </Label>
             </div>
-
             <Input
-              {...register(`faqs.${index}.question` as const, {
-                required: "Question is required",
-              })}
-              className="mb-3"
+              type="file"
+              name="featuredMedia"
+              id="featuredMedia"
+              hidden
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleMediaChange(file);
+              }}
             />
-            <p></p>
-
-            {errors.faqs?.[index]?.question && (
+            {errors.seo?.featuredMedia && (
               <p className="text-sm text-red-500">
-                {errors.faqs[index].question?.message}
+                {errors?.seo?.featuredMedia?.message}
               </p>
             )}
-            <QuillField
-              placeholder=""
-              name={`faqs.${index}.answer`}
+          </div>
+
+          {/* Schema */}
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label htmlFor="schema">Schema Markup (JSON-LD)</Label>
+              <InstructionTooltip instruction="Structured data to help search engines understand this page better." />
+            </div>
+            <LabelDescription text="Generate TouristTrip, FAQPage and breadcrumb markup from the trip, or paste your own JSON-LD. It is checked for required properties before saving." />
+            <SchemaGenerator
               control={control}
+              register={register}
+              setValue={setValue}
+              getSource={getSchemaSource}
             />
-            {errors.faqs?.[index]?.answer && (
+            {errors.seo?.schema && (
               <p className="text-sm text-red-500">
-                {errors.faqs[index].answer?.message}
+                {errors?.seo?.schema?.message}
               </p>
             )}
           </div>
-        ))}
 
-        <div className="flex justify-center">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() =>
-              addFaq({
-                question: "",
-                answer: "",
-              })
-            }
-            className=" flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" /> Add Another
-          </Button>
-        </div>
-      </div>
+          {/* Keywords */}
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label htmlFor="metaKeywords">Keywords </Label>
+            </div>
+            <LabelDescription text="Comma-separated keywords related to this page. Note: Most search engines ignore this field, but it can help for internal search or legacy systems." />
+            <Input
+              {...register("seo.metaKeywords")}
+              placeholder="nepal travel, trekking agency, tour packages"
+            />
+            {errors.seo?.metaKeywords && (
+              <p className="text-sm text-red-500">
+                {errors?.seo?.metaKeywords?.message}
+              </p>
+            )}
+          </div>
 
-      {/* STEP 10: SEO */}
-      <div
-        className={cn(currStep === 10 ? "flex flex-col gap-2 p-2" : "hidden")}
-      >
-        {/* Meta Title */}
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label htmlFor="metaTitle">Meta Title</Label>
-            <InstructionTooltip instruction="The main title shown on Google search results and browser tabs." />
+          {/* Meta Author */}
+          <div className="flex flex-col gap-2">
+            <div className="flex gap-1 items-center">
+              <Label htmlFor="metaAuthor">Meta Author</Label>
+            </div>
+            <LabelDescription text="Name of the content author or organization. Useful for attribution and content management." />
+            <Input {...register("seo.metaAuthor")} />
+            {errors.seo?.metaAuthor && (
+              <p className="text-sm text-red-500">
+                {errors?.seo?.metaAuthor?.message}
+              </p>
+            )}
           </div>
-          <LabelDescription text="Keep it 50–60 characters. Include your primary keyword and make it readable for humans." />
-          <Input
-            {...register("seo.metaTitle")}
-            placeholder="Annapurna Circuit Trek 16 Days | Cost & Itinerary"
-          />
-          {errors.seo?.metaTitle && (
-            <p className="text-sm text-red-500">
-              {errors?.seo?.metaTitle?.message}
-            </p>
-          )}
         </div>
 
-        {/* Meta Description */}
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label htmlFor="metaDescription">Meta Description</Label>
-            <InstructionTooltip instruction="A short summary shown under the title in search results." />
+        {/* Feature */}
+        <div
+          className={cn(currStep === 11 ? "flex flex-col gap-3 p-2" : "hidden")}
+        >
+          <div className="flex flex-col gap-2 w-full">
+            <Label htmlFor="featuredTags">Featured Tags</Label>
+            <LabelDescription text="Select the tags that you want this trip to be featured on. You can select multiple tags." />
+            <MultiSelect
+              options={featuredTagsOptions}
+              selected={selectedFeaturedTags}
+              onChange={setSelectedFeaturedTags}
+              placeholder="Select Featured Tags"
+              className="w-full"
+            />
+            <InfoCard info="Featured tags help travelers discover your trip through curated collections and themed browsing." />
           </div>
-          <LabelDescription text="Keep it 150–160 characters. Write it like an ad that encourages clicks." />
-          <Textarea
-            {...register("seo.metaDescription")}
-            placeholder="Discover affordable Nepal tour packages with local experts. Custom itineraries, trusted guides, and 24/7 support."
-          />
-          {errors.seo?.metaDescription && (
-            <p className="text-sm text-red-500">
-              {errors?.seo?.metaDescription?.message}
-            </p>
+
+          <fieldset className="border px-4 pb-4 rounded-md flex flex-col gap-3">
+            <legend>Publishing schedule</legend>
+            <LabelDescription text="Publish or move the trip back to drafts automatically, eg. for seasonal packages and promotions. Leave empty to change the status by hand." />
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="publishAt">Publish at</Label>
+                <Input
+                  id="publishAt"
+                  type="datetime-local"
+                  {...register("publishAt")}
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="unpublishAt">Unpublish at</Label>
+                <Input
+                  id="unpublishAt"
+                  type="datetime-local"
+                  {...register("unpublishAt")}
+                />
+                {errors.unpublishAt && (
+                  <p className="text-sm text-red-500">
+                    {errors.unpublishAt.message}
+                  </p>
+                )}
+              </div>
+            </div>
+          </fieldset>
+
+          {/* Show selected tags preview */}
+          {selectedFeaturedTags.length > 0 && (
+            <div className="flex flex-col gap-2 mt-4">
+              <Label>Selected Tags ({selectedFeaturedTags.length})</Label>
+              <div className="flex flex-wrap gap-2 p-3 border rounded-md bg-muted/30">
+                {selectedFeaturedTags.map((tagId) => {
+                  const tag = featuredTags.find((t) => t.id === tagId);
+                  return tag ? (
+                    <Badge key={tagId} variant="secondary" className="text-sm">
+                      {tag.name}
+                    </Badge>
+                  ) : null;
+                })}
+              </div>
+            </div>
           )}
         </div>
 
-        {/* OG Image - FIXED VERSION */}
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label
-              htmlFor="featuredMedia"
-              className="flex flex-col items-start"
-            >
-              <span className="flex items-center gap-2">
-                Media
-                <InstructionTooltip instruction="Primary image used for social sharing (Facebook, X, WhatsApp) and SEO previews." />
-              </span>
-              <LabelDescription text="Use high-quality image (recommended: 1200×630). Avoid text-heavy images." />
-              {featuredMediaUrl ? (
-                <div className="relative">
-                  <img
-                    src={getFullImageUrl(featuredMediaUrl)}
-                    className="w-54 h-auto rounded-sm"
-                    alt="Featured media"
+        {/* STEP 12: DEPARTURES */}
+        <div
+          className={cn(currStep === 12 ? "flex flex-col gap-3 p-2" : "hidden")}
+        >
+          <ListBox
+            list={[
+              "Add every fixed departure date travelers can book.",
+              "Click a date on the calendar to add a departure on that day.",
+              "Mark a departure as guaranteed once it is confirmed to run.",
+              "Leave the price override empty to use the trip price.",
+            ]}
+          />
+          <DepartureCalendar
+            departures={watchedDepartures ?? []}
+            onSelectDate={(date) => appendDeparture(date)}
+          />
+
+          {departureFields.map((field, index) => (
+            <div key={field.id} className="p-4 border rounded-sm relative">
+              <div className="flex justify-between items-center mb-3">
+                <h3 className="font-semibold">
+                  Departure {index + 1}
+                  {watchedDepartures?.[index] && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      {getRemainingSeats(watchedDepartures[index])} seats
+                      remaining
+                    </span>
+                  )}
+                </h3>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  onClick={() => removeDeparture(index)}
+                >
+                  <Trash2 className="h-4 w-4 text-foreground/70" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label
+                    className="pb-2"
+                    htmlFor={`departures.${index}.startDate`}
+                  >
+                    Start Date
+                  </Label>
+                  <Input
+                    type="date"
+                    {...register(`departures.${index}.startDate` as const)}
                   />
-                  <Button
-                    size={"icon-sm"}
-                    className="absolute bottom-1 right-1"
-                    type="button"
+                  {errors.departures?.[index]?.startDate && (
+                    <p className="text-sm text-red-500">
+                      {errors.departures[index].startDate?.message}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <Label
+                    className="pb-2"
+                    htmlFor={`departures.${index}.status`}
                   >
-                    <LucideEdit2 />
-                  </Button>
+                    Status
+                  </Label>
+                  <Select
+                    value={watchedDepartures?.[index]?.status}
+                    onValueChange={(value) =>
+                      setValue(
+                        `departures.${index}.status`,
+                        value as DepartureStatus,
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {departureStatusOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-              ) : (
-                <div className="size-54 bg-accent p-2 rounded-sm flex items-center justify-center cursor-pointer border-dotted border-2">
-                  <LucideCloudUpload />
+                <div>
+                  <Label
+                    className="pb-2"
+                    htmlFor={`departures.${index}.seatsTotal`}
+                  >
+                    Total Seats
+                  </Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    {...register(`departures.${index}.seatsTotal` as const, {
+                      valueAsNumber: true,
+                    })}
+                  />
+                  {errors.departures?.[index]?.seatsTotal && (
+                    <p className="text-sm text-red-500">
+                      {errors.departures[index].seatsTotal?.message}
+                    </p>
+                  )}
                 </div>
-              )}
-            </Label>
-          </div>
-          <Input
-            type="file"
-            name="featuredMedia"
-            id="featuredMedia"
-            hidden
-            accept="image/*"
-            onChange={(e) => {
-              const file = e.target.files?.[0];
-              if (file) handleMediaChange(file);
-            }}
-          />
-          {errors.seo?.featuredMedia && (
-            <p className="text-sm text-red-500">
-              {errors?.seo?.featuredMedia?.message}
-            </p>
-          )}
-        </div>
+                <div>
+                  <Label
+                    className="pb-2"
+                    htmlFor={`departures.${index}.seatsBooked`}
+                  >
+                    Booked Seats
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    {...register(`departures.${index}.seatsBooked` as const, {
+                      valueAsNumber: true,
+                    })}
+                  />
+                  {errors.departures?.[index]?.seatsBooked && (
+                    <p className="text-sm text-red-500">
+                      {errors.departures[index].seatsBooked?.message}
+                    </p>
+                  )}
+                </div>
+                <div className="col-span-2">
+                  <Label
+                    className="pb-2"
+                    htmlFor={`departures.${index}.priceOverride`}
+                  >
+                    Price Override (per person in {watchedCurrency})
+                  </Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="Leave empty to use the trip price"
+                    {...register(`departures.${index}.priceOverride` as const, {
+                      setValueAs: (v) =>
+                        v === "" || v === null ? null : Number(v),
+                    })}
+                  />
+                  {!!watchedDepartures?.[index]?.priceOverride && (
+                    <ConvertedPrices
+                      className="mt-1"
+                      amount={Number(watchedDepartures[index].priceOverride)}
+                      currency={watchedCurrency}
+                    />
+                  )}
+                  {errors.departures?.[index]?.priceOverride && (
+                    <p className="text-sm text-red-500">
+                      {errors.departures[index].priceOverride?.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
 
-        {/* Schema */}
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label htmlFor="schema">Schema Markup (JSON-LD)</Label>
-            <InstructionTooltip instruction="Structured data to help search engines understand this page better." />
+          <div className="flex justify-center">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => appendDeparture()}
+              className="rounded-full flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" /> Add Departure
+            </Button>
           </div>
-          <LabelDescription text="Paste valid JSON-LD schema only (e.g., Article, BlogPosting, Product, Organization)." />
-          <Textarea rows={32} {...register("seo.schema")} />
-          <InfoCard
-            type={"warning"}
-            title="Info"
-            info="Invalid JSON may break rich results."
-          />
-          {errors.seo?.schema && (
-            <p className="text-sm text-red-500">
-              {errors?.seo?.schema?.message}
-            </p>
-          )}
         </div>
 
-        {/* Keywords */}
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label htmlFor="metaKeywords">Keywords </Label>
-          </div>
-          <LabelDescription text="Comma-separated keywords related to this page. Note: Most search engines ignore this field, but it can help for internal search or legacy systems." />
-          <Input
-            {...register("seo.metaKeywords")}
-            placeholder="nepal travel, trekking agency, tour packages"
+        {/* STEP 13: RELATED & EXTENSIONS */}
+        <div
+          className={cn(currStep === 13 ? "flex flex-col gap-3 p-2" : "hidden")}
+        >
+          <ListBox
+            list={[
+              "Link trips travelers often book together or compare with this one.",
+              "Drag trips into the order they should appear on the trip page.",
+              "Draft trips can be linked but stay hidden until they are published.",
+            ]}
           />
-          {errors.seo?.metaKeywords && (
-            <p className="text-sm text-red-500">
-              {errors?.seo?.metaKeywords?.message}
-            </p>
-          )}
-        </div>
-
-        {/* Meta Author */}
-        <div className="flex flex-col gap-2">
-          <div className="flex gap-1 items-center">
-            <Label htmlFor="metaAuthor">Meta Author</Label>
-          </div>
-          <LabelDescription text="Name of the content author or organization. Useful for attribution and content management." />
-          <Input {...register("seo.metaAuthor")} />
-          {errors.seo?.metaAuthor && (
-            <p className="text-sm text-red-500">
-              {errors?.seo?.metaAuthor?.message}
-            </p>
-          )}
-        </div>
-      </div>
-
-      {/* Feature */}
-      <div
-        className={cn(currStep === 11 ? "flex flex-col gap-3 p-2" : "hidden")}
-      >
-        <div className="flex flex-col gap-2 w-full">
-          <Label htmlFor="featuredTags">Featured Tags</Label>
-          <LabelDescription text="Select the tags that you want this trip to be featured on. You can select multiple tags." />
-          <MultiSelect
-            options={featuredTagsOptions}
-            selected={selectedFeaturedTags}
-            onChange={setSelectedFeaturedTags}
-            placeholder="Select Featured Tags"
-            className="w-full"
+          <TripLinksEditor
+            control={control}
+            setValue={setValue}
+            tripId={editId}
+            regionId={selectedRegion}
+            tripCategoryId={selectedCategory}
+            featuredTagIds={selectedFeaturedTags}
+            active={currStep === 13}
           />
-          <InfoCard info="Featured tags help travelers discover your trip through curated collections and themed browsing." />
         </div>
 
-        {/* Show selected tags preview */}
-        {selectedFeaturedTags.length > 0 && (
-          <div className="flex flex-col gap-2 mt-4">
-            <Label>Selected Tags ({selectedFeaturedTags.length})</Label>
-            <div className="flex flex-wrap gap-2 p-3 border rounded-md bg-muted/30">
-              {selectedFeaturedTags.map((tagId) => {
-                const tag = featuredTags.find((t) => t.id === tagId);
-                return tag ? (
-                  <Badge key={tagId} variant="secondary" className="text-sm">
-                    {tag.name}
-                  </Badge>
-                ) : null;
-              })}
-            </div>
-          </div>
-        )}
-      </div>
-
-      {/* NAVIGATION */}
-      <div className="flex gap-2 w-full justify-end mt-12">
-        <Button
-          size="lg"
-          type="button"
-          onClick={handlePrevStep}
-          disabled={currStep === 1}
-          variant="outline"
-        >
-          Prev
-        </Button>
-
-        {/* Conditionally render two different buttons based on the step */}
-        {currStep === maxStep ? (
-          <Button
-            size={"lg"}
-            type="submit"
-            disabled={isUploading}
-            onClick={() => console.log("Clicked")}
-          >
-            Finish
-          </Button>
-        ) : (
+        {/* NAVIGATION */}
+        <div className="flex gap-2 w-full justify-end mt-12">
           <Button
             size="lg"
-            type="button" // Explicitly type button ensures it never submits
-            onClick={(e) => handleNextStep(e)}
-            disabled={isUploading}
+            type="button"
+            onClick={handlePrevStep}
+            disabled={currStep === 1}
+            variant="outline"
           >
-            Next
+            Prev
           </Button>
-        )}
-      </div>
-    </form>
+
+          {/* Conditionally render two different buttons based on the step */}
+          {currStep === maxStep ? (
+            <Button
+              size={"lg"}
+              type="submit"
+              disabled={isUploading}
+              onClick={() => console.log("Clicked")}
+            >
+              Finish
+            </Button>
+          ) : (
+            <Button
+              size="lg"
+              type="button" // Explicitly type button ensures it never submits
+              onClick={(e) => handleNextStep(e)}
+              disabled={isUploading}
+            >
+              Next
+            </Button>
+          )}
+        </div>
+      </form>
+      {showPreview && (
+        <div className="sticky top-0 h-fit pr-4">
+          <TripPreview
+            control={control}
+            images={renderedPreviews}
+            difficulty={difficulty}
+            paymentPolicy={paymentPolicies.find(
+              (p) => p.id === watchedPaymentPolicyId,
+            )}
+          />
+        </div>
+      )}
+    </div>
   );
 }
 
@@ -0,0 +1,398 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  FileUp,
+  Loader2,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  getCities,
+  getRegions,
+  getTripCategories,
+  getTripTypes,
+} from "@/app/actions";
+import {
+  TColumnMapping,
+  TImportLookups,
+  TImportRow,
+} from "@/app/(dash)/types/import";
+import {
+  IMPORT_FIELDS,
+  createImportedTrip,
+  csvToRecords,
+  guessMapping,
+  jsonToRecords,
+  parseCsv,
+  validateImportRecords,
+} from "@/lib/tripImport";
+
+type TStep = "upload" | "map" | "review";
+
+// Radix selects cannot hold an empty value
+const UNMAPPED = "__none";
+
+const STATUS_BADGES: Record<TImportRow["status"], string> = {
+  valid: "bg-blue-100 text-blue-800",
+  invalid: "bg-red-100 text-red-800",
+  created: "bg-green-100 text-green-800",
+  failed: "bg-orange-100 text-orange-800",
+};
+
+export default function ImportTrips() {
+  const [step, setStep] = useState<TStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<TColumnMapping>({});
+  const [rows, setRows] = useState<TImportRow[]>([]);
+  const [lookups, setLookups] = useState<TImportLookups | null>(null);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [catData, typeData, cityData, regionData] = await Promise.all([
+          getTripCategories(),
+          getTripTypes(),
+          getCities(),
+          getRegions(),
+        ]);
+        setLookups({
+          categories: (catData?.data?.tripCategories || []).map(
+            (c: { id: string; categoryName: string }) => ({
+              id: c.id,
+              name: c.categoryName,
+            }),
+          ),
+          tripTypes: (typeData?.data?.tripTypes || []).map(
+            (t: { id: string; tripTypeName: string }) => ({
+              id: t.id,
+              name: t.tripTypeName,
+            }),
+          ),
+          cities: (cityData?.data?.cities || []).map(
+            (c: { id: string; cityName: string }) => ({
+              id: c.id,
+              name: c.cityName,
+            }),
+          ),
+          regions: (regionData?.data?.regions || []).map(
+            (r: { id: string; regionName: string }) => ({
+              id: r.id,
+              name: r.regionName,
+            }),
+          ),
+        });
+      } catch (e) {
+        console.error("Failed to fetch options", e);
+        toast.error("Failed to load categories, regions and destinations");
+      }
+    })();
+  }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !lookups) return;
+    const text = await file.text();
+    setFileName(file.name);
+
+    try {
+      if (file.name.toLowerCase().endsWith(".json")) {
+        setRows(validateImportRecords(jsonToRecords(text), lookups));
+        setStep("review");
+        return;
+      }
+      const [header, ...body] = parseCsv(text);
+      if (!header || !body.length)
+        throw new Error("The CSV needs a header row and at least one trip");
+      setHeaders(header.map((h) => h.trim()));
+      setCsvRows(body);
+      setMapping(guessMapping(header.map((h) => h.trim())));
+      setStep("map");
+    } catch (err) {
+      toast.error((err as Error)?.message || "Failed to read file");
+    }
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(
+    (field) => field.required && !mapping[field.key],
+  );
+
+  const validateCsv = () => {
+    if (!lookups) return;
+    // Row numbers count the header, so they match the spreadsheet
+    setRows(
+      validateImportRecords(
+        csvToRecords(headers, csvRows, mapping),
+        lookups,
+        2,
+      ),
+    );
+    setStep("review");
+  };
+
+  const importValid = async () => {
+    setImporting(true);
+    let created = 0;
+    for (const row of rows) {
+      if (row.status !== "valid" || !row.payload) continue;
+      let update: Partial<TImportRow>;
+      try {
+        await createImportedTrip(row.payload);
+        update = { status: "created" };
+        created++;
+      } catch (err) {
+        update = {
+          status: "failed",
+          errors: [(err as Error)?.message || "Failed to create trip"],
+        };
+      }
+      setRows((prev) =>
+        prev.map((r) => (r.row === row.row ? { ...r, ...update } : r)),
+      );
+    }
+    setImporting(false);
+    toast.success(`Created ${created} draft trip${created === 1 ? "" : "s"}`);
+  };
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setCsvRows([]);
+    setMapping({});
+    setRows([]);
+  };
+
+  const count = (status: TImportRow["status"]) =>
+    rows.filter((row) => row.status === status).length;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-3">
+          <h1 className="text-3xl font-bold">Import Trips</h1>
+          <p className="text-muted-foreground">
+            Bring trips in from a CSV export or a JSON file. Imported trips are
+            created as drafts.
+          </p>
+        </div>
+        <Link href="/trips">
+          <Button variant="outline">
+            <ArrowLeft /> Back to trips
+          </Button>
+        </Link>
+      </div>
+
+      {step === "upload" && (
+        <div className="flex flex-col items-center gap-4 border-2 border-dashed rounded-md p-12">
+          <FileUp className="h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground text-center max-w-md">
+            CSV files need a header row; you will map its columns to trip fields
+            next. JSON files should hold an array of trips shaped like the trip
+            form, with category, region and destination given by name or ID.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button
+            type="button"
+            disabled={!lookups}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {lookups ? (
+              "Choose file"
+            ) : (
+              <>
+                <Loader2 className="animate-spin" /> Loading options
+              </>
+            )}
+          </Button>
+        </div>
+      )}
+
+      {step === "map" && (
+        <div className="flex flex-col gap-4">
+          <p className="text-sm text-muted-foreground">
+            Map the columns of <strong>{fileName}</strong> ({csvRows.length}{" "}
+            rows) to trip fields.
+          </p>
+          <div className="grid grid-cols-2 gap-x-8 gap-y-3">
+            {IMPORT_FIELDS.map((field) => (
+              <div
+                key={field.key}
+                className="grid grid-cols-[1fr_14rem] items-center gap-3"
+              >
+                <div>
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-red-500">*</span>}
+                  </Label>
+                  {field.hint && (
+                    <p className="text-xs text-muted-foreground">
+                      {field.hint}
+                    </p>
+                  )}
+                </div>
+                <Select
+                  value={mapping[field.key] || UNMAPPED}
+                  onValueChange={(value) =>
+                    setMapping((prev) => ({
+                      ...prev,
+                      [field.key]: value === UNMAPPED ? "" : value,
+                    }))
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {headers
+                      .filter((header) => header)
+                      .map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={reset}>
+              Cancel
+            </Button>
+            <Button disabled={!!missingRequired.length} onClick={validateCsv}>
+              Validate {csvRows.length} rows
+            </Button>
+          </div>
+          {!!missingRequired.length && (
+            <p className="text-sm text-red-500 text-right">
+              Map the required fields:{" "}
+              {missingRequired.map((field) => field.label).join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {step === "review" && (
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <div className="flex gap-4 text-sm">
+              <span className="flex items-center gap-1">
+                <CheckCircle2 className="h-4 w-4 text-blue-600" />
+                {count("valid")} ready
+              </span>
+              <span className="flex items-center gap-1">
+                <XCircle className="h-4 w-4 text-red-600" />
+                {count("invalid")} with errors
+              </span>
+              {!!count("created") && (
+                <span className="flex items-center gap-1">
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  {count("created")} created
+                </span>
+              )}
+              {!!count("failed") && (
+                <span className="flex items-center gap-1">
+                  <AlertCircle className="h-4 w-4 text-orange-600" />
+                  {count("failed")} failed
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={importing} onClick={reset}>
+                Start over
+              </Button>
+              {headers.length > 0 && (
+                <Button
+                  variant="outline"
+                  disabled={importing}
+                  onClick={() => setStep("map")}
+                >
+                  Edit mapping
+                </Button>
+              )}
+              <Button
+                disabled={importing || !count("valid")}
+                onClick={importValid}
+              >
+                {importing && <Loader2 className="animate-spin" />}
+                Create {count("valid")} drafts
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead className="w-28">Status</TableHead>
+                  <TableHead>Errors</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.row}>
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell className="font-medium">{row.title}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[row.status]}>
+                        {row.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-normal">
+                      {row.errors.length ? (
+                        <ul className="list-disc pl-4 text-sm text-red-600">
+                          {row.errors.map((error, idx) => (
+                            <li key={idx}>{error}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
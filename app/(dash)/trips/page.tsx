@@ -1,13 +1,27 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { DataTable } from "./data-table";
-import { PlusIcon } from "lucide-react";
+import { FileUp } from "lucide-react";
 import { columns } from "./columns";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { TripTableSkeleton } from "@/components/skeletons/trip-table-skeleton";
+import { getNextDeparture, getRemainingSeats } from "@/lib/departures";
+import { getFromPrice } from "@/lib/tripPricing";
+import { getCoverImage, toTripImages } from "@/lib/tripImages";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { ExportDialog } from "@/components/trip/export-dialog";
+import { BulkActionsBar } from "@/components/trip/bulk-actions-bar";
+import { TripFilters } from "@/components/trip/trip-filters";
+import { NewTripMenu } from "@/components/trip/new-trip-menu";
+import { TTripFilters } from "@/app/(dash)/types/tripFilters";
+import {
+  parseTripFilters,
+  toActivityQuery,
+  toTripSearchParams,
+} from "@/lib/tripFilters";
 
 export default function Trips() {
   const [tripData, setTripData] = useState<any[]>([]);
@@ -15,10 +29,26 @@ export default function Trips() {
   const [error, setError] = useState<string | null>(null);
   const [user, setUser] = useState<any>(null);
   const [pagination, setPagination] = useState<any>();
+  // Bumped after row or bulk actions to refetch without reloading the page
+  const [refreshKey, setRefreshKey] = useState(0);
+  const refresh = () => setRefreshKey((key) => key + 1);
 
+  const router = useRouter();
   const searchParams = useSearchParams();
   const page = Number(searchParams.get("page") ?? "1");
   const limit = Number(searchParams.get("limit") ?? "10");
+  // Search, filters and sort live in the URL so a view can be shared
+  const query = searchParams.toString();
+  const filters = useMemo(
+    () => parseTripFilters(new URLSearchParams(query)),
+    [query],
+  );
+
+  const setFilters = useCallback(
+    (next: TTripFilters) =>
+      router.push(`?${toTripSearchParams(next, 1, limit)}`, { scroll: false }),
+    [router, limit],
+  );
 
   useEffect(() => {
     let mounted = true;
@@ -28,7 +58,7 @@ export default function Trips() {
       setError(null);
       try {
         const res = await fetch(
-          `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/a?page=${page}&limit=${limit}`,
+          `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/a?${toActivityQuery(filters, page, limit)}`,
           {
             credentials: "include",
             cache: "no-store",
@@ -43,18 +73,30 @@ export default function Trips() {
         const pagination = data?.pagination;
         setPagination(pagination);
 
-        const mapped: any[] = activities.map((activity: any) => ({
-          id: String(activity.id),
-          thumbnail: activity.images?.[0] || "",
-          title: activity.title || "",
-          slug: activity.slug,
-          description: activity.shortDescription || "",
-          duration: activity.duration || "",
-          guestCapacity: activity.guestCapacity || 0,
-          amount: activity.price || 0,
-          status: activity.status || "",
-          availability: activity.availability || null,
-        }));
+        const mapped: any[] = activities.map((activity: any) => {
+          const nextDeparture = getNextDeparture(activity.departures);
+          return {
+            id: String(activity.id),
+            thumbnail: getCoverImage(toTripImages(activity.images))?.url || "",
+            title: activity.title || "",
+            slug: activity.slug,
+            description: activity.shortDescription || "",
+            duration: activity.duration || "",
+            guestCapacity: activity.guestCapacity || 0,
+            amount: activity.pricing
+              ? getFromPrice(activity.pricing)
+              : activity.price || 0,
+            currency: activity.currency || Currency.USD,
+            status: activity.status || "",
+            publishAt: activity.publishAt ?? null,
+            unpublishAt: activity.unpublishAt ?? null,
+            availability: activity.availability || null,
+            nextDeparture: nextDeparture?.startDate ?? null,
+            seatsRemaining: nextDeparture
+              ? getRemainingSeats(nextDeparture)
+              : null,
+          };
+        });
 
         if (mounted) setTripData(mapped);
       } catch (err: any) {
@@ -68,7 +110,7 @@ export default function Trips() {
     return () => {
       mounted = false;
     };
-  }, [page, limit]);
+  }, [page, limit, filters, refreshKey]);
 
   return (
     <div>
@@ -79,19 +121,42 @@ export default function Trips() {
             Our collections of amazing travel experiences
           </p>
         </div>
-        <Link href="/trips/edit/">
-          <Button size="lg">
-            <PlusIcon /> Add New Trip
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/trips/import/">
+            <Button size="lg" variant="outline">
+              <FileUp /> Import
+            </Button>
+          </Link>
+          <NewTripMenu />
+        </div>
       </div>
 
       {error ? (
         <div className="text-red-500">{error}</div>
-      ) : loading ? (
+      ) : loading && !tripData.length ? (
+        // Refetches keep the table mounted so selection survives
         <TripTableSkeleton />
       ) : (
-        <DataTable data={tripData} columns={columns} pagination={pagination} />
+        <DataTable
+          data={tripData}
+          columns={columns}
+          pagination={pagination}
+          toolbar={
+            <div className="flex items-start justify-between gap-4">
+              <TripFilters filters={filters} onChange={setFilters} />
+              <ExportDialog filters={filters} />
+            </div>
+          }
+          getRowId={(row) => row.id}
+          onDataChange={refresh}
+          bulkActions={(selected, clearSelection) => (
+            <BulkActionsBar
+              selected={selected}
+              onClear={clearSelection}
+              onComplete={refresh}
+            />
+          )}
+        />
       )}
     </div>
   );
@@ -0,0 +1,276 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Edit3,
+  Loader2,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { TReviewEntry } from "@/app/(dash)/types/review";
+import { FieldChanges } from "@/components/trip/field-changes";
+import { ReviewEntries } from "@/components/trip/review-thread";
+import { diffTrips } from "@/lib/tripDiff";
+import { setListingStatus } from "@/lib/tripBulk";
+import {
+  fetchLiveVersion,
+  fetchPendingTrips,
+  fetchReviewThread,
+  fetchTrip,
+} from "@/lib/tripReviews";
+
+type TRecord = Record<string, unknown>;
+
+type TReviewDetail = {
+  trip: TRecord;
+  live: TRecord | null;
+  entries: TReviewEntry[];
+};
+
+const formatUpdatedAt = (date: unknown) =>
+  date ? new Date(String(date)).toLocaleDateString() : "—";
+
+export default function ReviewQueue() {
+  const [queue, setQueue] = useState<TRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<TReviewDetail | null>(null);
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+  const [comment, setComment] = useState("");
+  const [deciding, setDeciding] = useState<"approve" | "reject" | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const trips = await fetchPendingTrips();
+      setQueue(trips);
+      setSelectedId((current) =>
+        trips.some((trip) => String(trip.id) === current)
+          ? current
+          : trips[0]
+            ? String(trips[0].id)
+            : null,
+      );
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    setDetail(null);
+    setComment("");
+    setIsLoadingDetail(false);
+    if (!selectedId) return;
+    // A slower response for a trip no longer selected must not replace it
+    let mounted = true;
+    (async () => {
+      setIsLoadingDetail(true);
+      try {
+        const [trip, live, entries] = await Promise.all([
+          fetchTrip(selectedId),
+          fetchLiveVersion(selectedId),
+          fetchReviewThread(selectedId),
+        ]);
+        if (mounted) setDetail({ trip, live, entries });
+      } catch (e) {
+        if (mounted) toast.error((e as Error).message);
+      } finally {
+        if (mounted) setIsLoadingDetail(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [selectedId]);
+
+  const decide = async (decision: "approve" | "reject") => {
+    if (!selectedId) return;
+    setDeciding(decision);
+    try {
+      await setListingStatus(selectedId, decision === "reject", {
+        action: decision,
+        comment: comment.trim(),
+      });
+      toast.success(
+        decision === "approve"
+          ? "Trip approved and published"
+          : "Trip rejected; the author can see your comment",
+      );
+      setSelectedId(null);
+      loadQueue();
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const changes = detail?.live ? diffTrips(detail.live, detail.trip) : [];
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-3">
+          <h1 className="text-3xl font-bold">Review Queue</h1>
+          <p className="text-muted-foreground">
+            Trips waiting for approval, compared with the version that is live
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="lg"
+            variant="outline"
+            disabled={isLoading}
+            onClick={loadQueue}
+          >
+            <RefreshCw className={cn(isLoading && "animate-spin")} /> Refresh
+          </Button>
+          <Link href="/trips">
+            <Button size="lg" variant="outline">
+              <ArrowLeft /> Back to trips
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[18rem_1fr] gap-6 items-start">
+        <ul className="flex flex-col gap-2">
+          {!isLoading && !queue.length && (
+            <li className="text-sm text-muted-foreground">
+              Nothing is waiting for review.
+            </li>
+          )}
+          {queue.map((trip) => {
+            const id = String(trip.id);
+            return (
+              <li key={id}>
+                <button
+                  type="button"
+                  className={cn(
+                    "w-full rounded-md border p-3 text-left hover:bg-muted",
+                    id === selectedId && "border-primary",
+                  )}
+                  onClick={() => setSelectedId(id)}
+                >
+                  <p className="font-medium">{String(trip.title ?? "")}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Updated {formatUpdatedAt(trip.updatedAt)}
+                  </p>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        {selectedId && (
+          <div className="flex flex-col gap-4 min-w-0">
+            {isLoadingDetail || !detail ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      {String(detail.trip.title ?? "")}
+                      {!detail.live && <Badge variant="secondary">New</Badge>}
+                    </CardTitle>
+                    <Link href={`/trips/edit?id=${selectedId}`}>
+                      <Button size="sm" variant="outline">
+                        <Edit3 /> Open in editor
+                      </Button>
+                    </Link>
+                  </CardHeader>
+                  <CardContent className="flex flex-col gap-2">
+                    {!detail.live ? (
+                      <p className="text-sm text-muted-foreground">
+                        This trip has never been published, so there is no live
+                        version to compare with. Open it in the editor to review
+                        it in full.
+                      </p>
+                    ) : changes.length ? (
+                      <FieldChanges changes={changes} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        No differences from the live version.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Decision</CardTitle>
+                  </CardHeader>
+                  <CardContent className="flex flex-col gap-3">
+                    <div className="flex flex-col gap-2">
+                      <Label htmlFor="reviewComment">
+                        Comment for the author
+                      </Label>
+                      <Textarea
+                        id="reviewComment"
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        placeholder="Required when rejecting: what needs to change"
+                        rows={3}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="secondary"
+                        disabled={!comment.trim() || !!deciding}
+                        onClick={() => decide("reject")}
+                      >
+                        {deciding === "reject" ? (
+                          <Loader2 className="animate-spin" />
+                        ) : (
+                          <XCircle />
+                        )}
+                        Reject
+                      </Button>
+                      <Button
+                        disabled={!!deciding}
+                        onClick={() => decide("approve")}
+                      >
+                        {deciding === "approve" ? (
+                          <Loader2 className="animate-spin" />
+                        ) : (
+                          <CheckCircle2 />
+                        )}
+                        Approve
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>History</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ReviewEntries entries={detail.entries} />
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { useFieldArray, useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import LabelDescription from "@/components/atoms/label-description";
+import { QuillField } from "@/lib/quill/quill-field";
+import "react-quill-new/dist/quill.snow.css";
+import { TItineraryDay, emptyItineraryDay } from "@/lib/itinerary";
+import { cleanStringArray } from "@/lib/cleanStringArray";
+import {
+  SEO_PATTERN_TOKENS,
+  fetchTemplate,
+  saveTemplate,
+} from "@/lib/tripTemplates";
+import { TTripTemplateValues } from "@/app/(dash)/types/template";
+
+type TTemplateForm = {
+  name: string;
+  description: string;
+  itinerary: TItineraryDay[];
+  faqs: Array<{ question: string; answer: string }>;
+  additionalInfo: Array<{ title: string; description: string }>;
+  inclusions: string;
+  exclusions: string;
+  highlights: string;
+  seo: { metaTitle: string; metaDescription: string; metaKeywords: string };
+};
+
+const LIST_FIELDS = [
+  { name: "inclusions", label: "Inclusions (one per line)" },
+  { name: "exclusions", label: "Exclusions (one per line)" },
+  { name: "highlights", label: "Highlights (one per line)" },
+] as const;
+
+const SEO_FIELDS = [
+  { name: "metaTitle", label: "Meta title", placeholder: "{title} | Trek" },
+  {
+    name: "metaDescription",
+    label: "Meta description",
+    placeholder: "Join our {duration} {title} through {locations}.",
+  },
+  {
+    name: "metaKeywords",
+    label: "Meta keywords",
+    placeholder: "{title}, trek",
+  },
+] as const;
+
+const emptyTemplate: TTemplateForm = {
+  name: "",
+  description: "",
+  itinerary: [emptyItineraryDay(1)],
+  faqs: [],
+  additionalInfo: [],
+  inclusions: "",
+  exclusions: "",
+  highlights: "",
+  seo: { metaTitle: "", metaDescription: "", metaKeywords: "" },
+};
+
+const toForm = (
+  name: string,
+  description: string,
+  values: TTripTemplateValues,
+): TTemplateForm => ({
+  name,
+  description,
+  itinerary: (values.itinerary ?? []).map((day, i) => ({
+    ...emptyItineraryDay(i + 1),
+    ...day,
+    meals: Array.isArray(day.meals)
+      ? day.meals.join(", ")
+      : String(day.meals ?? ""),
+    accommodations: Array.isArray(day.accommodations)
+      ? day.accommodations.join(", ")
+      : String(day.accommodations ?? ""),
+  })),
+  faqs: values.faqs ?? [],
+  additionalInfo: values.additionalInfo ?? [],
+  inclusions: (values.inclusions ?? []).join("\n"),
+  exclusions: (values.exclusions ?? []).join("\n"),
+  highlights: (values.highlights ?? []).join("\n"),
+  seo: { ...emptyTemplate.seo, ...values.seo },
+});
+
+const toValues = (data: TTemplateForm): TTripTemplateValues => ({
+  itinerary: data.itinerary.map((day, i) => ({
+    ...day,
+    day: i + 1,
+    meals: cleanStringArray(day.meals, ","),
+    accommodations: cleanStringArray(day.accommodations, ","),
+  })),
+  faqs: data.faqs.filter((faq) => faq.question.trim()),
+  additionalInfo: data.additionalInfo.filter((info) => info.title.trim()),
+  inclusions: cleanStringArray(data.inclusions, "\n"),
+  exclusions: cleanStringArray(data.exclusions, "\n"),
+  highlights: cleanStringArray(data.highlights, "\n"),
+  seo: data.seo,
+});
+
+function TemplateForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const editId = searchParams?.get("id") || null;
+  const [isLoading, setIsLoading] = useState(!!editId);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    reset,
+    formState: { isSubmitting },
+  } = useForm<TTemplateForm>({ defaultValues: emptyTemplate });
+
+  const itinerary = useFieldArray({ control, name: "itinerary" });
+  const faqs = useFieldArray({ control, name: "faqs" });
+  const additionalInfo = useFieldArray({ control, name: "additionalInfo" });
+
+  useEffect(() => {
+    if (!editId) return;
+    (async () => {
+      try {
+        const template = await fetchTemplate(editId);
+        reset(toForm(template.name, template.description, template.values));
+      } catch (e) {
+        toast.error((e as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [editId, reset]);
+
+  const onSubmit = async (data: TTemplateForm) => {
+    try {
+      await saveTemplate(
+        {
+          name: data.name.trim(),
+          description: data.description.trim(),
+          values: toValues(data),
+        },
+        editId ?? undefined,
+      );
+      toast.success(editId ? "Template updated" : "Template created");
+      router.push("/trips/templates/");
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+  };
+
+  if (isLoading) return <div>Loading...</div>;
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-6">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-3">
+          <h1 className="text-3xl font-bold">
+            {editId ? "Edit Template" : "New Template"}
+          </h1>
+          <p className="text-muted-foreground">
+            Everything here is copied into a trip started from the template
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/trips/templates/">
+            <Button type="button" variant="outline">
+              <ArrowLeft /> Back to templates
+            </Button>
+          </Link>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="animate-spin" />}
+            Save template
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Template</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="name">Name</Label>
+            <Input
+              id="name"
+              {...register("name", { required: true })}
+              placeholder="Eg. 14-day teahouse trek"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              {...register("description")}
+              placeholder="When to use this template"
+              rows={2}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Itinerary skeleton</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          {itinerary.fields.map((field, index) => (
+            <div
+              key={field.id}
+              className="flex flex-col gap-2 border rounded-sm p-4"
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-medium">Day {index + 1}</p>
+                {itinerary.fields.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => itinerary.remove(index)}
+                  >
+                    <Trash2 className="h-4 w-4 text-foreground/70" />
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  {...register(`itinerary.${index}.title`)}
+                  placeholder="Title, eg. Drive to Syabrubesi"
+                  className="col-span-2"
+                />
+                <Input
+                  {...register(`itinerary.${index}.duration`)}
+                  placeholder="Duration, eg. 6-7 hours"
+                />
+              </div>
+              <QuillField
+                name={`itinerary.${index}.description`}
+                control={control}
+                minHeight={80}
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            className="w-fit"
+            onClick={() =>
+              itinerary.append(emptyItineraryDay(itinerary.fields.length + 1))
+            }
+          >
+            <Plus className="h-4 w-4" /> Add day
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Inclusions, exclusions and highlights</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          {LIST_FIELDS.map((list) => (
+            <div key={list.name} className="flex flex-col gap-2">
+              <Label>{list.label}</Label>
+              <QuillField name={list.name} control={control} minHeight={100} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Standard FAQs</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          {faqs.fields.map((field, index) => (
+            <div
+              key={field.id}
+              className="flex flex-col gap-2 border rounded-sm p-4"
+            >
+              <div className="flex items-center gap-2">
+                <Input
+                  {...register(`faqs.${index}.question`)}
+                  placeholder="Question"
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  onClick={() => faqs.remove(index)}
+                >
+                  <Trash2 className="h-4 w-4 text-foreground/70" />
+                </Button>
+              </div>
+              <QuillField
+                name={`faqs.${index}.answer`}
+                control={control}
+                minHeight={80}
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            className="w-fit"
+            onClick={() => faqs.append({ question: "", answer: "" })}
+          >
+            <Plus className="h-4 w-4" /> Add FAQ
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Additional info</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          {additionalInfo.fields.map((field, index) => (
+            <div
+              key={field.id}
+              className="flex flex-col gap-2 border rounded-sm p-4"
+            >
+              <div className="flex items-center gap-2">
+                <Input
+                  {...register(`additionalInfo.${index}.title`)}
+                  placeholder="Title, eg. Travel insurance"
+                />
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  onClick={() => additionalInfo.remove(index)}
+                >
+                  <Trash2 className="h-4 w-4 text-foreground/70" />
+                </Button>
+              </div>
+              <QuillField
+                name={`additionalInfo.${index}.description`}
+                control={control}
+                minHeight={80}
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            className="w-fit"
+            onClick={() =>
+              additionalInfo.append({ title: "", description: "" })
+            }
+          >
+            <Plus className="h-4 w-4" /> Add info block
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SEO patterns</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <LabelDescription
+            text={`Tokens are filled in with the trip's values when it is saved: ${SEO_PATTERN_TOKENS.map(
+              (t) => `${t.token} (${t.label.toLowerCase()})`,
+            ).join(", ")}.`}
+          />
+          {SEO_FIELDS.map((seo) => (
+            <div key={seo.name} className="flex flex-col gap-2">
+              <Label htmlFor={seo.name}>{seo.label}</Label>
+              <Input
+                id={seo.name}
+                {...register(`seo.${seo.name}`)}
+                placeholder={seo.placeholder}
+              />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
+
+export default function Page() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <TemplateForm />
+    </Suspense>
+  );
+}
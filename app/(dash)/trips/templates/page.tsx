@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  Edit3,
+  FilePlus2,
+  PlusIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TTripTemplate } from "@/app/(dash)/types/template";
+import { deleteTemplate, fetchTemplates } from "@/lib/tripTemplates";
+
+export default function TripTemplates() {
+  const [templates, setTemplates] = useState<TTripTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState<TTripTemplate | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTemplates(await fetchTemplates());
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteTemplate(deleting.id);
+      toast.success("Template deleted");
+      loadTemplates();
+    } catch (e) {
+      toast.error((e as Error).message);
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col gap-3">
+          <h1 className="text-3xl font-bold">Trip Templates</h1>
+          <p className="text-muted-foreground">
+            Predefined structures new trips can start from
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/trips">
+            <Button size="lg" variant="outline">
+              <ArrowLeft /> Back to trips
+            </Button>
+          </Link>
+          <Link href="/trips/templates/edit/">
+            <Button size="lg">
+              <PlusIcon /> New Template
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <Table>
+        <TableCaption>
+          {loading
+            ? "Loading templates..."
+            : templates.length
+              ? "A list of trip templates."
+              : "No templates yet. Build one here or save a trip as a template from its editor."}
+        </TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Days</TableHead>
+            <TableHead>FAQs</TableHead>
+            <TableHead>Updated At</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {templates.map((template) => (
+            <TableRow key={template.id}>
+              <TableCell className="font-medium">{template.name}</TableCell>
+              <TableCell className="max-w-xs truncate">
+                {template.description || "—"}
+              </TableCell>
+              <TableCell>{template.values.itinerary?.length ?? 0}</TableCell>
+              <TableCell>{template.values.faqs?.length ?? 0}</TableCell>
+              <TableCell>
+                {template.updatedAt
+                  ? new Date(template.updatedAt).toLocaleDateString()
+                  : "—"}
+              </TableCell>
+              <TableCell className="flex gap-2">
+                <Link href={`/trips/edit/?template=${template.id}`}>
+                  <Button size="sm" variant="outline">
+                    <FilePlus2 /> Use
+                  </Button>
+                </Link>
+                <Link href={`/trips/templates/edit/?id=${template.id}`}>
+                  <Button size="sm">
+                    <Edit3 />
+                  </Button>
+                </Link>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setDeleting(template)}
+                >
+                  <Trash2Icon />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete “{deleting?.name}”?</DialogTitle>
+            <DialogDescription>
+              Trips already started from it are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button onClick={() => setDeleting(null)}>Cancel</Button>
+            <Button variant="secondary" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
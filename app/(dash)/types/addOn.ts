@@ -0,0 +1,22 @@
+import { AddOnUnit } from "@/app/(dash)/enums/addOnUnit.enum";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+
+export type TAddOn = {
+  id: string;
+  name: string;
+  description: string;
+  unit: AddOnUnit;
+  price: number;
+  currency: Currency;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TAddOnInput = Omit<TAddOn, "id" | "createdAt" | "updatedAt">;
+
+// An add-on attached to a trip; the catalogue price applies unless overridden
+export type TTripAddOn = {
+  addOnId: string;
+  // In the add-on's currency, per its unit
+  priceOverride: number | null;
+};
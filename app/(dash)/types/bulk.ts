@@ -0,0 +1,17 @@
+import { TripDifficulty } from "@/app/(dash)/enums/tripDifficulty.enum";
+import { TSnippetField } from "@/app/(dash)/types/snippet";
+
+export type TBulkAction =
+  | { kind: "publish" }
+  | { kind: "draft" }
+  | { kind: "delete" }
+  | { kind: "featuredTag"; tagId: string; label: string }
+  | { kind: "category"; categoryId: string; label: string }
+  | { kind: "region"; regionId: string; label: string }
+  | { kind: "difficulty"; level: TripDifficulty }
+  // Swaps a library snippet's old text for its new text in one list field
+  | { kind: "snippet"; field: TSnippetField; from: string; to: string };
+
+export type TBulkTarget = { id: string; title: string };
+
+export type TBulkResult = TBulkTarget & { ok: boolean; message: string };
@@ -0,0 +1,18 @@
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+
+export type TRoundingMode = "NONE" | "NEAREST" | "UP" | "DOWN";
+
+export type TExchangeRate = {
+  currency: Currency;
+  // Units of this currency for one unit of the base currency
+  rate: number;
+  rounding: {
+    mode: TRoundingMode;
+    increment: number;
+  };
+};
+
+export type TCurrencySettings = {
+  baseCurrency: Currency;
+  rates: TExchangeRate[];
+};
@@ -0,0 +1,10 @@
+import { DepartureStatus } from "@/app/(dash)/enums/departureStatus.enum";
+
+export type TDeparture = {
+  id?: string;
+  startDate: string;
+  seatsTotal: number;
+  seatsBooked: number;
+  status: DepartureStatus;
+  priceOverride?: number | null;
+};
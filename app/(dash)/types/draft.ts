@@ -0,0 +1,7 @@
+export type TTripDraft = {
+  activityId: string | null;
+  values: Record<string, unknown>;
+  base: Record<string, unknown> | null;
+  baseUpdatedAt: string | null;
+  updatedAt?: string;
+};
@@ -0,0 +1,11 @@
+export type TTripImage = {
+  url: string;
+  alt: string;
+  caption: string;
+  credit: string;
+  // Exactly one image per trip is the cover, used as the listing thumbnail
+  isCover: boolean;
+  // Natural size in pixels, measured in the browser once the image loads
+  width?: number | null;
+  height?: number | null;
+};
@@ -0,0 +1,29 @@
+export type TImportFormat = "csv" | "json";
+
+export type TImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  hint?: string;
+};
+
+// Import field key -> CSV header it is read from ("" when unmapped)
+export type TColumnMapping = Record<string, string>;
+
+export type TImportLookups = {
+  categories: { id: string; name: string }[];
+  tripTypes: { id: string; name: string }[];
+  regions: { id: string; name: string }[];
+  cities: { id: string; name: string }[];
+};
+
+export type TImportRowStatus = "valid" | "invalid" | "created" | "failed";
+
+export type TImportRow = {
+  // 1-based row number in the source file, for the error report
+  row: number;
+  title: string;
+  status: TImportRowStatus;
+  errors: string[];
+  payload: Record<string, unknown> | null;
+};
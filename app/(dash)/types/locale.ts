@@ -0,0 +1,20 @@
+import { Locale } from "@/app/(dash)/enums/locale.enum";
+
+// Per-locale overrides, shaped like the content they translate. Only the
+// translatable fields are kept; anything missing falls back to the default
+// locale.
+export type TTranslations = Partial<Record<Locale, Record<string, unknown>>>;
+
+export type TTranslatableField = {
+  // Dot path into the content, eg. "itinerary.0.title"
+  path: string;
+  label: string;
+  // Edited with the rich text editor
+  rich?: boolean;
+};
+
+export type TTranslationProgress = {
+  done: number;
+  total: number;
+  percent: number;
+};
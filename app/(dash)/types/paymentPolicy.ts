@@ -0,0 +1,25 @@
+// Cancelling at least `daysBefore` days before departure refunds this much of
+// what was paid
+export type TRefundTier = {
+  daysBefore: number;
+  refundPercent: number;
+};
+
+export type TPaymentPolicy = {
+  id: string;
+  name: string;
+  // Share of the trip price paid at booking
+  depositPercent: number;
+  balanceDueDays: number;
+  refundTiers: TRefundTier[];
+  // Generated from the fields above on save, one sentence per line, so the
+  // public site shows the same text the editors see
+  summary: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TPaymentPolicyInput = Omit<
+  TPaymentPolicy,
+  "id" | "summary" | "createdAt" | "updatedAt"
+>;
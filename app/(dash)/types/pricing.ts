@@ -0,0 +1,19 @@
+export type TPricingTier = {
+  minPax: number;
+  maxPax: number | null;
+};
+
+export type TPricingSeason = {
+  name: string;
+  startMonth: number;
+  endMonth: number;
+  // One per-person rate per tier, in the same order as `tiers`
+  rates: number[];
+};
+
+export type TTripPricing = {
+  tiers: TPricingTier[];
+  seasons: TPricingSeason[];
+  childRate?: number | null;
+  singleSupplement?: number | null;
+};
@@ -0,0 +1,13 @@
+// "approve" and "reject" come from the review queue, "publish" and
+// "unpublish" from every other status change, "comment" from a reply
+export type TReviewAction =
+  "approve" | "reject" | "publish" | "unpublish" | "comment";
+
+export type TReviewEntry = {
+  id: string;
+  activityId: string;
+  action: TReviewAction;
+  comment?: string | null;
+  reviewer?: { id: number; username: string } | null;
+  createdAt: string;
+};
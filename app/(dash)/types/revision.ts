@@ -0,0 +1,14 @@
+export type TRevision = {
+  id: string;
+  activityId: string;
+  createdAt: string;
+  savedBy?: { id: number; username: string } | null;
+  snapshot: Record<string, unknown>;
+};
+
+export type TFieldChange = {
+  path: string;
+  label: string;
+  before: string;
+  after: string;
+};
@@ -0,0 +1,27 @@
+// GeoJSON position: longitude, latitude and, when known, elevation in meters
+export type TRoutePosition = [number, number] | [number, number, number];
+
+export type TRouteFeature =
+  | {
+      type: "Feature";
+      geometry: { type: "LineString"; coordinates: TRoutePosition[] };
+      // Uploaded tracks are kept as-is; drawn ones are rebuilt from waypoints
+      properties: { day: number | null; source: "upload" | "drawn" };
+    }
+  | {
+      type: "Feature";
+      geometry: { type: "Point"; coordinates: TRoutePosition };
+      properties: { day: number | null; name?: string };
+    };
+
+export type TTripRoute = {
+  type: "FeatureCollection";
+  features: TRouteFeature[];
+};
+
+export type TRouteSegmentStats = {
+  day: number | null;
+  distanceKm: number;
+  gainM: number;
+  lossM: number;
+};
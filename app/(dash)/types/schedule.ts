@@ -0,0 +1,35 @@
+export type TScheduleField = "publishAt" | "unpublishAt";
+
+export type TScheduledStatus = "PUBLISHED" | "DRAFT";
+
+// The part of a trip the scheduler reads; times are ISO strings
+export type TScheduledTrip = {
+  id: string;
+  title: string;
+  status: string;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+};
+
+export type TScheduledChange = {
+  field: TScheduleField;
+  status: TScheduledStatus;
+  at: string;
+};
+
+export type TScheduleResult = {
+  id: string;
+  title: string;
+  // The status the trip ends up in, or null when only the schedule was cleared
+  status: TScheduledStatus | null;
+  ok: boolean;
+  message: string;
+};
+
+// What the scheduler needs from the API, so it can run against the real
+// backend or a local stand-in
+export type TTripScheduleApi = {
+  listScheduledTrips: () => Promise<TScheduledTrip[]>;
+  setStatus: (id: string, status: TScheduledStatus) => Promise<void>;
+  clearSchedule: (id: string, fields: TScheduleField[]) => Promise<void>;
+};
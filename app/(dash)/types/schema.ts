@@ -0,0 +1,10 @@
+export type TSchemaIssue = {
+  // The schema.org type the problem was found on, e.g. "Offer"
+  type: string;
+  property: string;
+  message: string;
+};
+
+// Property path on the generated trip node (e.g. "offers.price") to the
+// value that replaces the generated one
+export type TSchemaOverrides = Record<string, string>;
@@ -0,0 +1,24 @@
+export type TSeoCheckStatus = "pass" | "warn" | "fail";
+
+export type TSeoCheck = {
+  id: string;
+  label: string;
+  status: TSeoCheckStatus;
+  message: string;
+};
+
+export type TSeoAuditInput = {
+  title: string;
+  slug: string;
+  metaTitle: string;
+  metaDescription: string;
+  // Rich text HTML, as saved from the editor
+  content: string;
+  focusKeyword: string;
+  // Extra images outside the content, such as the cover or gallery
+  images?: Array<{ url: string; alt?: string | null }>;
+  // Byte size per image URL, where it could be looked up
+  imageSizes?: Record<string, number>;
+  // Meta titles of every other trip and post
+  otherMetaTitles?: string[];
+};
@@ -0,0 +1,16 @@
+export type TSnippetType = "inclusion" | "exclusion" | "highlight";
+
+// The trip list each snippet type is picked into
+export type TSnippetField = "inclusions" | "exclusions" | "highlights";
+
+export type TSnippet = {
+  id: string;
+  type: TSnippetType;
+  // Free-form grouping inside a type, eg. Permits, Transport, Accommodation
+  category: string;
+  text: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TSnippetInput = Omit<TSnippet, "id" | "createdAt" | "updatedAt">;
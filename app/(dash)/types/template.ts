@@ -0,0 +1,26 @@
+// A template's values are shaped like the trip payload, so list fields are
+// arrays and it can be applied the same way as a saved trip
+export type TTripTemplateValues = {
+  itinerary?: Array<Record<string, unknown>>;
+  faqs?: Array<{ question: string; answer: string }>;
+  additionalInfo?: Array<{ title: string; description: string }>;
+  inclusions?: string[];
+  exclusions?: string[];
+  highlights?: string[];
+  // May hold {title}-style tokens, filled in when the trip is saved
+  seo?: { metaTitle?: string; metaDescription?: string; metaKeywords?: string };
+};
+
+export type TTripTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  values: TTripTemplateValues;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export type TTripTemplateInput = Pick<
+  TTripTemplate,
+  "name" | "description" | "values"
+>;
@@ -0,0 +1,21 @@
+export type TTripSortField =
+  "title" | "price" | "duration" | "status" | "createdAt";
+
+// Every value is kept as the raw query string value; "" means unset
+export type TTripFilters = {
+  q: string;
+  status: string;
+  category: string;
+  type: string;
+  region: string;
+  destination: string;
+  difficulty: string;
+  minPrice: string;
+  maxPrice: string;
+  minDays: string;
+  maxDays: string;
+  // A locale with at least one untranslated field
+  missing: string;
+  sort: TTripSortField | "";
+  order: "asc" | "desc";
+};
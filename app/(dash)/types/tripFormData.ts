@@ -1,4 +1,12 @@
 import { TripDifficulty } from "@/app/(dash)/enums/tripDifficulty.enum";
+import { TDeparture } from "@/app/(dash)/types/departure";
+import { TTripPricing } from "@/app/(dash)/types/pricing";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { TSchemaOverrides } from "@/app/(dash)/types/schema";
+import { TTripRoute } from "@/app/(dash)/types/route";
+import { TTranslations } from "@/app/(dash)/types/locale";
+import { TTripLinks } from "@/app/(dash)/types/tripLinks";
+import { TTripAddOn } from "@/app/(dash)/types/addOn";
 
 export interface TripFormData {
   title: string;
@@ -19,7 +27,10 @@ export interface TripFormData {
   exclusions: string;
   meetingPoint: string;
   dropOffPoint: string;
-  price: number;
+  currency: Currency;
+  pricing: TTripPricing;
+  addOns: TTripAddOn[];
+  paymentPolicyId: string | null;
   highlights: string;
   keywords: string;
   transportation: string;
@@ -28,6 +39,7 @@ export interface TripFormData {
   groupSize: string;
   videoUrl: string;
   map: string;
+  route?: TTripRoute | null;
   itinerary: Array<{
     day: number;
     title: string;
@@ -38,16 +50,26 @@ export interface TripFormData {
     descent: string;
     meals: string;
     accommodations: string;
+    // Meters; the night's stay and the highest point reached that day
+    sleepingAltitude?: number | null;
+    maxAltitude?: number | null;
   }>;
   additionalInfo: Array<{ title: string; description: string }>;
   faqs: Array<{ question: string; answer: string }>;
+  departures: TDeparture[];
   seo: {
     metaTitle?: string;
     metaDescription?: string;
     featuredMedia?: string;
     schema?: string;
+    schemaOverrides?: TSchemaOverrides;
     metaKeywords?: string;
     metaRobots?: string;
     metaAuthor?: string;
   };
+  // datetime-local values; sent to the API as ISO times
+  publishAt?: string;
+  unpublishAt?: string;
+  translations?: TTranslations;
+  tripLinks: TTripLinks;
 }
@@ -0,0 +1,30 @@
+export type TTripLinkGroup = "related" | "extensions" | "upgrades";
+
+// Whether an extension is done before or after the main trip
+export type TExtensionTiming = "pre" | "post";
+
+export type TTripLink = {
+  activityId: string;
+  timing?: TExtensionTiming;
+};
+
+// Each list is kept in the order it is shown on the trip page
+export type TTripLinks = Record<TTripLinkGroup, TTripLink[]>;
+
+// The parts of another trip the picker and the suggestions need
+export type TTripCandidate = {
+  id: string;
+  title: string;
+  status: string;
+  regionId: string;
+  tripCategoryId: string;
+  featuredTagIds: string[];
+  cover: string | null;
+};
+
+export type TTripSuggestion = {
+  trip: TTripCandidate;
+  score: number;
+  // Eg. "Same region, 2 shared tags"
+  reasons: string[];
+};
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { createScheduleApi, runTripSchedule } from "@/lib/tripSchedule";
+import {
+  createStandInScheduleApi,
+  getStandInTrips,
+} from "@/lib/tripScheduleStandIn";
+
+export const dynamic = "force-dynamic";
+
+// Kept for the life of the server so repeated runs see earlier changes
+let standIn: ReturnType<typeof createStandInScheduleApi> | null = null;
+
+const isStandIn = () => process.env.TRIP_SCHEDULER_API === "stand-in";
+
+const getApi = () => {
+  if (isStandIn()) {
+    standIn ??= createStandInScheduleApi(getStandInTrips());
+    return standIn;
+  }
+  return createScheduleApi(
+    process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL || "",
+    process.env.SCHEDULER_API_TOKEN,
+  );
+};
+
+// Called by a cron every minute; applies the publish and unpublish times
+// that have passed
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  // Only the stand-in API may run without a secret; it never touches real trips
+  if (!secret && !isStandIn()) {
+    return NextResponse.json(
+      { message: "CRON_SECRET is not configured" },
+      { status: 503 },
+    );
+  }
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await runTripSchedule(getApi());
+    return NextResponse.json({
+      ranAt: new Date().toISOString(),
+      results,
+      ...(standIn && { trips: standIn.trips }),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { message: (err as Error)?.message || "Scheduler failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useCurrencySettings } from "@/hooks/use-currency-settings";
+import { formatPrice, getConvertedPrices } from "@/lib/currency";
+import { cn } from "@/lib/utils";
+
+export default function ConvertedPrices({
+  amount,
+  currency,
+  className,
+}: {
+  amount: number;
+  currency: string;
+  className?: string;
+}) {
+  const settings = useCurrencySettings();
+  const converted = getConvertedPrices(amount, currency, settings);
+
+  if (!converted.length) return null;
+
+  return (
+    <p className={cn("text-xs text-muted-foreground", className)}>
+      ≈{" "}
+      {converted
+        .map((price) => formatPrice(price.amount, price.currency))
+        .join(" · ")}
+    </p>
+  );
+}
@@ -1,4 +1,4 @@
-import { LucideLoader, LucideCheck, LucideX } from "lucide-react";
+import { LucideLoader, LucideCheck, LucideX, LucideClock } from "lucide-react";
 
 export function formatStatus(stat: string) {
   if (stat == "DRAFT") {
@@ -15,6 +15,13 @@ export function formatStatus(stat: string) {
       color: "bg-green-500",
     };
   }
+  if (stat == "SCHEDULED") {
+    return {
+      text: "Scheduled",
+      icon: <LucideClock />,
+      color: "bg-blue-500",
+    };
+  }
   if (stat == "REJECTED") {
     return {
       text: "Rejected",
@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useEffectEvent, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Gauge,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import {
+  TSeoAuditInput,
+  TSeoCheck,
+  TSeoCheckStatus,
+} from "@/app/(dash)/types/seo";
+import {
+  TMetaTitleEntry,
+  TSeoSource,
+  auditSeo,
+  fetchImageSizes,
+  fetchMetaTitles,
+  getSeoScore,
+} from "@/lib/seoAudit";
+
+type TSeoAuditPanelProps = {
+  source: TSeoSource;
+  // Read when the panel opens or re-runs, so it always sees the latest form
+  getInput: () => Omit<
+    TSeoAuditInput,
+    "focusKeyword" | "imageSizes" | "otherMetaTitles"
+  >;
+  defaultKeyword?: string;
+};
+
+const STATUS_STYLES: Record<
+  TSeoCheckStatus,
+  { icon: typeof CheckCircle2; className: string }
+> = {
+  pass: { icon: CheckCircle2, className: "text-green-600" },
+  warn: { icon: AlertTriangle, className: "text-orange-500" },
+  fail: { icon: XCircle, className: "text-red-600" },
+};
+
+const scoreClassName = (score: number) =>
+  score >= 80
+    ? "text-green-600"
+    : score >= 50
+      ? "text-orange-500"
+      : "text-red-600";
+
+export function SeoAuditPanel({
+  source,
+  getInput,
+  defaultKeyword = "",
+}: Readonly<TSeoAuditPanelProps>) {
+  const [open, setOpen] = useState(false);
+  const [keyword, setKeyword] = useState(defaultKeyword);
+  const [checks, setChecks] = useState<TSeoCheck[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [metaTitles, setMetaTitles] = useState<TMetaTitleEntry[] | null>(null);
+  const [imageSizes, setImageSizes] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (defaultKeyword) setKeyword((current) => current || defaultKeyword);
+  }, [defaultKeyword]);
+
+  // Other pages' titles and image sizes need the network, so they are only
+  // looked up when the panel opens or is re-run
+  const loadRemoteData = useCallback(async () => {
+    setIsLoading(true);
+    const input = getInput();
+    const imageUrls = [
+      ...(input.images ?? []).map((image) => image.url),
+      ...Array.from(
+        new DOMParser()
+          .parseFromString(input.content, "text/html")
+          .querySelectorAll("img"),
+      ).map((img) => img.getAttribute("src") ?? ""),
+    ].filter(Boolean);
+    try {
+      const [titles, sizes] = await Promise.all([
+        fetchMetaTitles().catch((e) => {
+          console.error(e);
+          return [];
+        }),
+        fetchImageSizes(imageUrls),
+      ]);
+      setMetaTitles(titles);
+      setImageSizes(sizes);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getInput]);
+
+  // Effect events see the latest getInput without re-running the effects
+  // on every render; re-running is done with the button
+  const onOpen = useEffectEvent(() => loadRemoteData());
+
+  const runAudit = useEffectEvent(
+    (
+      focusKeyword: string,
+      titles: TMetaTitleEntry[],
+      sizes: Record<string, number>,
+    ) => {
+      const input = getInput();
+      setChecks(
+        auditSeo({
+          ...input,
+          focusKeyword,
+          imageSizes: sizes,
+          otherMetaTitles: titles
+            .filter(
+              (entry) => entry.source !== source || entry.slug !== input.slug,
+            )
+            .map((entry) => entry.metaTitle),
+        }),
+      );
+    },
+  );
+
+  useEffect(() => {
+    if (open) onOpen();
+  }, [open]);
+
+  useEffect(() => {
+    if (open && metaTitles) runAudit(keyword, metaTitles, imageSizes);
+  }, [open, keyword, metaTitles, imageSizes]);
+
+  const score = getSeoScore(checks);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Gauge className="h-4 w-4" /> SEO audit
+          {checks.length > 0 && (
+            <span className={cn("font-bold", scoreClassName(score))}>
+              {score}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="sm:max-w-md w-full">
+        <SheetHeader>
+          <SheetTitle>SEO audit</SheetTitle>
+          <SheetDescription>
+            Checks the unsaved content. Re-run after editing to update the
+            score.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-col gap-3 px-4">
+          <div className="flex items-end justify-between">
+            <p className={cn("text-4xl font-bold", scoreClassName(score))}>
+              {isLoading && !checks.length ? "…" : score}
+              <span className="text-sm text-muted-foreground">/100</span>
+            </p>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={isLoading}
+              onClick={loadRemoteData}
+            >
+              <RefreshCw
+                className={cn("h-4 w-4", isLoading && "animate-spin")}
+              />
+              Re-run
+            </Button>
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="focusKeyword">Focus keyword</Label>
+            <Input
+              id="focusKeyword"
+              value={keyword}
+              placeholder="e.g. annapurna circuit trek"
+              onChange={(e) => setKeyword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-16rem)] px-4">
+          <ul className="flex flex-col gap-2 pb-4">
+            {checks.map((item) => {
+              const { icon: Icon, className } = STATUS_STYLES[item.status];
+              return (
+                <li
+                  key={item.id}
+                  className="flex items-start gap-2 border rounded-md p-2"
+                >
+                  <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", className)} />
+                  <div>
+                    <p className="text-sm font-medium">{item.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.message}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
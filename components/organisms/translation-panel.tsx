@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Control,
+  Controller,
+  FieldValues,
+  Path,
+  useWatch,
+} from "react-hook-form";
+import { Languages } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { QuillField } from "@/lib/quill/quill-field";
+import { cn } from "@/lib/utils";
+import { generateSlug } from "@/lib/generateSlug";
+import { Locale } from "@/app/(dash)/enums/locale.enum";
+import {
+  TTranslatableField,
+  TTranslationProgress,
+  TTranslations,
+} from "@/app/(dash)/types/locale";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_LABELS,
+  TRANSLATION_LOCALES,
+  getLocalizedValue,
+  getPathValue,
+  getSourceFields,
+  getTranslationProgress,
+  hasText,
+} from "@/lib/translations";
+
+type TTranslatedValues = Record<string, unknown> & {
+  translations?: TTranslations;
+};
+
+type TTranslationPanelProps<T extends FieldValues> = {
+  control: Control<T, unknown, FieldValues>;
+  // The translatable fields for the editor's current values
+  getFields: (values: TTranslatedValues) => TTranslatableField[];
+};
+
+const progressClassName = (percent: number) =>
+  percent === 100
+    ? "text-green-600"
+    : percent >= 50
+      ? "text-orange-500"
+      : "text-red-600";
+
+const toPlainText = (value: unknown) =>
+  String(value ?? "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export function TranslationPanel<T extends FieldValues>({
+  control,
+  getFields,
+}: Readonly<TTranslationPanelProps<T>>) {
+  const [locale, setLocale] = useState<Locale>(TRANSLATION_LOCALES[0]);
+  const values = useWatch({ control }) as TTranslatedValues;
+  const fields = getFields(values);
+  const sourceFields = getSourceFields(values, fields);
+  const progress = Object.fromEntries(
+    TRANSLATION_LOCALES.map((l) => [
+      l,
+      getTranslationProgress(values, fields, l),
+    ]),
+  ) as Record<Locale, TTranslationProgress>;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Languages className="h-4 w-4" /> Translations
+          {TRANSLATION_LOCALES.map((l) => (
+            <span
+              key={l}
+              className={cn(
+                "text-xs font-bold",
+                progressClassName(progress[l].percent),
+              )}
+            >
+              {l.toUpperCase()} {progress[l].percent}%
+            </span>
+          ))}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="sm:max-w-xl w-full">
+        <SheetHeader>
+          <SheetTitle>Translations</SheetTitle>
+          <SheetDescription>
+            Untranslated fields fall back to {LOCALE_LABELS[DEFAULT_LOCALE]}.
+            Fields left empty in {LOCALE_LABELS[DEFAULT_LOCALE]} are not listed.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs
+          value={locale}
+          onValueChange={(value) => setLocale(value as Locale)}
+          className="px-4"
+        >
+          <TabsList className="w-full">
+            {TRANSLATION_LOCALES.map((l) => (
+              <TabsTrigger key={l} value={l}>
+                {LOCALE_LABELS[l]}
+                <span
+                  className={cn(
+                    "text-xs",
+                    progressClassName(progress[l].percent),
+                  )}
+                >
+                  {progress[l].done}/{progress[l].total}
+                </span>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {TRANSLATION_LOCALES.map((l) => (
+            <TabsContent key={l} value={l}>
+              <ScrollArea className="h-[calc(100vh-12rem)]">
+                <div className="flex flex-col gap-4 pb-4 pr-3">
+                  {sourceFields.map((field) => {
+                    const name =
+                      `translations.${l}.${field.path}` as Path<FieldValues>;
+                    const source = toPlainText(
+                      getPathValue(values, field.path),
+                    );
+                    const translated = hasText(
+                      getPathValue(values.translations?.[l], field.path),
+                    );
+                    return (
+                      <div key={field.path} className="flex flex-col gap-1">
+                        <Label className="font-bold text-sm">
+                          {field.label}
+                          {!translated && (
+                            <span className="text-xs font-normal text-muted-foreground">
+                              (falls back to{" "}
+                              {LOCALE_LABELS[DEFAULT_LOCALE].toLowerCase()})
+                            </span>
+                          )}
+                        </Label>
+                        {field.rich ? (
+                          <>
+                            <p className="text-xs text-muted-foreground line-clamp-2">
+                              {source}
+                            </p>
+                            <QuillField
+                              name={name}
+                              control={control}
+                              minHeight={100}
+                            />
+                          </>
+                        ) : (
+                          <Controller
+                            name={name}
+                            control={control as Control<FieldValues>}
+                            render={({ field: input }) => (
+                              <div className="flex gap-1 items-center">
+                                <Input
+                                  value={input.value ?? ""}
+                                  onChange={input.onChange}
+                                  placeholder={source}
+                                />
+                                {field.path === "slug" && (
+                                  <Button
+                                    type="button"
+                                    variant="outline"
+                                    onClick={() =>
+                                      input.onChange(
+                                        generateSlug(
+                                          String(
+                                            getLocalizedValue(
+                                              values,
+                                              l,
+                                              "title",
+                                            ) ?? "",
+                                          ),
+                                        ),
+                                      )
+                                    }
+                                  >
+                                    Generate from title
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
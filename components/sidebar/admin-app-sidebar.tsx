@@ -16,6 +16,7 @@ import { NavUtils } from "./nav-utils";
 import { TNavData } from "@/app/(dash)/types/navItems";
 import Link from "next/link";
 import {
+  LucideClipboardCheck,
   LucideColumnsSettings,
   LucideContact2,
   LucideCopyX,
@@ -24,12 +25,15 @@ import {
   LucideForm,
   LucideGaugeCircle,
   LucideLayers2,
+  LucideLibraryBig,
   LucideMapPinCheck,
   LucideMapPinHouse,
   LucideMountainSnow,
   LucideNewspaper,
   LucideNotebookPen,
+  LucidePackagePlus,
   LucidePyramid,
+  LucideReceipt,
   LucideRedo,
   LucideRoute,
   LucideSettings,
@@ -62,6 +66,11 @@ const data: TNavData = {
       url: "/trips",
       icon: LucideMapPinHouse,
     },
+    {
+      title: "Review Queue",
+      url: "/trips/review",
+      icon: LucideClipboardCheck,
+    },
     {
       title: "Pages",
       url: "/info-pages",
@@ -135,6 +144,21 @@ const data: TNavData = {
       url: "/featured-tags",
       icon: LucideTag,
     },
+    {
+      name: "Snippet Library",
+      url: "/snippets",
+      icon: LucideLibraryBig,
+    },
+    {
+      name: "Add-ons",
+      url: "/add-ons",
+      icon: LucidePackagePlus,
+    },
+    {
+      name: "Payment Policies",
+      url: "/payment-policies",
+      icon: LucideReceipt,
+    },
     {
       name: "Departments",
       url: "/departments",
@@ -0,0 +1,167 @@
+"use client";
+
+import { Control, FieldValues, useWatch } from "react-hook-form";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import {
+  HIGH_ALTITUDE_M,
+  checkAcclimatization,
+  formatAltitude,
+  getAltitudeProfile,
+} from "@/lib/altitude";
+
+type TAltitudeProfileProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+};
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+
+export function AltitudeProfile({ control }: Readonly<TAltitudeProfileProps>) {
+  const itinerary = useWatch({ control, name: "itinerary" });
+  const tripMaxAltitude = useWatch({ control, name: "maximumAltitude" });
+  const profile = getAltitudeProfile(itinerary ?? []);
+  const altitudes = profile.flatMap(({ sleeping, max }) =>
+    [sleeping, max].filter((v): v is number => v !== null),
+  );
+
+  if (!altitudes.length)
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add sleeping and max altitudes to the days below to see the elevation
+        profile and acclimatization checks.
+      </p>
+    );
+
+  const warnings = checkAcclimatization(profile, tripMaxAltitude);
+  const flaggedDays = new Set(warnings.map((w) => w.day));
+
+  // Round the axis out to whole 500 m steps so gridlines land on even numbers
+  const minY = Math.floor(Math.min(...altitudes) / 500) * 500;
+  const maxY = Math.max(
+    Math.ceil(Math.max(...altitudes) / 500) * 500,
+    minY + 500,
+  );
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (day: number) =>
+    PADDING.left +
+    (profile.length > 1 ? ((day - 1) / (profile.length - 1)) * plotWidth : 0);
+  const y = (altitude: number) =>
+    PADDING.top + plotHeight - ((altitude - minY) / (maxY - minY)) * plotHeight;
+
+  const line = (key: "sleeping" | "max") =>
+    profile
+      .filter((point) => point[key] !== null)
+      .map((point) => `${x(point.day)},${y(point[key]!)}`)
+      .join(" ");
+
+  const gridLines = Array.from(
+    { length: (maxY - minY) / 500 + 1 },
+    (_, i) => minY + i * 500,
+  );
+
+  return (
+    <div className="flex flex-col gap-3 border rounded-md p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Altitude profile</h3>
+        <div className="flex gap-4 text-xs">
+          <span className="flex items-center gap-1">
+            <span className="w-4 h-0.5 bg-blue-600" /> Sleeping
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-4 border-t-2 border-dashed border-orange-500" />{" "}
+            Max
+          </span>
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {gridLines.map((altitude) => (
+          <g key={altitude}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(altitude)}
+              y2={y(altitude)}
+              className={
+                altitude === HIGH_ALTITUDE_M
+                  ? "stroke-red-300"
+                  : "stroke-gray-200"
+              }
+              strokeDasharray={altitude === HIGH_ALTITUDE_M ? "4 4" : undefined}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(altitude) + 4}
+              textAnchor="end"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {formatAltitude(altitude)}
+            </text>
+          </g>
+        ))}
+        {profile.map(({ day }) => (
+          <text
+            key={day}
+            x={x(day)}
+            y={HEIGHT - 8}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            D{day}
+          </text>
+        ))}
+        <polyline
+          points={line("max")}
+          fill="none"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          className="stroke-orange-500"
+        />
+        <polyline
+          points={line("sleeping")}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-blue-600"
+        />
+        {profile
+          .filter((point) => point.sleeping !== null)
+          .map((point) => (
+            <circle
+              key={point.day}
+              cx={x(point.day)}
+              cy={y(point.sleeping!)}
+              r={flaggedDays.has(point.day) ? 5 : 3}
+              className={
+                flaggedDays.has(point.day) ? "fill-red-600" : "fill-blue-600"
+              }
+            >
+              <title>
+                Day {point.day}: sleeps at {formatAltitude(point.sleeping!)}
+              </title>
+            </circle>
+          ))}
+      </svg>
+
+      {warnings.length ? (
+        <ul className="flex flex-col gap-1 text-sm">
+          {warnings.map((warning, idx) => (
+            <li key={idx} className="flex items-start gap-2 text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {warning.day ? <strong>Day {warning.day}: </strong> : null}
+                {warning.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" /> No acclimatization issues found.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  CheckCircle2,
+  Gauge,
+  Layers,
+  Loader2,
+  LucideArrowRight,
+  LucideGlobe,
+  MapPinned,
+  MoreHorizontal,
+  Tag,
+  Trash2,
+  X,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getFeaturedTags, getRegions, getTripCategories } from "@/app/actions";
+import { TripDifficulty } from "@/app/(dash)/enums/tripDifficulty.enum";
+import { TBulkAction, TBulkResult, TBulkTarget } from "@/app/(dash)/types/bulk";
+import { describeBulkAction, runBulkAction } from "@/lib/tripBulk";
+
+type TBulkActionsBarProps = {
+  selected: TBulkTarget[];
+  onClear: () => void;
+  // Called once a bulk action has run so the table can refetch
+  onComplete: () => void;
+};
+
+type TOption = { value: string; label: string };
+
+// Actions that need a value picked before they can be confirmed
+type TPickerKind = "featuredTag" | "category" | "region" | "difficulty";
+
+const PICKER_LABELS: Record<TPickerKind, string> = {
+  featuredTag: "Featured tag",
+  category: "Category",
+  region: "Region",
+  difficulty: "Difficulty",
+};
+
+const difficultyOptions = Object.values(TripDifficulty).map((level) => ({
+  value: level,
+  label: level.charAt(0) + level.slice(1).toLowerCase(),
+}));
+
+export function BulkActionsBar({
+  selected,
+  onClear,
+  onComplete,
+}: Readonly<TBulkActionsBarProps>) {
+  const [options, setOptions] = useState<
+    Record<Exclude<TPickerKind, "difficulty">, TOption[]>
+  >({ featuredTag: [], category: [], region: [] });
+  const [picker, setPicker] = useState<TPickerKind | null>(null);
+  const [pickedValue, setPickedValue] = useState("");
+  const [action, setAction] = useState<TBulkAction | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [results, setResults] = useState<TBulkResult[] | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [catData, regionData, tagData] = await Promise.all([
+          getTripCategories(),
+          getRegions(),
+          getFeaturedTags(),
+        ]);
+        setOptions({
+          category: (catData?.data?.tripCategories || []).map(
+            (c: { id: string; categoryName: string }) => ({
+              value: String(c.id),
+              label: c.categoryName,
+            }),
+          ),
+          region: (regionData?.data?.regions || []).map(
+            (r: { id: string; regionName: string }) => ({
+              value: String(r.id),
+              label: r.regionName,
+            }),
+          ),
+          featuredTag: (tagData?.data?.featuredTags || []).map(
+            (t: { id: string; name: string }) => ({
+              value: String(t.id),
+              label: t.name,
+            }),
+          ),
+        });
+      } catch (e) {
+        console.error("Failed to fetch options", e);
+      }
+    })();
+  }, []);
+
+  const pickerOptions =
+    picker === "difficulty" ? difficultyOptions : picker ? options[picker] : [];
+
+  const openPicker = (kind: TPickerKind) => {
+    setPicker(kind);
+    setPickedValue("");
+    setAction(null);
+  };
+
+  const toAction = (): TBulkAction | null => {
+    if (action) return action;
+    if (!picker || !pickedValue) return null;
+    const label =
+      pickerOptions.find((o) => o.value === pickedValue)?.label ?? "";
+    switch (picker) {
+      case "featuredTag":
+        return { kind: "featuredTag", tagId: pickedValue, label };
+      case "category":
+        return { kind: "category", categoryId: pickedValue, label };
+      case "region":
+        return { kind: "region", regionId: pickedValue, label };
+      case "difficulty":
+        return { kind: "difficulty", level: pickedValue as TripDifficulty };
+    }
+  };
+
+  const pending = toAction();
+  const open = !!picker || !!action;
+
+  const run = async () => {
+    if (!pending) return;
+    setProgress(0);
+    setResults(await runBulkAction(selected, pending, setProgress));
+    setProgress(null);
+  };
+
+  const close = () => {
+    if (progress !== null) return;
+    if (results) {
+      onComplete();
+      // Keep the ones that failed selected so they can be retried
+      if (results.every((r) => r.ok)) onClear();
+    }
+    setPicker(null);
+    setAction(null);
+    setResults(null);
+  };
+
+  const succeeded = results?.filter((r) => r.ok).length ?? 0;
+
+  return (
+    <>
+      <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+        <span className="text-sm font-medium">{selected.length} selected</span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setAction({ kind: "publish" })}
+        >
+          <LucideGlobe /> Publish
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setAction({ kind: "draft" })}
+        >
+          <LucideArrowRight /> Move to drafts
+        </Button>
+        <DropdownMenu modal={false}>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline">
+              <MoreHorizontal /> More
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onClick={() => openPicker("featuredTag")}>
+              <Tag /> Assign featured tag
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => openPicker("category")}>
+              <Layers /> Change category
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => openPicker("region")}>
+              <MapPinned /> Change region
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => openPicker("difficulty")}>
+              <Gauge /> Set difficulty
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-rose-600"
+              onClick={() => setAction({ kind: "delete" })}
+            >
+              <Trash2 className="text-rose-600" /> Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+          <X /> Clear selection
+        </Button>
+      </div>
+
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {results
+                ? `${succeeded} of ${results.length} trips updated`
+                : pending
+                  ? describeBulkAction(pending)
+                  : picker && `${PICKER_LABELS[picker]} for selected trips`}
+            </DialogTitle>
+            <DialogDescription>
+              {results
+                ? "Trips marked with an error were left unchanged and stay selected so you can retry."
+                : `This will apply to the ${selected.length} trips below.${
+                    pending?.kind === "delete"
+                      ? " Deleted trips cannot be recovered."
+                      : ""
+                  }`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {picker && !results && (
+            <div className="flex flex-col gap-2">
+              <Label>{PICKER_LABELS[picker]}</Label>
+              <Select value={pickedValue} onValueChange={setPickedValue}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {pickerOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <ul className="max-h-64 overflow-y-auto flex flex-col gap-1 text-sm">
+            {(results ?? selected).map((item) => {
+              const result = results && (item as TBulkResult);
+              return (
+                <li key={item.id} className="flex items-start gap-2">
+                  {result ? (
+                    result.ok ? (
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                    )
+                  ) : (
+                    <span className="w-4 shrink-0 text-muted-foreground">
+                      •
+                    </span>
+                  )}
+                  <span className="flex-1">{item.title}</span>
+                  {result && !result.ok && (
+                    <span className="text-red-600">{result.message}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <DialogFooter>
+            {results ? (
+              <Button onClick={close}>Done</Button>
+            ) : (
+              <>
+                <Button
+                  variant="outline"
+                  disabled={progress !== null}
+                  onClick={close}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant={
+                    pending?.kind === "delete" ? "destructive" : "default"
+                  }
+                  disabled={!pending || progress !== null}
+                  onClick={run}
+                >
+                  {progress !== null && <Loader2 className="animate-spin" />}
+                  {progress !== null
+                    ? `${progress} of ${selected.length}`
+                    : `Apply to ${selected.length} trips`}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { TDeparture } from "@/app/(dash)/types/departure";
+import {
+  departureStatusOptions,
+  getDepartureStatusOption,
+  getRemainingSeats,
+  toDateKey,
+} from "@/lib/departures";
+
+const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+type TDepartureCalendarProps = {
+  departures: TDeparture[];
+  onSelectDate: (date: string) => void;
+};
+
+export function DepartureCalendar({
+  departures,
+  onSelectDate,
+}: Readonly<TDepartureCalendarProps>) {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const departuresByDate = useMemo(() => {
+    const map = new Map<string, TDeparture[]>();
+    departures.forEach((departure) => {
+      if (!departure?.startDate) return;
+      const key = toDateKey(departure.startDate);
+      map.set(key, [...(map.get(key) ?? []), departure]);
+    });
+    return map;
+  }, [departures]);
+
+  // Leading blanks so the 1st lands on the right weekday
+  const days = useMemo(() => {
+    const year = month.getFullYear();
+    const monthIndex = month.getMonth();
+    const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+    const blanks = Array.from({ length: month.getDay() }, () => null);
+    const dates = Array.from(
+      { length: daysInMonth },
+      (_, i) => new Date(year, monthIndex, i + 1),
+    );
+    return [...blanks, ...dates];
+  }, [month]);
+
+  const todayKey = toDateKey(new Date());
+
+  const shiftMonth = (delta: number) =>
+    setMonth((m) => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+
+  return (
+    <div className="border rounded-md p-4">
+      <div className="flex items-center justify-between mb-4">
+        <Button
+          type="button"
+          variant="outline"
+          size="icon-sm"
+          onClick={() => shiftMonth(-1)}
+        >
+          <ChevronLeft />
+        </Button>
+        <h3 className="font-semibold">
+          {month.toLocaleDateString("en-US", {
+            month: "long",
+            year: "numeric",
+          })}
+        </h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon-sm"
+          onClick={() => shiftMonth(1)}
+        >
+          <ChevronRight />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs text-muted-foreground mb-1">
+        {WEEK_DAYS.map((day) => (
+          <div key={day}>{day}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map((date, index) => {
+          if (!date) return <div key={`blank-${index}`} />;
+          const key = toDateKey(date);
+          const dayDepartures = departuresByDate.get(key) ?? [];
+          return (
+            <button
+              key={key}
+              type="button"
+              title="Add a departure on this date"
+              onClick={() => onSelectDate(key)}
+              className={cn(
+                "min-h-16 rounded-sm border p-1 text-left text-xs hover:bg-primary/10 flex flex-col gap-1",
+                key === todayKey && "border-primary",
+                key < todayKey && "opacity-60",
+              )}
+            >
+              <span className="font-medium">{date.getDate()}</span>
+              {dayDepartures.map((departure, i) => {
+                const status = getDepartureStatusOption(departure.status);
+                return (
+                  <span
+                    key={departure.id ?? i}
+                    className={cn(
+                      "rounded-sm px-1 text-white truncate",
+                      status.color,
+                    )}
+                  >
+                    {status.label} · {getRemainingSeats(departure)} left
+                  </span>
+                );
+              })}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 mt-4 text-xs">
+        {departureStatusOptions.map((option) => (
+          <div key={option.value} className="flex items-center gap-1">
+            <span className={cn("size-3 rounded-sm", option.color)} />
+            {option.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { humanizeKey } from "@/lib/tripDiff";
+
+type TDraftConflictDialogProps = {
+  open: boolean;
+  // Fields edited both in the draft and on the server
+  conflictingKeys: string[];
+  onMerge: () => void;
+  onOverwrite: () => void;
+  onDiscard: () => void;
+};
+
+export function DraftConflictDialog({
+  open,
+  conflictingKeys,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+}: Readonly<TDraftConflictDialogProps>) {
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            This trip changed since your draft
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Someone saved this trip after your unsaved draft was started.
+            Merging keeps your edited fields and takes everything else from the
+            latest version. Overwriting restores your draft as it was.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {conflictingKeys.length > 0 && (
+          <div className="text-sm">
+            <p className="font-medium">Edited in both places:</p>
+            <p className="text-muted-foreground">
+              {conflictingKeys.map(humanizeKey).join(", ")}
+            </p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard}>
+            Discard draft
+          </AlertDialogCancel>
+          <AlertDialogAction variant="outline" onClick={onOverwrite}>
+            Overwrite with draft
+          </AlertDialogAction>
+          <AlertDialogAction onClick={onMerge}>Merge</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getCities,
+  getRegions,
+  getTripCategories,
+  getTripTypes,
+} from "@/app/actions";
+import {
+  EXPORT_COLUMNS,
+  TExportFormat,
+  buildExport,
+  downloadBlob,
+  fetchAllTrips,
+} from "@/lib/tripExport";
+import { EMPTY_TRIP_FILTERS, countActiveFilters } from "@/lib/tripFilters";
+import { TTripFilters } from "@/app/(dash)/types/tripFilters";
+
+type TExportDialogProps = {
+  // The trips table's current search and filters
+  filters?: TTripFilters;
+};
+
+const toNames = (items: Record<string, string>[] = [], nameKey: string) =>
+  Object.fromEntries(items.map((item) => [String(item.id), item[nameKey]]));
+
+export function ExportDialog({
+  filters = EMPTY_TRIP_FILTERS,
+}: Readonly<TExportDialogProps>) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<TExportFormat>("csv");
+  const [scope, setScope] = useState<"all" | "filtered">("all");
+  const [columns, setColumns] = useState(EXPORT_COLUMNS.map((c) => c.key));
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const activeCount = countActiveFilters(filters);
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setColumns((prev) =>
+      checked ? [...prev, key] : prev.filter((column) => column !== key),
+    );
+
+  const handleExport = async () => {
+    setProgress("Fetching trips...");
+    try {
+      const [trips, catData, typeData, regionData, cityData] =
+        await Promise.all([
+          // Keep the table's sort order either way
+          fetchAllTrips(
+            scope === "filtered"
+              ? filters
+              : {
+                  ...EMPTY_TRIP_FILTERS,
+                  sort: filters.sort,
+                  order: filters.order,
+                },
+            (fetched, total) =>
+              setProgress(`Fetched ${fetched} of ${total} trips...`),
+          ),
+          getTripCategories(),
+          getTripTypes(),
+          getRegions(),
+          getCities(),
+        ]);
+      const blob = buildExport(trips, format, columns, {
+        categories: toNames(catData?.data?.tripCategories, "categoryName"),
+        tripTypes: toNames(typeData?.data?.tripTypes, "tripTypeName"),
+        regions: toNames(regionData?.data?.regions, "regionName"),
+        cities: toNames(cityData?.data?.cities, "cityName"),
+      });
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `trips-${date}.${format}`);
+      toast.success(`Exported ${trips.length} trips`);
+      setOpen(false);
+    } catch (err) {
+      toast.error((err as Error)?.message || "Export failed");
+      console.error(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download /> Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export trips</DialogTitle>
+          <DialogDescription>
+            Download the trip catalogue as a spreadsheet or as JSON that can be
+            imported again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label>Format</Label>
+            <Select
+              value={format}
+              onValueChange={(value) => setFormat(value as TExportFormat)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label>Trips</Label>
+            <Select
+              value={scope}
+              onValueChange={(value) => setScope(value as "all" | "filtered")}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All trips</SelectItem>
+                <SelectItem value="filtered" disabled={!activeCount}>
+                  {activeCount
+                    ? `Current filters (${activeCount})`
+                    : "Current filters"}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label>Columns</Label>
+          {format === "json" ? (
+            <p className="text-sm text-muted-foreground">
+              JSON exports include every field of each trip so the file can go
+              back through the import wizard.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_COLUMNS.map((column) => (
+                <label
+                  key={column.key}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    checked={columns.includes(column.key)}
+                    onCheckedChange={(checked) =>
+                      toggleColumn(column.key, checked === true)
+                    }
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {progress && (
+            <span className="text-sm text-muted-foreground mr-auto">
+              {progress}
+            </span>
+          )}
+          <Button
+            disabled={!!progress || (format !== "json" && !columns.length)}
+            onClick={handleExport}
+          >
+            {progress ? <Loader2 className="animate-spin" /> : <Download />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,19 @@
+import { TFieldChange } from "@/app/(dash)/types/revision";
+
+export function FieldChanges({
+  changes,
+}: Readonly<{ changes: TFieldChange[] }>) {
+  return changes.map((change) => (
+    <div key={change.path} className="text-xs">
+      <p className="font-semibold mb-1">{change.label}</p>
+      <div className="grid grid-cols-2 gap-2">
+        <p className="bg-red-50 text-red-700 rounded-sm p-2 line-through break-words">
+          {change.before || "—"}
+        </p>
+        <p className="bg-green-50 text-green-700 rounded-sm p-2 break-words">
+          {change.after || "—"}
+        </p>
+      </div>
+    </div>
+  ));
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import Image from "next/image";
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { AlertTriangle, GripVertical, Star, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TTripImage } from "@/app/(dash)/types/image";
+import { getFullImageUrl } from "@/lib/getFullImageUrl";
+import {
+  MIN_IMAGE_HEIGHT,
+  MIN_IMAGE_WIDTH,
+  isBelowMinResolution,
+  loadImageSize,
+  removeTripImage,
+  setCoverImage,
+} from "@/lib/tripImages";
+
+type TImageGalleryProps = {
+  images: TTripImage[];
+  onChange: React.Dispatch<React.SetStateAction<TTripImage[]>>;
+};
+
+type TTextField = "alt" | "caption" | "credit";
+
+const TEXT_FIELDS: { name: TTextField; placeholder: string }[] = [
+  { name: "alt", placeholder: "Alt text, eg. Prayer flags at Thorong La" },
+  { name: "caption", placeholder: "Caption" },
+  { name: "credit", placeholder: "Photo credit" },
+];
+
+function SortableImage({
+  id,
+  children,
+}: {
+  id: string;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style}>
+      {children(
+        <div
+          {...attributes}
+          {...listeners}
+          className="cursor-move rounded-sm bg-background/90 p-1"
+        >
+          <GripVertical className="w-4 h-4 text-gray-500" />
+        </div>,
+      )}
+    </div>
+  );
+}
+
+export function ImageGallery({
+  images,
+  onChange,
+}: Readonly<TImageGalleryProps>) {
+  // URLs already measured, so a broken image isn't retried on every render
+  const measured = useRef(new Set<string>());
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  useEffect(() => {
+    images
+      .filter((image) => !image.width && !measured.current.has(image.url))
+      .forEach(async ({ url }) => {
+        measured.current.add(url);
+        try {
+          const { width, height } = await loadImageSize(getFullImageUrl(url));
+          onChange((prev) =>
+            prev.map((image) =>
+              image.url === url ? { ...image, width, height } : image,
+            ),
+          );
+        } catch (e) {
+          console.error(e);
+        }
+      });
+  }, [images, onChange]);
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    onChange((prev) =>
+      arrayMove(
+        prev,
+        prev.findIndex((image) => image.url === active.id),
+        prev.findIndex((image) => image.url === over.id),
+      ),
+    );
+  };
+
+  const setText = (index: number, field: TTextField, value: string) =>
+    onChange((prev) =>
+      prev.map((image, i) =>
+        i === index ? { ...image, [field]: value } : image,
+      ),
+    );
+
+  if (!images.length) return null;
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCenter}
+      onDragEnd={handleDragEnd}
+    >
+      <SortableContext
+        items={images.map((image) => image.url)}
+        strategy={rectSortingStrategy}
+      >
+        <div className="grid max-w-4xl grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {images.map((image, idx) => (
+            <SortableImage key={image.url} id={image.url}>
+              {(handle) => (
+                <div className="flex flex-col gap-2 rounded-md border p-2">
+                  <div className="relative aspect-[3/2] overflow-hidden rounded-sm">
+                    <Image
+                      fill
+                      src={getFullImageUrl(image.url)}
+                      alt={image.alt || `Trip image ${idx + 1}`}
+                      className="object-cover"
+                      unoptimized
+                    />
+                    <div className="absolute top-1 left-1">{handle}</div>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange((prev) => removeTripImage(prev, idx))
+                      }
+                      className="absolute top-1 right-1 bg-primary/90 text-background rounded-full p-1"
+                    >
+                      <X size={14} />
+                    </button>
+                    {image.isCover && (
+                      <Badge className="absolute bottom-1 left-1">Cover</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {image.width && image.height
+                        ? `${image.width} × ${image.height}`
+                        : "Measuring..."}
+                    </span>
+                    {!image.isCover && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          onChange((prev) => setCoverImage(prev, idx))
+                        }
+                      >
+                        <Star /> Set as cover
+                      </Button>
+                    )}
+                  </div>
+                  {isBelowMinResolution(image) && (
+                    <p className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      Below {MIN_IMAGE_WIDTH} × {MIN_IMAGE_HEIGHT}; it may look
+                      blurry in the hero gallery.
+                    </p>
+                  )}
+                  {TEXT_FIELDS.map((field) => (
+                    <Input
+                      key={field.name}
+                      value={image[field.name]}
+                      placeholder={field.placeholder}
+                      onChange={(e) => setText(idx, field.name, e.target.value)}
+                    />
+                  ))}
+                </div>
+              )}
+            </SortableImage>
+          ))}
+        </div>
+      </SortableContext>
+    </DndContext>
+  );
+}
@@ -0,0 +1,412 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Control,
+  FieldErrors,
+  FieldValues,
+  UseFormGetValues,
+  UseFormRegister,
+  UseFormSetValue,
+  useFieldArray,
+  useWatch,
+} from "react-hook-form";
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import {
+  ChevronsDownUp,
+  ChevronsUpDown,
+  Combine,
+  Copy,
+  GripVertical,
+  MoreHorizontal,
+  Plus,
+  Split,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { QuillField } from "@/lib/quill/quill-field";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import {
+  emptyItineraryDay,
+  mergeItineraryDays,
+  mergeTranslatedDays,
+  splitItineraryDay,
+} from "@/lib/itinerary";
+import { remapTranslatedList } from "@/lib/translations";
+
+type TItineraryEditorProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  register: UseFormRegister<TripFormData>;
+  setValue: UseFormSetValue<TripFormData>;
+  getValues: UseFormGetValues<TripFormData>;
+  errors: FieldErrors<TripFormData>;
+};
+
+const DAY_STATS = [
+  { name: "duration", label: "Duration", placeholder: "Eg. 1 Night/ 1 Day" },
+  { name: "distance", label: "Distance", placeholder: "Eg. 13 Km" },
+  { name: "ascent", label: "Ascent", placeholder: "Eg. 600m" },
+  { name: "descent", label: "Descent", placeholder: "Eg. 600m" },
+  {
+    name: "meals",
+    label: "Meals",
+    placeholder: "Eg. Breakfast , Lunch, Dinner",
+  },
+  {
+    name: "accommodations",
+    label: "Accommodations",
+    placeholder: "Eg. Stay in a Local Homestays, Hotels, etc.",
+  },
+] as const;
+
+const DAY_ALTITUDES = [
+  { name: "sleepingAltitude", label: "Sleeping altitude (m)" },
+  { name: "maxAltitude", label: "Max altitude (m)" },
+] as const;
+
+const optionalNumber = (v: unknown) =>
+  v === "" || v === null || v === undefined ? null : Number(v);
+
+function SortableDay({
+  id,
+  children,
+}: {
+  id: string;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style}>
+      {children(
+        <div {...attributes} {...listeners} className="cursor-move">
+          <GripVertical className="w-4 h-4 text-gray-400 hover:text-gray-600" />
+        </div>,
+      )}
+    </div>
+  );
+}
+
+export function ItineraryEditor({
+  control,
+  register,
+  setValue,
+  getValues,
+  errors,
+}: Readonly<TItineraryEditorProps>) {
+  const [collapsed, setCollapsed] = useState(false);
+  const { fields, move, insert, remove, update } = useFieldArray({
+    control,
+    name: "itinerary",
+  });
+  const titles = useWatch({ control, name: "itinerary" });
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  // Day numbers always follow list order, whatever changed it
+  const renumber = () =>
+    getValues("itinerary").forEach((day, i) => {
+      if (day.day !== i + 1) setValue(`itinerary.${i}.day`, i + 1);
+    });
+
+  // Translated days are stored by position, so they move with the days
+  const remapTranslations = (change: (days: unknown[]) => unknown[]) =>
+    setValue(
+      "translations",
+      remapTranslatedList(
+        getValues("translations"),
+        "itinerary",
+        fields.length,
+        change,
+      ),
+    );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = fields.findIndex((field) => field.id === active.id);
+    const to = fields.findIndex((field) => field.id === over.id);
+    move(from, to);
+    remapTranslations((days) => {
+      const [day] = days.splice(from, 1);
+      days.splice(to, 0, day);
+      return days;
+    });
+    renumber();
+  };
+
+  const insertDay = (index: number) => {
+    insert(index, emptyItineraryDay(index + 1));
+    remapTranslations((days) => {
+      days.splice(index, 0, null);
+      return days;
+    });
+    renumber();
+  };
+
+  const duplicateDay = (index: number) => {
+    insert(index + 1, { ...getValues(`itinerary.${index}`) });
+    remapTranslations((days) => {
+      days.splice(index + 1, 0, days[index]);
+      return days;
+    });
+    renumber();
+  };
+
+  const mergeWithNext = (index: number) => {
+    const days = getValues("itinerary");
+    update(index, mergeItineraryDays(days[index], days[index + 1]));
+    remove(index + 1);
+    remapTranslations((days) => {
+      days.splice(index, 2, mergeTranslatedDays(days[index], days[index + 1]));
+      return days;
+    });
+    renumber();
+  };
+
+  const splitDay = (index: number) => {
+    const [, second] = splitItineraryDay(getValues(`itinerary.${index}`));
+    insert(index + 1, second);
+    remapTranslations((days) => {
+      days.splice(index + 1, 0, null);
+      return days;
+    });
+    renumber();
+  };
+
+  const removeDay = (index: number) => {
+    remove(index);
+    remapTranslations((days) => {
+      days.splice(index, 1);
+      return days;
+    });
+    renumber();
+  };
+
+  const dayActions = (index: number) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="ghost" size="icon">
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => insertDay(index + 1)}>
+          <Plus className="h-4 w-4" /> Insert day below
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => duplicateDay(index)}>
+          <Copy className="h-4 w-4" /> Duplicate
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={index === fields.length - 1}
+          onClick={() => mergeWithNext(index)}
+        >
+          <Combine className="h-4 w-4" /> Merge with next day
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => splitDay(index)}>
+          <Split className="h-4 w-4" /> Split into two days
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          disabled={fields.length === 1}
+          onClick={() => removeDay(index)}
+        >
+          <Trash2 className="h-4 w-4" /> Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          {collapsed ? (
+            <>
+              <ChevronsUpDown className="h-4 w-4" /> Expand days
+            </>
+          ) : (
+            <>
+              <ChevronsDownUp className="h-4 w-4" /> Collapse to overview
+            </>
+          )}
+        </Button>
+      </div>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragEnd={handleDragEnd}
+      >
+        <SortableContext
+          items={fields.map((field) => field.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          <div className={collapsed ? "flex flex-col gap-1" : "space-y-6"}>
+            {fields.map((field, index) => (
+              <SortableDay key={field.id} id={field.id}>
+                {(handle) =>
+                  collapsed ? (
+                    <div className="flex items-center gap-2 px-3 py-1 border rounded-sm bg-background">
+                      {handle}
+                      <span className="font-semibold text-sm w-14 shrink-0">
+                        Day {index + 1}
+                      </span>
+                      <span className="flex-1 truncate text-sm">
+                        {titles?.[index]?.title || (
+                          <span className="text-muted-foreground">
+                            Untitled day
+                          </span>
+                        )}
+                      </span>
+                      {dayActions(index)}
+                    </div>
+                  ) : (
+                    <div className="p-4 border rounded-sm relative bg-background">
+                      <div className="flex justify-between items-center mb-3">
+                        <div className="flex items-center gap-2">
+                          {handle}
+                          <h3 className="font-semibold">Day {index + 1}</h3>
+                        </div>
+                        {dayActions(index)}
+                      </div>
+
+                      <Input
+                        {...register(`itinerary.${index}.title` as const, {
+                          required: "Day title is required",
+                        })}
+                        placeholder={
+                          "Give a short, descriptive title for the day. Example:  Sunrise at Sarangkot & Lakeside Tour"
+                        }
+                        className="mb-3"
+                      />
+                      {errors.itinerary?.[index]?.title && (
+                        <p className="text-sm text-red-500 my-2">
+                          {errors.itinerary[index].title?.message}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-2 gap-4">
+                        {DAY_STATS.map((stat) => (
+                          <div key={stat.name}>
+                            <Label
+                              className="pb-2"
+                              htmlFor={`itinerary.${index}.${stat.name}`}
+                            >
+                              {stat.label}
+                            </Label>
+                            <Input
+                              {...register(
+                                `itinerary.${index}.${stat.name}` as const,
+                              )}
+                              placeholder={stat.placeholder}
+                            />
+                          </div>
+                        ))}
+                        {DAY_ALTITUDES.map((altitude) => (
+                          <div key={altitude.name}>
+                            <Label
+                              className="pb-2"
+                              htmlFor={`itinerary.${index}.${altitude.name}`}
+                            >
+                              {altitude.label}
+                            </Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              {...register(
+                                `itinerary.${index}.${altitude.name}` as const,
+                                { setValueAs: optionalNumber },
+                              )}
+                              placeholder="Eg. 3440"
+                            />
+                            {errors.itinerary?.[index]?.[altitude.name] && (
+                              <p className="text-sm text-red-500">
+                                {
+                                  errors.itinerary[index][altitude.name]
+                                    ?.message
+                                }
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+
+                      <br />
+                      <QuillField
+                        placeholder="Write 2-4 sentences detailing the activities, key stops, and experiences for that day."
+                        name={`itinerary.${index}.description`}
+                        control={control}
+                      />
+                      {errors.itinerary?.[index]?.description && (
+                        <p className="text-sm text-red-500">
+                          {errors.itinerary[index].description?.message}
+                        </p>
+                      )}
+                    </div>
+                  )
+                }
+              </SortableDay>
+            ))}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      <div className="flex justify-center">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => insertDay(fields.length)}
+          className="rounded-full flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" /> Add Day
+        </Button>
+      </div>
+    </div>
+  );
+}
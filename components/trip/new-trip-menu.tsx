@@ -0,0 +1,130 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  ChevronDown,
+  FilePlus2,
+  LayoutTemplate,
+  Loader2,
+  PlusIcon,
+  Settings2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TTripTemplate } from "@/app/(dash)/types/template";
+import { fetchTemplates } from "@/lib/tripTemplates";
+
+export function NewTripMenu() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<TTripTemplate[] | null>(null);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      try {
+        setTemplates(await fetchTemplates());
+      } catch (e) {
+        toast.error((e as Error).message);
+        setTemplates([]);
+      }
+    })();
+  }, [open]);
+
+  const query = search.trim().toLowerCase();
+  const matches = (templates ?? []).filter(
+    (t) =>
+      !query ||
+      t.name.toLowerCase().includes(query) ||
+      t.description?.toLowerCase().includes(query),
+  );
+
+  return (
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button size="lg">
+            <PlusIcon /> Add New Trip <ChevronDown />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => router.push("/trips/edit/")}>
+            <FilePlus2 /> Blank
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setOpen(true)}>
+            <LayoutTemplate /> From template…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => router.push("/trips/templates/")}>
+            <Settings2 /> Manage templates
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Start from a template</DialogTitle>
+            <DialogDescription>
+              The new trip starts with the template’s itinerary, FAQs,
+              additional info, lists and SEO fields.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            placeholder="Search templates..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          {templates === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="animate-spin text-muted-foreground" />
+            </div>
+          ) : matches.length ? (
+            <ul className="max-h-80 overflow-y-auto flex flex-col gap-2">
+              {matches.map((template) => (
+                <li key={template.id}>
+                  <button
+                    type="button"
+                    className="w-full rounded-md border p-3 text-left hover:bg-muted"
+                    onClick={() =>
+                      router.push(`/trips/edit/?template=${template.id}`)
+                    }
+                  >
+                    <p className="font-medium">{template.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {template.values.itinerary?.length ?? 0} days
+                      {template.description && ` · ${template.description}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {templates.length
+                ? "No templates match your search."
+                : "No templates yet. Save a trip as a template from its editor."}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import {
+  Control,
+  FieldValues,
+  UseFormSetValue,
+  useWatch,
+} from "react-hook-form";
+import Link from "next/link";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LabelDescription from "@/components/atoms/label-description";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import { TPaymentPolicy } from "@/app/(dash)/types/paymentPolicy";
+import { getPolicySummaryLines } from "@/lib/paymentPolicies";
+
+type TPaymentPolicyPickerProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  setValue: UseFormSetValue<TripFormData>;
+  policies: TPaymentPolicy[];
+};
+
+// Radix selects can't hold an empty value
+const NO_POLICY = "__none";
+
+export function PaymentPolicyPicker({
+  control,
+  setValue,
+  policies,
+}: Readonly<TPaymentPolicyPickerProps>) {
+  const policyId = useWatch({ control, name: "paymentPolicyId" });
+  const policy = policies.find((p) => p.id === policyId);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Label htmlFor="paymentPolicyId">Payment and cancellation policy</Label>
+      <LabelDescription text="The deposit, balance due date and refunds that apply when booking this trip." />
+      <Select
+        value={policyId || NO_POLICY}
+        onValueChange={(value) =>
+          setValue("paymentPolicyId", value === NO_POLICY ? null : value, {
+            shouldDirty: true,
+          })
+        }
+      >
+        <SelectTrigger id="paymentPolicyId" className="w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_POLICY}>No policy</SelectItem>
+          {policies.map((p) => (
+            <SelectItem key={p.id} value={p.id}>
+              {p.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {policy ? (
+        <div className="rounded-md border bg-muted/30 p-3">
+          <p className="text-xs text-muted-foreground mb-1">
+            Summary shown on the trip page
+          </p>
+          <ul className="text-sm flex flex-col gap-1">
+            {getPolicySummaryLines(policy).map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {!policyId
+            ? "Travelers won't see any payment terms for this trip."
+            : policies.length
+              ? "This policy no longer exists. Pick another one."
+              : "Loading..."}{" "}
+          <Link href="/payment-policies" className="underline">
+            Manage policies
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import {
+  Control,
+  FieldErrors,
+  FieldValues,
+  UseFormGetValues,
+  UseFormRegister,
+  UseFormSetValue,
+  useFieldArray,
+  useWatch,
+} from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import LabelDescription from "@/components/atoms/label-description";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import { MONTHS, formatTierLabel, getFromPrice } from "@/lib/tripPricing";
+import { formatPrice } from "@/lib/currency";
+import ConvertedPrices from "@/components/atoms/converted-prices";
+
+type TPricingTableProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  register: UseFormRegister<TripFormData>;
+  setValue: UseFormSetValue<TripFormData>;
+  getValues: UseFormGetValues<TripFormData>;
+  errors: FieldErrors<TripFormData>;
+};
+
+const optionalNumber = (v: unknown) =>
+  v === "" || v === null || v === undefined ? null : Number(v);
+
+export function PricingTable({
+  control,
+  register,
+  setValue,
+  getValues,
+  errors,
+}: Readonly<TPricingTableProps>) {
+  const {
+    fields: tierFields,
+    append: appendTier,
+    remove: removeTier,
+  } = useFieldArray({ control, name: "pricing.tiers" });
+  const {
+    fields: seasonFields,
+    append: appendSeason,
+    remove: removeSeason,
+  } = useFieldArray({ control, name: "pricing.seasons" });
+
+  const pricing = useWatch({ control, name: "pricing" });
+  const currency = useWatch({ control, name: "currency" });
+  const fromPrice = getFromPrice(pricing);
+
+  // Every season keeps one rate per tier, so tier changes touch all seasons
+  const addTier = () => {
+    const tiers = getValues("pricing.tiers");
+    const last = tiers[tiers.length - 1];
+    const minPax = last ? (last.maxPax ?? last.minPax) + 1 : 1;
+    appendTier({ minPax, maxPax: null });
+    getValues("pricing.seasons").forEach((season, i) =>
+      setValue(`pricing.seasons.${i}.rates`, [...season.rates, 0]),
+    );
+  };
+
+  const deleteTier = (tierIndex: number) => {
+    getValues("pricing.seasons").forEach((season, i) =>
+      setValue(
+        `pricing.seasons.${i}.rates`,
+        season.rates.filter((_, r) => r !== tierIndex),
+      ),
+    );
+    removeTier(tierIndex);
+  };
+
+  const addSeason = () =>
+    appendSeason({
+      name: "",
+      startMonth: 1,
+      endMonth: 12,
+      rates: getValues("pricing.tiers").map(() => 0),
+    });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="overflow-x-auto border rounded-sm">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50">
+            <tr>
+              <th className="p-2 text-left font-medium min-w-56">Season</th>
+              {tierFields.map((tier, tierIndex) => (
+                <th key={tier.id} className="p-2 text-left font-medium">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-16"
+                      title="Minimum group size"
+                      {...register(`pricing.tiers.${tierIndex}.minPax`, {
+                        valueAsNumber: true,
+                      })}
+                    />
+                    –
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-16"
+                      placeholder="∞"
+                      title="Maximum group size, leave empty for no limit"
+                      {...register(`pricing.tiers.${tierIndex}.maxPax`, {
+                        setValueAs: optionalNumber,
+                      })}
+                    />
+                    {tierFields.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => deleteTier(tierIndex)}
+                      >
+                        <Trash2 className="h-4 w-4 text-foreground/70" />
+                      </Button>
+                    )}
+                  </div>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {pricing?.tiers?.[tierIndex] &&
+                      formatTierLabel(pricing.tiers[tierIndex])}
+                  </span>
+                  {errors.pricing?.tiers?.[tierIndex]?.maxPax && (
+                    <p className="text-xs font-normal text-red-500">
+                      {errors.pricing.tiers[tierIndex].maxPax?.message}
+                    </p>
+                  )}
+                </th>
+              ))}
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {seasonFields.map((season, seasonIndex) => (
+              <tr key={season.id} className="border-t align-top">
+                <td className="p-2">
+                  <Input
+                    placeholder="Eg. Peak Season"
+                    className="mb-2"
+                    {...register(`pricing.seasons.${seasonIndex}.name`)}
+                  />
+                  <div className="flex items-center gap-1">
+                    {(["startMonth", "endMonth"] as const).map((key) => (
+                      <Select
+                        key={key}
+                        value={String(
+                          pricing?.seasons?.[seasonIndex]?.[key] ?? 1,
+                        )}
+                        onValueChange={(value) =>
+                          setValue(
+                            `pricing.seasons.${seasonIndex}.${key}`,
+                            Number(value),
+                          )
+                        }
+                      >
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MONTHS.map((month, m) => (
+                            <SelectItem key={month} value={String(m + 1)}>
+                              {month}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+                  </div>
+                  {errors.pricing?.seasons?.[seasonIndex]?.name && (
+                    <p className="text-xs text-red-500">
+                      {errors.pricing.seasons[seasonIndex].name?.message}
+                    </p>
+                  )}
+                </td>
+                {tierFields.map((tier, tierIndex) => (
+                  <td key={tier.id} className="p-2">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      {...register(
+                        `pricing.seasons.${seasonIndex}.rates.${tierIndex}`,
+                        { valueAsNumber: true },
+                      )}
+                    />
+                    {errors.pricing?.seasons?.[seasonIndex]?.rates?.[
+                      tierIndex
+                    ] && (
+                      <p className="text-xs text-red-500">
+                        {
+                          errors.pricing.seasons[seasonIndex].rates[tierIndex]
+                            ?.message
+                        }
+                      </p>
+                    )}
+                  </td>
+                ))}
+                <td className="p-2">
+                  {seasonFields.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      onClick={() => removeSeason(seasonIndex)}
+                    >
+                      <Trash2 className="h-4 w-4 text-foreground/70" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {errors.pricing?.message && (
+        <p className="text-sm text-red-500">{errors.pricing.message}</p>
+      )}
+
+      <div className="flex justify-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addTier}
+          className="rounded-full flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" /> Add Group Tier
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addSeason}
+          className="rounded-full flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" /> Add Season
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="childRate">Child Rate (per child)</Label>
+          <LabelDescription text="Optional. Leave empty if children pay the adult rate." />
+          <Input
+            type="number"
+            step="0.01"
+            {...register("pricing.childRate", { setValueAs: optionalNumber })}
+          />
+          {errors.pricing?.childRate && (
+            <p className="text-sm text-red-500">
+              {errors.pricing.childRate.message}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="singleSupplement">Single Supplement</Label>
+          <LabelDescription text="Optional. Extra charge for a traveler who wants a private room." />
+          <Input
+            type="number"
+            step="0.01"
+            {...register("pricing.singleSupplement", {
+              setValueAs: optionalNumber,
+            })}
+          />
+          {errors.pricing?.singleSupplement && (
+            <p className="text-sm text-red-500">
+              {errors.pricing.singleSupplement.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-gray-100 p-3 rounded-sm text-sm">
+        Listed as{" "}
+        <span className="font-semibold">
+          from {formatPrice(fromPrice, currency)}
+        </span>{" "}
+        per person — the lowest rate across all seasons and group sizes.
+        <ConvertedPrices amount={fromPrice} currency={currency} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  ArrowDownToLine,
+  CheckCircle2,
+  Globe,
+  Loader2,
+  MessageSquare,
+  MessagesSquare,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { TReviewAction, TReviewEntry } from "@/app/(dash)/types/review";
+import {
+  fetchReviewThread,
+  getLatestDecision,
+  postReviewComment,
+} from "@/lib/tripReviews";
+
+const ACTION_STYLES: Record<
+  TReviewAction,
+  { icon: typeof CheckCircle2; text: string; className: string }
+> = {
+  approve: {
+    icon: CheckCircle2,
+    text: "Approved",
+    className: "text-green-600",
+  },
+  reject: { icon: XCircle, text: "Rejected", className: "text-red-600" },
+  publish: { icon: Globe, text: "Published", className: "text-green-600" },
+  unpublish: {
+    icon: ArrowDownToLine,
+    text: "Moved to drafts",
+    className: "text-orange-500",
+  },
+  comment: {
+    icon: MessageSquare,
+    text: "Commented",
+    className: "text-muted-foreground",
+  },
+};
+
+const formatReviewedAt = (date: string) =>
+  new Date(date).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function ReviewEntries({
+  entries,
+}: Readonly<{ entries: TReviewEntry[] }>) {
+  if (!entries.length)
+    return (
+      <p className="text-sm text-muted-foreground">
+        No reviews or status changes yet.
+      </p>
+    );
+
+  return (
+    <ol className="flex flex-col gap-2">
+      {entries.map((entry) => {
+        const { icon: Icon, text, className } = ACTION_STYLES[entry.action];
+        return (
+          <li key={entry.id} className="flex gap-2 border rounded-md p-2">
+            <Icon className={cn("h-4 w-4 mt-0.5 shrink-0", className)} />
+            <div className="flex flex-col gap-1 min-w-0">
+              <p className="text-sm">
+                <span className="font-medium">{text}</span> by{" "}
+                {entry.reviewer?.username ?? "Unknown user"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatReviewedAt(entry.createdAt)}
+              </p>
+              {entry.comment && (
+                <p className="text-sm whitespace-pre-wrap break-words">
+                  {entry.comment}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+type TReviewThreadProps = {
+  activityId: string;
+};
+
+// The reviewers' comments and status log for one trip, with a reply box for
+// the author
+export function ReviewThread({ activityId }: Readonly<TReviewThreadProps>) {
+  const [entries, setEntries] = useState<TReviewEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reply, setReply] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const loadThread = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await fetchReviewThread(activityId));
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activityId]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  const sendReply = async () => {
+    setIsSending(true);
+    try {
+      await postReviewComment(activityId, reply.trim());
+      setReply("");
+      loadThread();
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const decision = getLatestDecision(entries);
+
+  return (
+    <Sheet onOpenChange={(open) => open && loadThread()}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <MessagesSquare className="h-4 w-4" /> Review
+          {decision && (
+            <Badge
+              variant="outline"
+              className={cn(
+                "text-white",
+                decision.action === "reject" ? "bg-red-500" : "bg-green-500",
+              )}
+            >
+              {ACTION_STYLES[decision.action].text}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="sm:max-w-md w-full">
+        <SheetHeader>
+          <SheetTitle>Review</SheetTitle>
+          <SheetDescription>
+            Reviewer comments and every status change, oldest first.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-18rem)] px-4">
+          {isLoading && !entries.length ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <ReviewEntries entries={entries} />
+          )}
+        </ScrollArea>
+
+        <div className="flex flex-col gap-2 px-4">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply to the reviewer"
+            rows={3}
+          />
+          <Button
+            type="button"
+            className="self-end"
+            disabled={!reply.trim() || isSending}
+            onClick={sendReply}
+          >
+            {isSending && <Loader2 className="animate-spin" />}
+            Send reply
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
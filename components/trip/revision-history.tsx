@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { TRevision } from "@/app/(dash)/types/revision";
+import { diffTrips } from "@/lib/tripDiff";
+import { fetchRevisions } from "@/lib/tripRevisions";
+import { FieldChanges } from "@/components/trip/field-changes";
+
+type TRevisionHistoryProps = {
+  activityId: string;
+  onRestore: (snapshot: Record<string, unknown>) => void;
+};
+
+const formatSavedAt = (date: string) =>
+  new Date(date).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function RevisionHistory({
+  activityId,
+  onRestore,
+}: Readonly<TRevisionHistoryProps>) {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<TRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await fetchRevisions(activityId);
+      setRevisions(data);
+      setSelectedId(data[0]?.id ?? null);
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activityId]);
+
+  useEffect(() => {
+    if (open) loadRevisions();
+  }, [open, loadRevisions]);
+
+  const restore = (revision: TRevision) => {
+    onRestore(revision.snapshot);
+    setOpen(false);
+    toast.success(
+      `Version from ${formatSavedAt(revision.createdAt)} restored. Save to keep it.`,
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <History className="h-4 w-4" /> History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="sm:max-w-2xl w-full">
+        <SheetHeader>
+          <SheetTitle>Revision history</SheetTitle>
+          <SheetDescription>
+            Every save keeps a copy of the trip. Changes are shown against the
+            version saved before it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] px-4">
+          {isLoading && (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          )}
+          {!isLoading && !revisions.length && (
+            <p className="text-sm text-muted-foreground">
+              No saved versions yet.
+            </p>
+          )}
+
+          <div className="flex flex-col gap-2 pb-4">
+            {revisions.map((revision, index) => {
+              const previous = revisions[index + 1];
+              const isSelected = revision.id === selectedId;
+              const changes = previous
+                ? diffTrips(previous.snapshot, revision.snapshot)
+                : [];
+              return (
+                <div
+                  key={revision.id}
+                  className={cn(
+                    "border rounded-md p-3",
+                    isSelected && "border-primary",
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      className="text-left"
+                      onClick={() =>
+                        setSelectedId(isSelected ? null : revision.id)
+                      }
+                    >
+                      <p className="font-medium text-sm">
+                        {formatSavedAt(revision.createdAt)}
+                        {index === 0 && (
+                          <Badge variant="secondary" className="ml-2">
+                            Latest
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        by {revision.savedBy?.username ?? "Unknown user"} ·{" "}
+                        {previous
+                          ? `${changes.length} field${changes.length === 1 ? "" : "s"} changed`
+                          : "First saved version"}
+                      </p>
+                    </button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restore(revision)}
+                    >
+                      <RotateCcw className="h-3 w-3" /> Restore this version
+                    </Button>
+                  </div>
+
+                  {isSelected && previous && (
+                    <div className="mt-3 flex flex-col gap-2">
+                      {!changes.length && (
+                        <p className="text-xs text-muted-foreground">
+                          Saved without changes.
+                        </p>
+                      )}
+                      <FieldChanges changes={changes} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
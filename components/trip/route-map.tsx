@@ -0,0 +1,343 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Control,
+  FieldValues,
+  UseFormSetValue,
+  useWatch,
+} from "react-hook-form";
+import { toast } from "sonner";
+import { MapPin, Minus, Plus, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import { TRoutePosition } from "@/app/(dash)/types/route";
+import {
+  TILE_SIZE,
+  addWaypoint,
+  emptyRoute,
+  fitZoom,
+  getRoutePositions,
+  getRouteStats,
+  isLine,
+  isPoint,
+  parseRouteFile,
+  project,
+  tileUrl,
+  unproject,
+} from "@/lib/route";
+
+type TRouteMapProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  setValue: UseFormSetValue<TripFormData>;
+};
+
+const WIDTH = 640;
+const HEIGHT = 360;
+// Centre of Nepal, shown until the route has any points
+const DEFAULT_CENTER: TRoutePosition = [84.124, 28.3949];
+const DEFAULT_ZOOM = 7;
+const DAY_COLORS = [
+  "#2563eb",
+  "#dc2626",
+  "#16a34a",
+  "#9333ea",
+  "#ea580c",
+  "#0891b2",
+  "#db2777",
+];
+
+const dayColor = (day: number | null) =>
+  DAY_COLORS[((day ?? 1) - 1) % DAY_COLORS.length];
+
+export function RouteMap({ control, setValue }: Readonly<TRouteMapProps>) {
+  const route = useWatch({ control, name: "route" });
+  const itinerary = useWatch({ control, name: "itinerary" });
+  const [drawDay, setDrawDay] = useState("1");
+  const [zoomOffset, setZoomOffset] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const positions = getRoutePositions(route);
+  const stats = getRouteStats(route);
+  const hasUpload = !!route?.features.some(
+    (f) => isLine(f) && f.properties.source === "upload",
+  );
+
+  // Fit the route, or fall back to the default view, then apply manual zoom
+  const baseZoom = positions.length
+    ? fitZoom(positions, WIDTH, HEIGHT)
+    : DEFAULT_ZOOM;
+  const zoom = Math.min(Math.max(baseZoom + zoomOffset, 1), 18);
+  const xs = positions.map((p) => project(p, zoom).x);
+  const ys = positions.map((p) => project(p, zoom).y);
+  const center = positions.length
+    ? {
+        x: (Math.min(...xs) + Math.max(...xs)) / 2,
+        y: (Math.min(...ys) + Math.max(...ys)) / 2,
+      }
+    : project(DEFAULT_CENTER, zoom);
+  const origin = { x: center.x - WIDTH / 2, y: center.y - HEIGHT / 2 };
+
+  const toScreen = (position: TRoutePosition) => {
+    const { x, y } = project(position, zoom);
+    return { x: x - origin.x, y: y - origin.y };
+  };
+
+  const tileCount = 2 ** zoom;
+  const tiles = [];
+  for (
+    let ty = Math.floor(origin.y / TILE_SIZE);
+    ty <= Math.floor((origin.y + HEIGHT) / TILE_SIZE);
+    ty++
+  ) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (
+      let tx = Math.floor(origin.x / TILE_SIZE);
+      tx <= Math.floor((origin.x + WIDTH) / TILE_SIZE);
+      tx++
+    ) {
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${tx}-${ty}`,
+        url: tileUrl(zoom, wrappedX, ty),
+        left: tx * TILE_SIZE - origin.x,
+        top: ty * TILE_SIZE - origin.y,
+      });
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setValue("route", await parseRouteFile(file), { shouldDirty: true });
+      setZoomOffset(0);
+      toast.success(`Imported route from ${file.name}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to read route file",
+      );
+    }
+  };
+
+  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (hasUpload) return;
+    // The preview scales with its container, so map back to map pixels
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH + origin.x;
+    const y = ((e.clientY - rect.top) / rect.height) * HEIGHT + origin.y;
+    setValue(
+      "route",
+      addWaypoint(
+        route ?? emptyRoute(),
+        Number(drawDay),
+        unproject(x, y, zoom),
+      ),
+      { shouldDirty: true },
+    );
+  };
+
+  const clearRoute = () => {
+    setValue("route", null, { shouldDirty: true });
+    setZoomOffset(0);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 border rounded-md p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,.kml"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4" /> Upload GPX / KML
+        </Button>
+        {!hasUpload && (
+          <div className="flex items-center gap-2 text-sm">
+            <MapPin className="h-4 w-4" /> Click the map to add waypoints for
+            <Select value={drawDay} onValueChange={setDrawDay}>
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(itinerary ?? []).map((_, i) => (
+                  <SelectItem key={i} value={String(i + 1)}>
+                    Day {i + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex gap-1 ml-auto">
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            onClick={() => setZoomOffset((z) => z + 1)}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            onClick={() => setZoomOffset((z) => z - 1)}
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={!route?.features.length}
+            onClick={clearRoute}
+          >
+            <Trash2 className="h-4 w-4" /> Clear
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className="relative w-full overflow-hidden rounded-sm bg-muted"
+        style={{
+          aspectRatio: `${WIDTH} / ${HEIGHT}`,
+          cursor: hasUpload ? "default" : "crosshair",
+        }}
+        onClick={handleMapClick}
+      >
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="absolute inset-0 w-full h-full"
+        >
+          {tiles.map((tile) => (
+            <image
+              key={tile.key}
+              href={tile.url}
+              x={tile.left}
+              y={tile.top}
+              width={TILE_SIZE}
+              height={TILE_SIZE}
+            />
+          ))}
+          {route?.features.filter(isLine).map((feature, idx) => (
+            <polyline
+              key={idx}
+              points={feature.geometry.coordinates
+                .map((p) => {
+                  const { x, y } = toScreen(p);
+                  return `${x},${y}`;
+                })
+                .join(" ")}
+              fill="none"
+              stroke={dayColor(feature.properties.day)}
+              strokeWidth={3}
+              strokeLinejoin="round"
+            />
+          ))}
+          {route?.features.filter(isPoint).map((feature, idx) => {
+            const { x, y } = toScreen(feature.geometry.coordinates);
+            return (
+              <circle
+                key={idx}
+                cx={x}
+                cy={y}
+                r={4}
+                fill="white"
+                stroke={dayColor(feature.properties.day)}
+                strokeWidth={2}
+              >
+                <title>
+                  {feature.properties.name ||
+                    (feature.properties.day
+                      ? `Day ${feature.properties.day}`
+                      : "Waypoint")}
+                </title>
+              </circle>
+            );
+          })}
+        </svg>
+      </div>
+
+      {stats.segments.length ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-medium py-1">Segment</th>
+              <th className="font-medium py-1 text-right">Distance</th>
+              {stats.hasElevation && (
+                <>
+                  <th className="font-medium py-1 text-right">Gain</th>
+                  <th className="font-medium py-1 text-right">Loss</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {stats.segments.map((segment, idx) => (
+              <tr key={idx} className="border-t">
+                <td className="py-1 flex items-center gap-2">
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ background: dayColor(segment.day) }}
+                  />
+                  {segment.day ? `Day ${segment.day}` : "Track"}
+                </td>
+                <td className="py-1 text-right">
+                  {segment.distanceKm.toFixed(1)} km
+                </td>
+                {stats.hasElevation && (
+                  <>
+                    <td className="py-1 text-right">
+                      +{Math.round(segment.gainM)} m
+                    </td>
+                    <td className="py-1 text-right">
+                      -{Math.round(segment.lossM)} m
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+            <tr className="border-t font-semibold">
+              <td className="py-1">Total</td>
+              <td className="py-1 text-right">
+                {stats.distanceKm.toFixed(1)} km
+              </td>
+              {stats.hasElevation && (
+                <>
+                  <td className="py-1 text-right">
+                    +{Math.round(stats.gainM)} m
+                  </td>
+                  <td className="py-1 text-right">
+                    -{Math.round(stats.lossM)} m
+                  </td>
+                </>
+              )}
+            </tr>
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Upload a GPX or KML track, or click the map to draw each day&apos;s
+          route. Each track in the file becomes one day.
+        </p>
+      )}
+    </div>
+  );
+}
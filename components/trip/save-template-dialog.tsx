@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { LayoutTemplate, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { saveTemplate, toTemplateValues } from "@/lib/tripTemplates";
+
+type TSaveTemplateDialogProps = {
+  // The trip as it would be saved, read when the template is created
+  getTrip: () => Record<string, unknown>;
+};
+
+export function SaveTemplateDialog({
+  getTrip,
+}: Readonly<TSaveTemplateDialogProps>) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (saving) return;
+    if (isOpen) {
+      setName(String(getTrip().title ?? ""));
+      setDescription("");
+    }
+    setOpen(isOpen);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await saveTemplate({
+        name: name.trim(),
+        description: description.trim(),
+        values: toTemplateValues(getTrip()),
+      });
+      toast.success(`Template “${name.trim()}” saved`);
+      setOpen(false);
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <LayoutTemplate className="h-4 w-4" /> Save as template
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Keeps the itinerary, FAQs, additional info, inclusions, exclusions,
+            highlights and SEO fields so new trips can start from them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="templateName">Name</Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Eg. 14-day teahouse trek"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Textarea
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When to use this template"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={saving}
+            onClick={() => setOpen(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={!name.trim() || saving}
+            onClick={save}
+          >
+            {saving && <Loader2 className="animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
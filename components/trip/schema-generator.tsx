@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Control,
+  FieldValues,
+  UseFormRegister,
+  UseFormSetValue,
+  useWatch,
+} from "react-hook-form";
+import { CheckCircle2, ChevronDown, Sparkles, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import {
+  OVERRIDABLE_PROPERTIES,
+  TTripSchemaSource,
+  buildTripNode,
+  buildTripSchema,
+  validateSchemaMarkup,
+} from "@/lib/tripSchema";
+
+type TSchemaGeneratorProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  register: UseFormRegister<TripFormData>;
+  setValue: UseFormSetValue<TripFormData>;
+  getSource: () => TTripSchemaSource;
+};
+
+const getPath = (node: Record<string, unknown>, path: string) => {
+  const value = path
+    .split(".")
+    .reduce<unknown>(
+      (current, key) => (current as Record<string, unknown>)?.[key],
+      node,
+    );
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+export function SchemaGenerator({
+  control,
+  register,
+  setValue,
+  getSource,
+}: Readonly<TSchemaGeneratorProps>) {
+  const [showOverrides, setShowOverrides] = useState(false);
+  const schema = useWatch({ control, name: "seo.schema" });
+  const overrides = useWatch({ control, name: "seo.schemaOverrides" }) ?? {};
+  const issues = validateSchemaMarkup(schema);
+  // Placeholders show what each property would be without an override
+  const generated = showOverrides ? buildTripNode(getSource()) : {};
+
+  const generate = () =>
+    setValue(
+      "seo.schema",
+      JSON.stringify(buildTripSchema(getSource(), overrides), null, 2),
+      { shouldDirty: true, shouldValidate: true },
+    );
+
+  const setOverride = (path: string, value: string) =>
+    setValue(
+      "seo.schemaOverrides",
+      { ...overrides, [path]: value },
+      { shouldDirty: true },
+    );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={generate}>
+          <Sparkles className="h-4 w-4" /> Generate from trip
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => setShowOverrides((open) => !open)}
+        >
+          Override properties
+          <ChevronDown
+            className={cn("h-4 w-4 transition", showOverrides && "rotate-180")}
+          />
+        </Button>
+      </div>
+
+      {showOverrides && (
+        <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
+          {OVERRIDABLE_PROPERTIES.map(({ path, label }) => (
+            <div key={path} className="flex flex-col gap-1">
+              <Label className="text-xs">{label}</Label>
+              <Input
+                value={overrides[path] ?? ""}
+                placeholder={getPath(generated, path) || "Not generated"}
+                onChange={(e) => setOverride(path, e.target.value)}
+              />
+            </div>
+          ))}
+          <p className="col-span-2 text-xs text-muted-foreground">
+            Overrides apply the next time you generate. Leave a field empty to
+            keep the generated value.
+          </p>
+        </div>
+      )}
+
+      <Textarea rows={24} {...register("seo.schema")} />
+
+      {schema?.trim() && (
+        <div
+          className={cn(
+            "border-l-4 rounded-sm text-sm p-2 bg-gray-100",
+            issues.length ? "border-l-red-600" : "border-l-green-600",
+          )}
+        >
+          {issues.length ? (
+            <ul className="flex flex-col gap-1">
+              {issues.map((issue, idx) => (
+                <li key={idx} className="flex items-center gap-2">
+                  <XCircle className="h-4 w-4 text-red-600 shrink-0" />
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+              All required properties are present.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Control,
+  FieldValues,
+  UseFormGetValues,
+  UseFormSetValue,
+  useWatch,
+} from "react-hook-form";
+import Link from "next/link";
+import { Check, LibraryBig } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import { TSnippet, TSnippetType } from "@/app/(dash)/types/snippet";
+import { cn } from "@/lib/utils";
+import {
+  appendSnippet,
+  fetchSnippets,
+  getSnippetField,
+  usesSnippet,
+} from "@/lib/snippets";
+
+type TSnippetPickerProps = {
+  type: TSnippetType;
+  control: Control<TripFormData, unknown, FieldValues>;
+  getValues: UseFormGetValues<TripFormData>;
+  setValue: UseFormSetValue<TripFormData>;
+};
+
+const groupByCategory = (snippets: TSnippet[]) =>
+  snippets.reduce<Record<string, TSnippet[]>>((groups, snippet) => {
+    const category = snippet.category || "Other";
+    (groups[category] ??= []).push(snippet);
+    return groups;
+  }, {});
+
+export function SnippetPicker({
+  type,
+  control,
+  getValues,
+  setValue,
+}: Readonly<TSnippetPickerProps>) {
+  const field = getSnippetField(type);
+  const value = useWatch({ control, name: field });
+  const [open, setOpen] = useState(false);
+  const [snippets, setSnippets] = useState<TSnippet[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setSnippets(await fetchSnippets(type));
+      } catch (e) {
+        console.error("Failed to fetch snippets", e);
+      }
+    })();
+  }, [type]);
+
+  const insert = (text: string) =>
+    setValue(field, appendSnippet(getValues(field), text), {
+      shouldDirty: true,
+    });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="w-fit">
+          <LibraryBig /> Add from library
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search snippets..." />
+          <CommandList className="max-h-72">
+            <CommandEmpty>
+              No snippets found.{" "}
+              <Link href="/snippets" className="underline">
+                Manage library
+              </Link>
+            </CommandEmpty>
+            {Object.entries(groupByCategory(snippets)).map(
+              ([category, items]) => (
+                <CommandGroup key={category} heading={category}>
+                  {items.map((snippet) => {
+                    const used = usesSnippet(value, snippet.text);
+                    return (
+                      <CommandItem
+                        key={snippet.id}
+                        value={`${category} ${snippet.text}`}
+                        disabled={used}
+                        onSelect={() => insert(snippet.text)}
+                      >
+                        <Check
+                          className={cn(
+                            "h-4 w-4",
+                            used ? "opacity-100" : "opacity-0",
+                          )}
+                        />
+                        {snippet.text}
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              ),
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
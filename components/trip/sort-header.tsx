@@ -0,0 +1,45 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TTripSortField } from "@/app/(dash)/types/tripFilters";
+import { parseTripFilters, toTripSearchParams } from "@/lib/tripFilters";
+
+type TSortHeaderProps = {
+  field: TTripSortField;
+  label: string;
+};
+
+// Cycles ascending -> descending -> unsorted, keeping the other filters
+export function SortHeader({ field, label }: Readonly<TSortHeaderProps>) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const filters = parseTripFilters(searchParams);
+  const limit = Number(searchParams.get("limit") ?? "10");
+  const active = filters.sort === field;
+
+  const toggle = () => {
+    const next = !active
+      ? { sort: field, order: "asc" as const }
+      : filters.order === "asc"
+        ? { sort: field, order: "desc" as const }
+        : { sort: "" as const, order: "asc" as const };
+    router.push(`?${toTripSearchParams({ ...filters, ...next }, 1, limit)}`, {
+      scroll: false,
+    });
+  };
+
+  const Icon = !active
+    ? ArrowUpDown
+    : filters.order === "asc"
+      ? ArrowUp
+      : ArrowDown;
+
+  return (
+    <Button variant="ghost" size="sm" className="-ml-3" onClick={toggle}>
+      {label}
+      <Icon className={active ? "" : "text-muted-foreground"} />
+    </Button>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Control,
+  FieldErrors,
+  FieldValues,
+  UseFormRegister,
+  useFieldArray,
+  useWatch,
+} from "react-hook-form";
+import Link from "next/link";
+import { Check, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import LabelDescription from "@/components/atoms/label-description";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import { TAddOn } from "@/app/(dash)/types/addOn";
+import { cn } from "@/lib/utils";
+import {
+  fetchAddOns,
+  formatAddOnPrice,
+  getAddOnPrice,
+  getAddOnUnitLabel,
+} from "@/lib/addOns";
+
+type TTripAddOnsProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  register: UseFormRegister<TripFormData>;
+  errors: FieldErrors<TripFormData>;
+};
+
+const optionalNumber = (v: unknown) =>
+  v === "" || v === null || v === undefined ? null : Number(v);
+
+export function TripAddOns({
+  control,
+  register,
+  errors,
+}: Readonly<TTripAddOnsProps>) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: "addOns",
+  });
+  const tripAddOns = useWatch({ control, name: "addOns" });
+  const [catalogue, setCatalogue] = useState<TAddOn[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setCatalogue(await fetchAddOns());
+      } catch (e) {
+        console.error("Failed to fetch add-ons", e);
+      }
+    })();
+  }, []);
+
+  const findAddOn = (id: string) => catalogue.find((a) => a.id === id);
+  const isAttached = (id: string) =>
+    (tripAddOns ?? []).some((a) => a.addOnId === id);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-end justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <Label>Add-ons</Label>
+          <LabelDescription text="Optional extras travelers can book with this trip. Leave the override empty to use the catalogue price." />
+        </div>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm">
+              <Plus /> Add add-on
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-96 p-0" align="end">
+            <Command>
+              <CommandInput placeholder="Search add-ons..." />
+              <CommandList className="max-h-72">
+                <CommandEmpty>
+                  No add-ons found.{" "}
+                  <Link href="/add-ons" className="underline">
+                    Manage add-ons
+                  </Link>
+                </CommandEmpty>
+                <CommandGroup>
+                  {catalogue.map((addOn) => {
+                    const used = isAttached(addOn.id);
+                    return (
+                      <CommandItem
+                        key={addOn.id}
+                        value={`${addOn.name} ${addOn.id}`}
+                        disabled={used}
+                        onSelect={() => {
+                          append({ addOnId: addOn.id, priceOverride: null });
+                          setOpen(false);
+                        }}
+                      >
+                        <Check
+                          className={cn(
+                            "h-4 w-4",
+                            used ? "opacity-100" : "opacity-0",
+                          )}
+                        />
+                        <span className="flex-1">{addOn.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatAddOnPrice(addOn, addOn.price)}
+                        </span>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {!fields.length && (
+        <p className="text-sm text-muted-foreground">No add-ons attached.</p>
+      )}
+
+      {fields.map((field, index) => {
+        const addOn = findAddOn(field.addOnId);
+        const tripAddOn = tripAddOns?.[index];
+        return (
+          <div
+            key={field.id}
+            className="grid grid-cols-[1fr_14rem_auto] items-start gap-4 rounded-md border p-3"
+          >
+            <div className="flex flex-col gap-1 min-w-0">
+              <p className="font-medium">
+                {addOn?.name ??
+                  (catalogue.length ? "Add-on no longer exists" : "Loading...")}
+              </p>
+              {addOn && (
+                <>
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    {addOn.description}
+                  </p>
+                  <p className="text-sm">
+                    {formatAddOnPrice(addOn, getAddOnPrice(addOn, tripAddOn))}
+                    {tripAddOn?.priceOverride != null && (
+                      <span className="ml-2 text-muted-foreground line-through">
+                        {formatAddOnPrice(addOn, addOn.price)}
+                      </span>
+                    )}
+                  </p>
+                </>
+              )}
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label
+                htmlFor={`addOns.${index}.priceOverride`}
+                className="text-xs"
+              >
+                Price override
+                {addOn &&
+                  ` (${addOn.currency} ${getAddOnUnitLabel(addOn.unit).toLowerCase()})`}
+              </Label>
+              <Input
+                id={`addOns.${index}.priceOverride`}
+                type="number"
+                step="0.01"
+                placeholder={addOn ? String(addOn.price) : ""}
+                {...register(`addOns.${index}.priceOverride` as const, {
+                  setValueAs: optionalNumber,
+                })}
+              />
+              {errors.addOns?.[index]?.priceOverride && (
+                <p className="text-sm text-red-500">
+                  {errors.addOns[index].priceOverride?.message}
+                </p>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-5"
+              onClick={() => remove(index)}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
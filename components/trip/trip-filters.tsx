@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LucideSearch, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getCities,
+  getRegions,
+  getTripCategories,
+  getTripTypes,
+} from "@/app/actions";
+import { TripDifficulty } from "@/app/(dash)/enums/tripDifficulty.enum";
+import { TTripFilters } from "@/app/(dash)/types/tripFilters";
+import { EMPTY_TRIP_FILTERS, countActiveFilters } from "@/lib/tripFilters";
+import { localeOptions } from "@/lib/translations";
+
+type TTripFiltersProps = {
+  filters: TTripFilters;
+  onChange: (filters: TTripFilters) => void;
+};
+
+type TOption = { value: string; label: string };
+
+// Radix selects cannot hold an empty value
+const ANY = "__any";
+const SEARCH_DELAY_MS = 400;
+
+const STATUS_OPTIONS: TOption[] = [
+  { value: "PUBLISHED", label: "Published" },
+  { value: "DRAFT", label: "Draft" },
+  { value: "REJECTED", label: "Rejected" },
+];
+
+const DIFFICULTY_OPTIONS: TOption[] = Object.values(TripDifficulty).map(
+  (level) => ({
+    value: level,
+    label: level.charAt(0) + level.slice(1).toLowerCase(),
+  }),
+);
+
+const MISSING_TRANSLATION_OPTIONS: TOption[] = localeOptions.map((locale) => ({
+  value: locale.value,
+  label: `Missing ${locale.label}`,
+}));
+
+const toOptions = (items: Record<string, string>[] = [], nameKey: string) =>
+  items.map((item) => ({ value: String(item.id), label: item[nameKey] }));
+
+export function TripFilters({
+  filters,
+  onChange,
+}: Readonly<TTripFiltersProps>) {
+  const [search, setSearch] = useState(filters.q);
+  const [options, setOptions] = useState<Record<string, TOption[]>>({});
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [catData, typeData, cityData, regionData] = await Promise.all([
+          getTripCategories(),
+          getTripTypes(),
+          getCities(),
+          getRegions(),
+        ]);
+        setOptions({
+          category: toOptions(catData?.data?.tripCategories, "categoryName"),
+          type: toOptions(typeData?.data?.tripTypes, "tripTypeName"),
+          destination: toOptions(cityData?.data?.cities, "cityName"),
+          region: toOptions(regionData?.data?.regions, "regionName"),
+        });
+      } catch (e) {
+        console.error("Failed to fetch options", e);
+      }
+    })();
+  }, []);
+
+  // Search as the editor types, without a request per keystroke
+  useEffect(() => {
+    if (search.trim() === filters.q) return;
+    const timer = setTimeout(
+      () => onChange({ ...filters, q: search.trim() }),
+      SEARCH_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [search, filters, onChange]);
+
+  const set = (key: keyof TTripFilters, value: string) =>
+    onChange({ ...filters, [key]: value });
+
+  const clearAll = () => {
+    setSearch("");
+    onChange({
+      ...EMPTY_TRIP_FILTERS,
+      sort: filters.sort,
+      order: filters.order,
+    });
+  };
+
+  const selectFilter = (
+    key: keyof TTripFilters,
+    placeholder: string,
+    items: TOption[] = [],
+  ) => (
+    <Select
+      value={filters[key] || ANY}
+      onValueChange={(value) => set(key, value === ANY ? "" : value)}
+    >
+      <SelectTrigger className="w-40">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any {placeholder.toLowerCase()}</SelectItem>
+        {items.map((item) => (
+          <SelectItem key={item.value} value={item.value}>
+            {item.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  // Ranges apply on blur or Enter so half-typed numbers don't trigger a fetch
+  const rangeInput = (key: keyof TTripFilters, placeholder: string) => (
+    <Input
+      key={`${key}-${filters[key]}`}
+      type="number"
+      min={0}
+      defaultValue={filters[key]}
+      placeholder={placeholder}
+      className="w-24"
+      onBlur={(e) => {
+        if (e.target.value !== filters[key]) set(key, e.target.value);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+    />
+  );
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative">
+        <Input
+          placeholder="Search title, slug or locations..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-md pl-8"
+        />
+        <LucideSearch className="absolute top-2 left-2 h-4 w-4 text-gray-400" />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {selectFilter("status", "Status", STATUS_OPTIONS)}
+        {selectFilter("category", "Category", options.category)}
+        {selectFilter("type", "Activity type", options.type)}
+        {selectFilter("region", "Region", options.region)}
+        {selectFilter("destination", "Destination", options.destination)}
+        {selectFilter("difficulty", "Difficulty", DIFFICULTY_OPTIONS)}
+        {selectFilter("missing", "Translation", MISSING_TRANSLATION_OPTIONS)}
+        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+          Price {rangeInput("minPrice", "Min")} –{" "}
+          {rangeInput("maxPrice", "Max")}
+        </div>
+        <div className="flex items-center gap-1 text-sm text-muted-foreground">
+          Days {rangeInput("minDays", "Min")} – {rangeInput("maxDays", "Max")}
+        </div>
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={clearAll}>
+            <X /> Clear {activeCount} filter{activeCount === 1 ? "" : "s"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Control,
+  FieldValues,
+  UseFormSetValue,
+  useWatch,
+} from "react-hook-form";
+import Image from "next/image";
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Check, GripVertical, Plus, Sparkles, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import {
+  TExtensionTiming,
+  TTripCandidate,
+  TTripLinkGroup,
+  TTripLinks,
+} from "@/app/(dash)/types/tripLinks";
+import { cn } from "@/lib/utils";
+import { getFullImageUrl } from "@/lib/getFullImageUrl";
+import { fetchAllTrips } from "@/lib/tripExport";
+import {
+  EMPTY_TRIP_LINKS,
+  EXTENSION_TIMINGS,
+  TRIP_LINK_GROUPS,
+  addTripLink,
+  isLinked,
+  suggestRelatedTrips,
+  toTripCandidate,
+} from "@/lib/tripLinks";
+
+type TTripLinksEditorProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  setValue: UseFormSetValue<TripFormData>;
+  // Only set when editing; a new trip can't link to itself anyway
+  tripId: string | null;
+  regionId: string | null;
+  tripCategoryId: string | null;
+  featuredTagIds: string[];
+  // The other trips are only fetched once the step is first opened
+  active: boolean;
+};
+
+function SortableLink({
+  id,
+  children,
+}: {
+  id: string;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <li ref={setNodeRef} style={style}>
+      {children(
+        <div {...attributes} {...listeners} className="cursor-move">
+          <GripVertical className="w-4 h-4 text-gray-400 hover:text-gray-600" />
+        </div>,
+      )}
+    </li>
+  );
+}
+
+function TripThumb({ trip }: Readonly<{ trip?: TTripCandidate }>) {
+  return (
+    <div className="relative h-10 w-14 shrink-0 overflow-hidden rounded-sm bg-muted">
+      {trip?.cover && (
+        <Image
+          fill
+          src={getFullImageUrl(trip.cover)}
+          alt={trip.title}
+          className="object-cover"
+          unoptimized
+        />
+      )}
+    </div>
+  );
+}
+
+export function TripLinksEditor({
+  control,
+  setValue,
+  tripId,
+  regionId,
+  tripCategoryId,
+  featuredTagIds,
+  active,
+}: Readonly<TTripLinksEditorProps>) {
+  const links = useWatch({ control, name: "tripLinks" }) ?? EMPTY_TRIP_LINKS;
+  const [candidates, setCandidates] = useState<TTripCandidate[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [openGroup, setOpenGroup] = useState<TTripLinkGroup | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  useEffect(() => {
+    if (!active || candidates || isLoading) return;
+    (async () => {
+      setIsLoading(true);
+      try {
+        const trips = await fetchAllTrips();
+        setCandidates(trips.map(toTripCandidate));
+      } catch (e) {
+        console.error("Failed to fetch trips", e);
+        setCandidates([]);
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [active, candidates, isLoading]);
+
+  const others = (candidates ?? []).filter((trip) => trip.id !== tripId);
+  const findTrip = (id: string) => others.find((trip) => trip.id === id);
+
+  const update = (next: TTripLinks) =>
+    setValue("tripLinks", next, { shouldDirty: true });
+
+  const add = (group: TTripLinkGroup, activityId: string) =>
+    update(addTripLink(links, group, activityId));
+
+  const remove = (group: TTripLinkGroup, activityId: string) =>
+    update({
+      ...links,
+      [group]: links[group].filter((link) => link.activityId !== activityId),
+    });
+
+  const setTiming = (activityId: string, timing: TExtensionTiming) =>
+    update({
+      ...links,
+      extensions: links.extensions.map((link) =>
+        link.activityId === activityId ? { ...link, timing } : link,
+      ),
+    });
+
+  const handleDragEnd =
+    (group: TTripLinkGroup) =>
+    ({ active, over }: DragEndEvent) => {
+      if (!over || active.id === over.id) return;
+      const list = links[group];
+      update({
+        ...links,
+        [group]: arrayMove(
+          list,
+          list.findIndex((link) => link.activityId === active.id),
+          list.findIndex((link) => link.activityId === over.id),
+        ),
+      });
+    };
+
+  const suggestions = suggestRelatedTrips(
+    {
+      id: tripId ?? "",
+      // Ids may come back from the API as numbers
+      regionId: String(regionId ?? ""),
+      tripCategoryId: String(tripCategoryId ?? ""),
+      featuredTagIds: featuredTagIds.map(String),
+    },
+    others,
+    links,
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      {TRIP_LINK_GROUPS.map((group) => (
+        <Card key={group.value}>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="flex flex-col gap-1">
+              <CardTitle>{group.label}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {group.description}
+              </p>
+            </div>
+            <Popover
+              open={openGroup === group.value}
+              onOpenChange={(open) => setOpenGroup(open ? group.value : null)}
+            >
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" size="sm">
+                  <Plus /> Add trip
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-96 p-0" align="end">
+                <Command>
+                  <CommandInput placeholder="Search trips..." />
+                  <CommandList className="max-h-72">
+                    <CommandEmpty>
+                      {isLoading ? "Loading trips..." : "No trips found."}
+                    </CommandEmpty>
+                    <CommandGroup>
+                      {others.map((trip) => {
+                        const used = isLinked(links, trip.id);
+                        return (
+                          <CommandItem
+                            key={trip.id}
+                            value={`${trip.title} ${trip.id}`}
+                            disabled={used}
+                            onSelect={() => {
+                              add(group.value, trip.id);
+                              setOpenGroup(null);
+                            }}
+                          >
+                            <Check
+                              className={cn(
+                                "h-4 w-4",
+                                used ? "opacity-100" : "opacity-0",
+                              )}
+                            />
+                            {trip.title}
+                          </CommandItem>
+                        );
+                      })}
+                    </CommandGroup>
+                  </CommandList>
+                </Command>
+              </PopoverContent>
+            </Popover>
+          </CardHeader>
+          <CardContent>
+            {!links[group.value].length ? (
+              <p className="text-sm text-muted-foreground">
+                No trips added yet.
+              </p>
+            ) : (
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleDragEnd(group.value)}
+              >
+                <SortableContext
+                  items={links[group.value].map((link) => link.activityId)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <ol className="flex flex-col gap-2">
+                    {links[group.value].map((link) => {
+                      const trip = findTrip(link.activityId);
+                      return (
+                        <SortableLink
+                          key={link.activityId}
+                          id={link.activityId}
+                        >
+                          {(handle) => (
+                            <div className="flex items-center gap-3 rounded-md border p-2">
+                              {handle}
+                              <TripThumb trip={trip} />
+                              <div className="flex flex-col min-w-0 flex-1">
+                                <p className="text-sm font-medium truncate">
+                                  {trip?.title ??
+                                    (candidates
+                                      ? "Trip no longer exists"
+                                      : "Loading...")}
+                                </p>
+                                {trip && trip.status !== "PUBLISHED" && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Hidden from travelers until it is published
+                                  </p>
+                                )}
+                              </div>
+                              {group.value === "extensions" && (
+                                <Select
+                                  value={link.timing ?? "post"}
+                                  onValueChange={(value) =>
+                                    setTiming(
+                                      link.activityId,
+                                      value as TExtensionTiming,
+                                    )
+                                  }
+                                >
+                                  <SelectTrigger className="w-32">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {EXTENSION_TIMINGS.map((timing) => (
+                                      <SelectItem
+                                        key={timing.value}
+                                        value={timing.value}
+                                      >
+                                        {timing.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              )}
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() =>
+                                  remove(group.value, link.activityId)
+                                }
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </div>
+                          )}
+                        </SortableLink>
+                      );
+                    })}
+                  </ol>
+                </SortableContext>
+              </DndContext>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4" /> Suggested related trips
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Trips in the same region or category, or with the same featured
+            tags, as set in the earlier steps.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !suggestions.length ? (
+            <p className="text-sm text-muted-foreground">
+              No suggestions. Set the region, category or featured tags to get
+              some.
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {suggestions.map(({ trip, reasons }) => (
+                <li
+                  key={trip.id}
+                  className="flex items-center gap-3 rounded-md border p-2"
+                >
+                  <TripThumb trip={trip} />
+                  <div className="flex flex-col min-w-0 flex-1 gap-1">
+                    <p className="text-sm font-medium truncate">{trip.title}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {reasons.map((reason) => (
+                        <Badge key={reason} variant="secondary">
+                          {reason}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => add("related", trip.id)}
+                  >
+                    <Plus /> Add
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
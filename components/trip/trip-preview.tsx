@@ -0,0 +1,312 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Control, FieldValues, useWatch } from "react-hook-form";
+import { Monitor, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { cn } from "@/lib/utils";
+import { getLines } from "@/lib/htmlLines";
+import { formatPrice } from "@/lib/currency";
+import { getFromPrice } from "@/lib/tripPricing";
+import { formatDepartureDate, getNextDeparture } from "@/lib/departures";
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+import { TTripPricing } from "@/app/(dash)/types/pricing";
+import { TDeparture } from "@/app/(dash)/types/departure";
+import { TripDifficulty } from "@/app/(dash)/enums/tripDifficulty.enum";
+import { TPaymentPolicy } from "@/app/(dash)/types/paymentPolicy";
+import { getPolicySummaryLines } from "@/lib/paymentPolicies";
+
+type TPreviewDevice = "desktop" | "mobile";
+
+type TTripPreviewProps = {
+  control: Control<TripFormData, unknown, FieldValues>;
+  // Kept outside the form, so they are passed in alongside it
+  images: string[];
+  difficulty: TripDifficulty;
+  paymentPolicy?: TPaymentPolicy;
+};
+
+// Rich text fields hold Quill HTML; only their text lines are rendered, so
+// pasted or imported markup never runs in the admin session
+const RichText = ({ html }: { html?: string }) => (
+  <div className="text-sm leading-relaxed flex flex-col gap-2">
+    {getLines(html).map((line, i) => (
+      <p key={i}>{line}</p>
+    ))}
+  </div>
+);
+
+const PreviewSection = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <section className="flex flex-col gap-2">
+    <h2 className="text-lg font-bold">{title}</h2>
+    {children}
+  </section>
+);
+
+export function TripPreview({
+  control,
+  images,
+  difficulty,
+  paymentPolicy,
+}: Readonly<TTripPreviewProps>) {
+  const [device, setDevice] = useState<TPreviewDevice>("desktop");
+  // Subscribes here so typing re-renders the preview, not the whole editor
+  const values = useWatch({ control });
+  const isMobile = device === "mobile";
+
+  const glanceFacts = [
+    { label: "Duration", value: values.duration },
+    { label: "Difficulty", value: difficulty },
+    { label: "Max altitude", value: values.maximumAltitude },
+    { label: "Group size", value: values.groupSize },
+    { label: "Accommodation", value: values.accommodations },
+    { label: "Meals", value: values.meals },
+    { label: "Transportation", value: values.transportation },
+    { label: "Best season", value: values.bestSeason },
+  ].filter((fact) => fact.value);
+
+  const highlights = getLines(values.highlights);
+  const inclusions = getLines(values.inclusions);
+  const exclusions = getLines(values.exclusions);
+  const itinerary = (values.itinerary ?? []).filter((day) => day?.title);
+  const faqs = (values.faqs ?? []).filter((faq) => faq?.question);
+  const fromPrice = getFromPrice(values.pricing as TTripPricing);
+  const nextDeparture = getNextDeparture(values.departures as TDeparture[]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">Public page preview</p>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant={isMobile ? "outline" : "default"}
+            onClick={() => setDevice("desktop")}
+          >
+            <Monitor className="h-4 w-4" /> Desktop
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={isMobile ? "default" : "outline"}
+            onClick={() => setDevice("mobile")}
+          >
+            <Smartphone className="h-4 w-4" /> Mobile
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className={cn(
+          "border rounded-md bg-background overflow-hidden mx-auto w-full transition-all",
+          isMobile && "max-w-[390px]",
+        )}
+      >
+        {images.length > 0 ? (
+          <div
+            className={cn(
+              "grid gap-1",
+              !isMobile && images.length > 1 && "grid-cols-4 grid-rows-2",
+            )}
+          >
+            {images.slice(0, isMobile ? 1 : 5).map((url, idx) => (
+              <div
+                key={url}
+                className={cn(
+                  "relative h-32",
+                  idx === 0 && "h-64",
+                  idx === 0 &&
+                    !isMobile &&
+                    images.length > 1 &&
+                    "col-span-2 row-span-2",
+                )}
+              >
+                <Image
+                  fill
+                  src={url}
+                  alt={`${values.title || "Trip"} ${idx + 1}`}
+                  className="object-cover"
+                  unoptimized
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="h-48 bg-muted flex items-center justify-center text-sm text-muted-foreground">
+            Upload images in step 6 to see the hero gallery
+          </div>
+        )}
+
+        <div
+          className={cn(
+            "p-4 gap-6",
+            isMobile ? "flex flex-col" : "grid grid-cols-3",
+          )}
+        >
+          <div className={cn("flex flex-col gap-6", !isMobile && "col-span-2")}>
+            <div>
+              <h1 className="text-2xl font-bold">
+                {values.title || "Untitled trip"}
+              </h1>
+              {values.locations && (
+                <p className="text-sm text-muted-foreground">
+                  {values.locations}
+                </p>
+              )}
+            </div>
+
+            {glanceFacts.length > 0 && (
+              <PreviewSection title="Trip at a glance">
+                <div
+                  className={cn(
+                    "grid gap-2",
+                    isMobile ? "grid-cols-2" : "grid-cols-4",
+                  )}
+                >
+                  {glanceFacts.map((fact) => (
+                    <div key={fact.label} className="bg-muted rounded-md p-2">
+                      <p className="text-xs text-muted-foreground">
+                        {fact.label}
+                      </p>
+                      <p className="text-sm font-medium capitalize">
+                        {String(fact.value).toLowerCase()}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </PreviewSection>
+            )}
+
+            <PreviewSection title="Overview">
+              <RichText html={values.shortDescription} />
+              <RichText html={values.fullDescription} />
+            </PreviewSection>
+
+            {highlights.length > 0 && (
+              <PreviewSection title="Highlights">
+                <ul className="list-disc pl-5 text-sm">
+                  {highlights.map((item, idx) => (
+                    <li key={idx}>{item}</li>
+                  ))}
+                </ul>
+              </PreviewSection>
+            )}
+
+            {itinerary.length > 0 && (
+              <PreviewSection title="Itinerary">
+                <Accordion type="multiple">
+                  {itinerary.map((day, idx) => (
+                    <AccordionItem key={idx} value={`day-${idx}`}>
+                      <AccordionTrigger>
+                        Day {day.day ?? idx + 1}: {day.title}
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <RichText html={day.description} />
+                        <p className="text-xs text-muted-foreground">
+                          {[
+                            day.duration,
+                            day.distance,
+                            day.meals,
+                            day.accommodations,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </PreviewSection>
+            )}
+
+            {(inclusions.length > 0 || exclusions.length > 0) && (
+              <PreviewSection title="What's included">
+                <div
+                  className={cn(
+                    "grid gap-4 text-sm",
+                    !isMobile && "grid-cols-2",
+                  )}
+                >
+                  <ul className="flex flex-col gap-1">
+                    {inclusions.map((item, idx) => (
+                      <li key={idx} className="text-green-700">
+                        ✓ {item}
+                      </li>
+                    ))}
+                  </ul>
+                  <ul className="flex flex-col gap-1">
+                    {exclusions.map((item, idx) => (
+                      <li key={idx} className="text-red-700">
+                        ✕ {item}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </PreviewSection>
+            )}
+
+            {faqs.length > 0 && (
+              <PreviewSection title="FAQs">
+                <Accordion type="single" collapsible>
+                  {faqs.map((faq, idx) => (
+                    <AccordionItem key={idx} value={`faq-${idx}`}>
+                      <AccordionTrigger>{faq.question}</AccordionTrigger>
+                      <AccordionContent>
+                        <RichText html={faq.answer} />
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </PreviewSection>
+            )}
+
+            {paymentPolicy && (
+              <PreviewSection title="Payment and cancellation">
+                <ul className="list-disc pl-5 text-sm">
+                  {getPolicySummaryLines(paymentPolicy).map((line, idx) => (
+                    <li key={idx}>{line}</li>
+                  ))}
+                </ul>
+              </PreviewSection>
+            )}
+          </div>
+
+          <aside
+            className={cn(
+              "border rounded-md p-4 flex flex-col gap-2 h-fit",
+              isMobile ? "order-first" : "sticky top-4",
+            )}
+          >
+            <p className="text-xs text-muted-foreground">From</p>
+            <p className="text-2xl font-bold">
+              {fromPrice ? formatPrice(fromPrice, values.currency) : "—"}
+            </p>
+            <p className="text-xs text-muted-foreground">per person</p>
+            {nextDeparture && (
+              <p className="text-sm">
+                Next departure: {formatDepartureDate(nextDeparture.startDate)}
+              </p>
+            )}
+            <Button type="button" className="w-full" disabled>
+              Book now
+            </Button>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import * as React from "react";
+import { TCurrencySettings } from "@/app/(dash)/types/currency";
+
+// Shared across every price cell on a page so the settings load only once
+let settingsRequest: Promise<TCurrencySettings | null> | null = null;
+
+export async function fetchCurrencySettings() {
+  try {
+    const res = await fetch(
+      `${process.env.NEXT_PUBLIC_API_BASE_URL}/currency-settings`,
+      { cache: "no-store" },
+    );
+    if (!res.ok) throw new Error("Failed to fetch currency settings");
+    const data = await res.json();
+    return (data?.data?.settings ?? null) as TCurrencySettings | null;
+  } catch (error) {
+    console.error("Error fetching currency settings:", error);
+    return null;
+  }
+}
+
+export function clearCurrencySettingsCache() {
+  settingsRequest = null;
+}
+
+export function useCurrencySettings() {
+  const [settings, setSettings] = React.useState<TCurrencySettings | null>(
+    null,
+  );
+
+  React.useEffect(() => {
+    let mounted = true;
+    settingsRequest ??= fetchCurrencySettings();
+    settingsRequest.then((s) => {
+      // Don't keep a failed load around; the next page can try again
+      if (!s) settingsRequest = null;
+      if (mounted) setSettings(s);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return settings;
+}
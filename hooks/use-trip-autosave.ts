@@ -0,0 +1,69 @@
+import * as React from "react";
+import { TTripDraft } from "@/app/(dash)/types/draft";
+import { deleteDraft, saveDraft } from "@/lib/tripDraft";
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+type TUseTripAutosaveOptions = {
+  draftKey: string;
+  // Stays off until any existing draft has been restored or resolved
+  enabled: boolean;
+  getDraft: () => TTripDraft;
+};
+
+export function useTripAutosave({
+  draftKey,
+  enabled,
+  getDraft,
+}: TUseTripAutosaveOptions) {
+  const [lastSavedAt, setLastSavedAt] = React.useState<Date | null>(null);
+  const getDraftRef = React.useRef(getDraft);
+  const lastSavedRef = React.useRef<string | null>(null);
+  const stoppedRef = React.useRef(false);
+  const pendingSaveRef = React.useRef<Promise<unknown> | null>(null);
+
+  React.useEffect(() => {
+    getDraftRef.current = getDraft;
+  });
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    // Whatever is on screen when autosave starts is already saved somewhere
+    lastSavedRef.current ??= JSON.stringify(getDraftRef.current().values);
+
+    const timer = setInterval(async () => {
+      if (stoppedRef.current) return;
+      const draft = getDraftRef.current();
+      const serialized = JSON.stringify(draft.values);
+      if (serialized === lastSavedRef.current) return;
+      lastSavedRef.current = serialized;
+      const save = saveDraft(draftKey, draft);
+      pendingSaveRef.current = save;
+      try {
+        await save;
+        setLastSavedAt(new Date());
+      } catch (error) {
+        lastSavedRef.current = null;
+        console.error("Autosave failed:", error);
+      } finally {
+        if (pendingSaveRef.current === save) pendingSaveRef.current = null;
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [draftKey, enabled]);
+
+  // Called once the trip itself is saved, so the draft is not restored again
+  const clearDraft = React.useCallback(async () => {
+    stoppedRef.current = true;
+    try {
+      // A save still in flight could land after the delete and restore it
+      await pendingSaveRef.current?.catch(() => null);
+      await deleteDraft(draftKey);
+    } catch (error) {
+      console.error(error);
+    }
+  }, [draftKey]);
+
+  return { lastSavedAt, clearDraft };
+}
@@ -0,0 +1,76 @@
+import { AddOnUnit } from "@/app/(dash)/enums/addOnUnit.enum";
+import { TAddOn, TAddOnInput, TTripAddOn } from "@/app/(dash)/types/addOn";
+import { formatPrice } from "@/lib/currency";
+import { toStringId, withStringIds } from "@/lib/stringIds";
+
+type TRecord = Record<string, unknown>;
+
+const API = `${process.env.NEXT_PUBLIC_API_BASE_URL}/add-ons`;
+
+export const ADD_ON_UNITS: { value: AddOnUnit; label: string }[] = [
+  { value: AddOnUnit.PER_PERSON, label: "Per person" },
+  { value: AddOnUnit.PER_GROUP, label: "Per group" },
+  { value: AddOnUnit.PER_DAY, label: "Per day" },
+];
+
+export const getAddOnUnitLabel = (unit: AddOnUnit) =>
+  ADD_ON_UNITS.find((u) => u.value === unit)?.label ?? unit;
+
+// Eg. "$45 per person"
+export const formatAddOnPrice = (
+  addOn: Pick<TAddOn, "unit" | "currency">,
+  price: number,
+) =>
+  `${formatPrice(price, addOn.currency)} ${getAddOnUnitLabel(addOn.unit).toLowerCase()}`;
+
+export const getAddOnPrice = (addOn: TAddOn, tripAddOn?: TTripAddOn) =>
+  tripAddOn?.priceOverride ?? addOn.price;
+
+// Trips saved before add-ons existed have none
+export const toTripAddOns = (value: unknown): TTripAddOn[] =>
+  Array.isArray(value)
+    ? value.flatMap((item: TRecord): TTripAddOn[] => {
+        const addOnId = toStringId(item?.addOnId);
+        if (!addOnId) return [];
+        const override = item.priceOverride;
+        const price =
+          override === null || override === "" ? NaN : Number(override);
+        return [
+          {
+            addOnId,
+            priceOverride: Number.isFinite(price) ? price : null,
+          },
+        ];
+      })
+    : [];
+
+export async function fetchAddOns() {
+  const res = await fetch(API, {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch add-ons");
+  const data = await res.json();
+  return withStringIds((data?.data?.addOns ?? []) as TAddOn[]);
+}
+
+export async function saveAddOn(input: TAddOnInput, id?: string) {
+  const res = await fetch(id ? `${API}/${id}` : API, {
+    method: id ? "PATCH" : "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Failed to save add-on");
+  return data?.data as TAddOn;
+}
+
+export async function deleteAddOn(id: string) {
+  const res = await fetch(`${API}/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Failed to delete add-on");
+}
@@ -0,0 +1,97 @@
+import { TItineraryDay } from "@/lib/itinerary";
+
+export type TAltitudeWarning = {
+  day: number;
+  message: string;
+};
+
+export type TAltitudePoint = {
+  day: number;
+  sleeping: number | null;
+  max: number | null;
+};
+
+// Above this, sleeping altitude should rise slowly and rest days are needed
+export const HIGH_ALTITUDE_M = 3000;
+export const MAX_NIGHTLY_GAIN_M = 500;
+export const GAIN_BEFORE_REST_M = 1000;
+
+const toAltitude = (value: unknown) =>
+  value === null || value === undefined || value === "" || isNaN(Number(value))
+    ? null
+    : Number(value);
+
+export const formatAltitude = (meters: number) =>
+  `${meters.toLocaleString("en-US")} m`;
+
+// Pulls the first number out of free text like "5,416m" or "5416 meters"
+export const parseAltitude = (text?: string | null) => {
+  const match = text?.replace(/,/g, "").match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+export const getAltitudeProfile = (days: TItineraryDay[]): TAltitudePoint[] =>
+  days.map((day, i) => ({
+    day: i + 1,
+    sleeping: toAltitude(day.sleepingAltitude),
+    max: toAltitude(day.maxAltitude),
+  }));
+
+/**
+ * Flags plans that break the usual acclimatization rules: above 3,000 m,
+ * sleep no more than 500 m higher than the night before, and take a rest day
+ * (no gain in sleeping altitude) after every 1,000 m gained.
+ */
+export const checkAcclimatization = (
+  profile: TAltitudePoint[],
+  tripMaxAltitude?: string | null,
+) => {
+  const warnings: TAltitudeWarning[] = [];
+  let previous: number | null = null;
+  let gainSinceRest = 0;
+
+  profile.forEach(({ day, sleeping, max }) => {
+    if (sleeping !== null && max !== null && sleeping > max)
+      warnings.push({
+        day,
+        message: `Sleeping altitude is above the day's max altitude (${formatAltitude(max)}).`,
+      });
+    if (sleeping === null) return;
+
+    const gain = previous === null ? 0 : sleeping - previous;
+    previous = sleeping;
+    if (gain <= 0) {
+      gainSinceRest = 0;
+      return;
+    }
+    if (sleeping <= HIGH_ALTITUDE_M) return;
+
+    if (gain > MAX_NIGHTLY_GAIN_M)
+      warnings.push({
+        day,
+        message: `Sleeping altitude rises ${formatAltitude(gain)} to ${formatAltitude(sleeping)}. Above ${formatAltitude(HIGH_ALTITUDE_M)}, keep it under ${formatAltitude(MAX_NIGHTLY_GAIN_M)} per night.`,
+      });
+    gainSinceRest += gain;
+    if (gainSinceRest >= GAIN_BEFORE_REST_M) {
+      warnings.push({
+        day,
+        message: `${formatAltitude(gainSinceRest)} gained without a rest day. Add an acclimatization day after this one.`,
+      });
+      gainSinceRest = 0;
+    }
+  });
+
+  const highest = Math.max(
+    ...profile.flatMap(({ sleeping, max }) =>
+      [sleeping, max].filter((v): v is number => v !== null),
+    ),
+  );
+  const stated = parseAltitude(tripMaxAltitude);
+  if (Number.isFinite(highest) && stated !== null && stated !== highest)
+    warnings.push({
+      day: 0,
+      message: `Trip max altitude says ${formatAltitude(stated)}, but the itinerary reaches ${formatAltitude(highest)}.`,
+    });
+
+  return warnings;
+};
@@ -0,0 +1,76 @@
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import {
+  TCurrencySettings,
+  TExchangeRate,
+  TRoundingMode,
+} from "@/app/(dash)/types/currency";
+
+export const currencyOptions = Object.values(Currency).map((currency) => ({
+  value: currency,
+  label: currency,
+}));
+
+export const roundingModeOptions: { value: TRoundingMode; label: string }[] = [
+  { value: "NONE", label: "No rounding" },
+  { value: "NEAREST", label: "Round to nearest" },
+  { value: "UP", label: "Round up" },
+  { value: "DOWN", label: "Round down" },
+];
+
+export const formatPrice = (amount: number, currency: string = Currency.USD) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+  }).format(amount);
+
+export const applyRounding = (
+  amount: number,
+  rounding?: TExchangeRate["rounding"],
+) => {
+  const increment = rounding?.increment || 0;
+  if (!rounding || rounding.mode === "NONE" || increment <= 0) {
+    return Math.round(amount * 100) / 100;
+  }
+  const steps = amount / increment;
+  if (rounding.mode === "UP") return Math.ceil(steps) * increment;
+  if (rounding.mode === "DOWN") return Math.floor(steps) * increment;
+  return Math.round(steps) * increment;
+};
+
+const getRate = (settings: TCurrencySettings, currency: string) =>
+  currency === settings.baseCurrency
+    ? { currency, rate: 1, rounding: undefined }
+    : settings.rates.find((r) => r.currency === currency && r.rate > 0);
+
+export const convertPrice = (
+  amount: number,
+  from: string,
+  to: string,
+  settings: TCurrencySettings,
+) => {
+  if (from === to) return amount;
+  const fromRate = getRate(settings, from);
+  const toRate = getRate(settings, to);
+  if (!fromRate || !toRate) return null;
+  return applyRounding((amount / fromRate.rate) * toRate.rate, toRate.rounding);
+};
+
+// Every other supported currency that has a usable exchange rate
+export const getConvertedPrices = (
+  amount: number,
+  from: string,
+  settings?: TCurrencySettings | null,
+) => {
+  if (!settings || !amount) return [];
+  return Object.values(Currency)
+    .filter((currency) => currency !== from)
+    .map((currency) => ({
+      currency,
+      amount: convertPrice(amount, from, currency, settings),
+    }))
+    .filter(
+      (converted): converted is { currency: Currency; amount: number } =>
+        converted.amount !== null,
+    );
+};
@@ -0,0 +1,67 @@
+import { DepartureStatus } from "@/app/(dash)/enums/departureStatus.enum";
+import { TDeparture } from "@/app/(dash)/types/departure";
+
+export const departureStatusOptions = [
+  {
+    value: DepartureStatus.OPEN,
+    label: "Open",
+    color: "bg-blue-500",
+  },
+  {
+    value: DepartureStatus.GUARANTEED,
+    label: "Guaranteed",
+    color: "bg-green-500",
+  },
+  {
+    value: DepartureStatus.SOLD_OUT,
+    label: "Sold Out",
+    color: "bg-gray-500",
+  },
+  {
+    value: DepartureStatus.CANCELLED,
+    label: "Cancelled",
+    color: "bg-red-500",
+  },
+];
+
+export const getDepartureStatusOption = (status: DepartureStatus) =>
+  departureStatusOptions.find((option) => option.value === status) ??
+  departureStatusOptions[0];
+
+// Dates are kept as "YYYY-MM-DD" so they work with <input type="date" />
+export const toDateKey = (date: Date | string) => {
+  if (typeof date === "string") return date.slice(0, 10);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getRemainingSeats = (departure: TDeparture) =>
+  Math.max(0, (departure.seatsTotal || 0) - (departure.seatsBooked || 0));
+
+export const getNextDeparture = (
+  departures?: TDeparture[] | null,
+  today: Date = new Date(),
+) => {
+  if (!Array.isArray(departures)) return null;
+  const todayKey = toDateKey(today);
+  return (
+    departures
+      .filter(
+        (d) =>
+          d.startDate &&
+          toDateKey(d.startDate) >= todayKey &&
+          d.status !== DepartureStatus.CANCELLED,
+      )
+      .sort((a, b) =>
+        toDateKey(a.startDate).localeCompare(toDateKey(b.startDate)),
+      )[0] ?? null
+  );
+};
+
+export const formatDepartureDate = (date: string) =>
+  new Date(`${toDateKey(date)}T00:00:00`).toLocaleDateString("en-US", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
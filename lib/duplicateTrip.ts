@@ -0,0 +1,109 @@
+import { toTripImages } from "@/lib/tripImages";
+
+const OMITTED_KEYS = [
+  "id",
+  "createdAt",
+  "updatedAt",
+  "status",
+  "published",
+  "views",
+  "averageRating",
+  "departures",
+  "tripCategory",
+  "tripType",
+  "city",
+  "region",
+  "supplier",
+  "publishAt",
+  "unpublishAt",
+];
+
+type TRecord = Record<string, unknown>;
+
+// Nested rows come back with their own ids and foreign keys
+const ROW_KEYS = ["id", "activityId", "createdAt", "updatedAt"];
+
+const stripRow = (row: TRecord) =>
+  Object.fromEntries(
+    Object.entries(row).filter(([key]) => !ROW_KEYS.includes(key)),
+  );
+
+const stripRows = (rows: unknown) =>
+  Array.isArray(rows) ? rows.map((row: TRecord) => stripRow(row)) : [];
+
+export const uniqueCopySlug = (slug: string) =>
+  `${(slug || "trip").slice(0, 48)}-copy-${Date.now().toString(36)}`;
+
+// The editable part of an activity, shaped like the create payload
+export const toActivityInput = (activity: TRecord) => {
+  const payload = Object.fromEntries(
+    Object.entries(activity).filter(([key]) => !OMITTED_KEYS.includes(key)),
+  );
+  return {
+    ...payload,
+    itinerary: stripRows(activity.itinerary),
+    faqs: stripRows(activity.faqs),
+    additionalInfo: stripRows(activity.additionalInfo),
+    seo: activity.seo ? stripRow(activity.seo as TRecord) : activity.seo,
+    images: toTripImages(activity.images),
+    // The API returns full tag objects but expects tag ids on create
+    featuredTags: Array.isArray(activity.featuredTags)
+      ? activity.featuredTags.map((tag: TRecord | string) =>
+          typeof tag === "object" ? tag.id : tag,
+        )
+      : [],
+  };
+};
+
+// Translated slugs have to be unique per locale as well
+const copyTranslatedSlugs = (translations: unknown) =>
+  translations && typeof translations === "object"
+    ? Object.fromEntries(
+        Object.entries(translations as Record<string, TRecord>).map(
+          ([locale, values]) => [
+            locale,
+            values?.slug
+              ? { ...values, slug: uniqueCopySlug(String(values.slug)) }
+              : values,
+          ],
+        ),
+      )
+    : translations;
+
+export const buildDuplicatePayload = (activity: TRecord) => ({
+  ...toActivityInput(activity),
+  title: `${activity.title} (Copy)`,
+  slug: uniqueCopySlug(String(activity.slug ?? "")),
+  translations: copyTranslatedSlugs(activity.translations),
+  status: "DRAFT",
+  // A copy starts as a draft, so it must not go live on the original's schedule
+  publishAt: null,
+  unpublishAt: null,
+});
+
+export async function duplicateTrip(id: string) {
+  const res = await fetch(
+    `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/${id}`,
+    { credentials: "include", cache: "no-store" },
+  );
+  if (!res.ok) throw new Error("Failed to fetch trip");
+  const activity = (await res.json()).data;
+
+  const createRes = await fetch(
+    `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(buildDuplicatePayload(activity)),
+    },
+  );
+  const data = await createRes.json().catch(() => null);
+  if (!createRes.ok)
+    throw new Error(data?.message || "Failed to duplicate trip");
+
+  const copyId = data?.data?.id ?? data?.id;
+  if (copyId === undefined || copyId === null)
+    throw new Error("The copy was created but no id came back");
+  return String(copyId);
+}
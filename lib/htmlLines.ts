@@ -0,0 +1,16 @@
+const unescapeHtml = (text: string) =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+// Quill wraps each line in a paragraph; saved lists may hold either form
+export const getLines = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .filter((item): item is string => typeof item === "string")
+    .flatMap((item) => item.split(/<\/p>|<br\s*\/?>|<\/li>|\n/))
+    .map((line) => unescapeHtml(line.replace(/<[^>]*>/g, "")).trim())
+    .filter(Boolean);
+};
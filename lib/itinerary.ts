@@ -0,0 +1,72 @@
+import { TripFormData } from "@/app/(dash)/types/tripFormData";
+
+export type TItineraryDay = TripFormData["itinerary"][number];
+
+export const emptyItineraryDay = (day: number): TItineraryDay => ({
+  day,
+  title: "",
+  description: "",
+  duration: "",
+  distance: "",
+  ascent: "",
+  descent: "",
+  meals: "",
+  accommodations: "",
+  sleepingAltitude: null,
+  maxAltitude: null,
+});
+
+const joinText = (a: string, b: string, separator: string) =>
+  [a, b].filter((value) => value?.trim()).join(separator);
+
+/**
+ * Folds the next day into this one. Titles and descriptions are kept in
+ * order; stats are joined so nothing typed is silently dropped. The stay is
+ * the later day's, since that is where the merged day ends.
+ */
+export const mergeItineraryDays = (
+  first: TItineraryDay,
+  second: TItineraryDay,
+): TItineraryDay => ({
+  ...first,
+  title: joinText(first.title, second.title, " & "),
+  description: joinText(first.description, second.description, ""),
+  duration: joinText(first.duration, second.duration, " + "),
+  distance: joinText(first.distance, second.distance, " + "),
+  ascent: joinText(first.ascent, second.ascent, " + "),
+  descent: joinText(first.descent, second.descent, " + "),
+  meals: joinText(first.meals, second.meals, ", "),
+  accommodations: second.accommodations || first.accommodations,
+  sleepingAltitude: second.sleepingAltitude ?? first.sleepingAltitude,
+  maxAltitude:
+    first.maxAltitude != null && second.maxAltitude != null
+      ? Math.max(first.maxAltitude, second.maxAltitude)
+      : (first.maxAltitude ?? second.maxAltitude),
+});
+
+// Translations only hold the title and description, joined the same way
+export const mergeTranslatedDays = (first: unknown, second: unknown) => {
+  const a = (first ?? {}) as Partial<TItineraryDay>;
+  const b = (second ?? {}) as Partial<TItineraryDay>;
+  return {
+    ...a,
+    title: joinText(a.title ?? "", b.title ?? "", " & "),
+    description: joinText(a.description ?? "", b.description ?? "", ""),
+  };
+};
+
+/**
+ * Splits a day in two. The first half keeps the day as it is; the second
+ * starts with the same title so the editor only has to fill in what differs.
+ */
+export const splitItineraryDay = (
+  day: TItineraryDay,
+): [TItineraryDay, TItineraryDay] => [
+  day,
+  {
+    ...emptyItineraryDay(day.day + 1),
+    title: day.title ? `${day.title} (continued)` : "",
+    accommodations: day.accommodations,
+    sleepingAltitude: day.sleepingAltitude,
+  },
+];
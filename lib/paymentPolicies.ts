@@ -0,0 +1,134 @@
+import {
+  TPaymentPolicy,
+  TPaymentPolicyInput,
+  TRefundTier,
+} from "@/app/(dash)/types/paymentPolicy";
+import { withStringIds } from "@/lib/stringIds";
+
+const API = `${process.env.NEXT_PUBLIC_API_BASE_URL}/payment-policies`;
+
+const days = (n: number) => `${n} day${n === 1 ? "" : "s"}`;
+
+const describeRefund = (percent: number) =>
+  percent >= 100
+    ? "full refund"
+    : percent <= 0
+      ? "no refund"
+      : `${percent}% refund`;
+
+// Furthest from departure first, the order travelers read them in
+export const sortRefundTiers = (tiers: TRefundTier[]) =>
+  [...tiers].sort((a, b) => b.daysBefore - a.daysBefore);
+
+const describeTierRange = (tier: TRefundTier, previous?: TRefundTier) => {
+  if (!previous)
+    return tier.daysBefore === 0
+      ? "any time before departure"
+      : `${days(tier.daysBefore)} or more before departure`;
+  const upper = previous.daysBefore - 1;
+  if (tier.daysBefore === 0)
+    return upper === 0
+      ? "on the day of departure"
+      : `less than ${days(previous.daysBefore)} before departure`;
+  if (tier.daysBefore === upper) return `${days(upper)} before departure`;
+  return `${tier.daysBefore}–${upper} days before departure`;
+};
+
+/**
+ * The policy in plain sentences, one per line: deposit, balance, then a line
+ * per refund tier. Cancellations after the last tier get no refund.
+ */
+export const describePaymentPolicy = (
+  policy: TPaymentPolicyInput,
+): string[] => {
+  const lines: string[] = [];
+  const deposit = Number(policy.depositPercent) || 0;
+  const balanceDays = Number(policy.balanceDueDays) || 0;
+
+  if (deposit >= 100) lines.push("Full payment is due at booking.");
+  else {
+    lines.push(
+      deposit > 0
+        ? `A ${deposit}% deposit is due at booking.`
+        : "No deposit is needed at booking.",
+    );
+    lines.push(
+      balanceDays > 0
+        ? `The ${deposit > 0 ? "balance" : "full price"} is due ${days(balanceDays)} before departure.`
+        : `The ${deposit > 0 ? "balance" : "full price"} is due on the day of departure.`,
+    );
+  }
+
+  // Skips tiers still being typed in
+  const tiers = sortRefundTiers(
+    (policy.refundTiers ?? []).filter(
+      (t) =>
+        Number.isFinite(t?.daysBefore) && Number.isFinite(t?.refundPercent),
+    ),
+  );
+  if (!tiers.length) {
+    lines.push("Cancellations are not refundable.");
+    return lines;
+  }
+  tiers.forEach((tier, i) =>
+    lines.push(
+      `Cancelling ${describeTierRange(tier, tiers[i - 1])}: ${describeRefund(tier.refundPercent)}.`,
+    ),
+  );
+  const last = tiers[tiers.length - 1];
+  if (last.daysBefore > 0)
+    lines.push(
+      `Cancelling less than ${days(last.daysBefore)} before departure: no refund.`,
+    );
+  return lines;
+};
+
+export const toPolicySummary = (policy: TPaymentPolicyInput) =>
+  describePaymentPolicy(policy).join("\n");
+
+// The saved summary is what the public site shows, so prefer it over
+// regenerating; policies saved without one fall back to the generator
+export const getPolicySummaryLines = (policy: TPaymentPolicy) =>
+  policy.summary
+    ? policy.summary.split("\n").filter(Boolean)
+    : describePaymentPolicy(policy);
+
+export async function fetchPaymentPolicies() {
+  const res = await fetch(API, {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch payment policies");
+  const data = await res.json();
+  return withStringIds((data?.data?.paymentPolicies ?? []) as TPaymentPolicy[]);
+}
+
+export async function savePaymentPolicy(
+  input: TPaymentPolicyInput,
+  id?: string,
+) {
+  const policy = {
+    ...input,
+    refundTiers: sortRefundTiers(input.refundTiers),
+  };
+  const res = await fetch(id ? `${API}/${id}` : API, {
+    method: id ? "PATCH" : "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ ...policy, summary: toPolicySummary(policy) }),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok)
+    throw new Error(data?.message || "Failed to save payment policy");
+  return data?.data as TPaymentPolicy;
+}
+
+export async function deletePaymentPolicy(id: string) {
+  const res = await fetch(`${API}/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok)
+    throw new Error(data?.message || "Failed to delete payment policy");
+}
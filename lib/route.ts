@@ -0,0 +1,265 @@
+import {
+  TRouteFeature,
+  TRoutePosition,
+  TRouteSegmentStats,
+  TTripRoute,
+} from "@/app/(dash)/types/route";
+
+type TLineFeature = Extract<
+  TRouteFeature,
+  { geometry: { type: "LineString" } }
+>;
+type TPointFeature = Extract<TRouteFeature, { geometry: { type: "Point" } }>;
+
+export const DEFAULT_TILE_URL =
+  "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const tileUrl = (z: number, x: number, y: number) =>
+  (process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL)
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+
+export const emptyRoute = (): TTripRoute => ({
+  type: "FeatureCollection",
+  features: [],
+});
+
+export const isLine = (feature: TRouteFeature): feature is TLineFeature =>
+  feature.geometry.type === "LineString";
+
+export const isPoint = (feature: TRouteFeature): feature is TPointFeature =>
+  feature.geometry.type === "Point";
+
+const toPosition = (lon: number, lat: number, ele?: number | null) =>
+  (ele === null || ele === undefined || isNaN(ele)
+    ? [lon, lat]
+    : [lon, lat, ele]) as TRoutePosition;
+
+const line = (
+  coordinates: TRoutePosition[],
+  day: number | null,
+  source: "upload" | "drawn",
+): TLineFeature => ({
+  type: "Feature",
+  geometry: { type: "LineString", coordinates },
+  properties: { day, source },
+});
+
+const point = (
+  coordinates: TRoutePosition,
+  day: number | null,
+  name?: string,
+): TPointFeature => ({
+  type: "Feature",
+  geometry: { type: "Point", coordinates },
+  properties: { day, ...(name ? { name } : {}) },
+});
+
+const byTag = (parent: Document | Element, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", tag));
+
+const childText = (parent: Element, tag: string) =>
+  byTag(parent, tag)[0]?.textContent?.trim() ?? "";
+
+const gpxPosition = (el: Element) =>
+  toPosition(
+    Number(el.getAttribute("lon")),
+    Number(el.getAttribute("lat")),
+    childText(el, "ele") ? Number(childText(el, "ele")) : null,
+  );
+
+// Each track (or segment, for single-track files) becomes one day in order
+export const parseGpx = (text: string): TTripRoute => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (byTag(doc, "parsererror").length) throw new Error("Invalid GPX file");
+
+  const tracks = byTag(doc, "trk");
+  const segments =
+    tracks.length > 1
+      ? tracks.map((trk) => byTag(trk, "trkpt"))
+      : byTag(doc, "trkseg").map((seg) => byTag(seg, "trkpt"));
+  const routes = byTag(doc, "rte").map((rte) => byTag(rte, "rtept"));
+  const lines = [...segments, ...routes].filter((pts) => pts.length > 1);
+
+  return {
+    type: "FeatureCollection",
+    features: [
+      ...lines.map((pts, i) => line(pts.map(gpxPosition), i + 1, "upload")),
+      ...byTag(doc, "wpt").map((wpt) =>
+        point(gpxPosition(wpt), null, childText(wpt, "name")),
+      ),
+    ],
+  };
+};
+
+// "lon,lat[,ele] lon,lat[,ele] ..."
+const kmlPositions = (text: string) =>
+  text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter(([lon, lat]) => !isNaN(lon) && !isNaN(lat))
+    .map(([lon, lat, ele]) => toPosition(lon, lat, ele));
+
+export const parseKml = (text: string): TTripRoute => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (byTag(doc, "parsererror").length) throw new Error("Invalid KML file");
+
+  const features: TRouteFeature[] = [];
+  let day = 0;
+  byTag(doc, "Placemark").forEach((placemark) => {
+    const name = childText(placemark, "name");
+    byTag(placemark, "LineString").forEach((ls) => {
+      const coords = kmlPositions(childText(ls, "coordinates"));
+      if (coords.length > 1) features.push(line(coords, ++day, "upload"));
+    });
+    // Google Earth exports tracks as gx:Track with separate coord elements
+    byTag(placemark, "Track").forEach((track) => {
+      const coords = byTag(track, "coord").map((c) => {
+        const [lon, lat, ele] = (c.textContent ?? "").trim().split(/\s+/);
+        return toPosition(Number(lon), Number(lat), Number(ele));
+      });
+      if (coords.length > 1) features.push(line(coords, ++day, "upload"));
+    });
+    byTag(placemark, "Point").forEach((pt) => {
+      const [coords] = kmlPositions(childText(pt, "coordinates"));
+      if (coords) features.push(point(coords, null, name));
+    });
+  });
+  return { type: "FeatureCollection", features };
+};
+
+export const parseRouteFile = async (file: File) => {
+  const text = await file.text();
+  const route = file.name.toLowerCase().endsWith(".kml")
+    ? parseKml(text)
+    : parseGpx(text);
+  if (!route.features.some(isLine))
+    throw new Error("No track found in the file");
+  return route;
+};
+
+/**
+ * Adds a drawn waypoint to a day. Without an uploaded track, each day's line
+ * runs from where the previous day ended through that day's waypoints.
+ */
+export const addWaypoint = (
+  route: TTripRoute,
+  day: number,
+  position: TRoutePosition,
+): TTripRoute => {
+  const features = [...route.features, point(position, day)];
+  if (features.some((f) => isLine(f) && f.properties.source === "upload"))
+    return { ...route, features };
+
+  const waypoints = features.filter(isPoint);
+  const days = [
+    ...new Set(
+      waypoints
+        .map((w) => w.properties.day)
+        .filter((d): d is number => d !== null),
+    ),
+  ].sort((a, b) => a - b);
+  let previousEnd: TRoutePosition | null = null;
+  const lines = days.flatMap((d) => {
+    const coords = waypoints
+      .filter((w) => w.properties.day === d)
+      .map((w) => w.geometry.coordinates);
+    const path = previousEnd ? [previousEnd, ...coords] : coords;
+    previousEnd = coords[coords.length - 1];
+    return path.length > 1 ? [line(path, d, "drawn")] : [];
+  });
+  return { ...route, features: [...lines, ...waypoints] };
+};
+
+const EARTH_RADIUS_KM = 6371;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export const haversineKm = (a: TRoutePosition, b: TRoutePosition) => {
+  const dLat = toRad(b[1] - a[1]);
+  const dLon = toRad(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const getSegmentStats = (coordinates: TRoutePosition[]) =>
+  coordinates.slice(1).reduce(
+    (stats, position, i) => {
+      const previous = coordinates[i];
+      stats.distanceKm += haversineKm(previous, position);
+      if (previous[2] !== undefined && position[2] !== undefined) {
+        const delta = position[2] - previous[2];
+        if (delta > 0) stats.gainM += delta;
+        else stats.lossM -= delta;
+      }
+      return stats;
+    },
+    { distanceKm: 0, gainM: 0, lossM: 0 },
+  );
+
+export const getRouteStats = (route?: TTripRoute | null) => {
+  const segments: TRouteSegmentStats[] = (route?.features ?? [])
+    .filter(isLine)
+    .map((feature) => ({
+      day: feature.properties.day,
+      ...getSegmentStats(feature.geometry.coordinates),
+    }));
+  return {
+    segments,
+    distanceKm: segments.reduce((sum, s) => sum + s.distanceKm, 0),
+    gainM: segments.reduce((sum, s) => sum + s.gainM, 0),
+    lossM: segments.reduce((sum, s) => sum + s.lossM, 0),
+    hasElevation: (route?.features ?? []).some(
+      (f) =>
+        isLine(f) && f.geometry.coordinates.some((c) => c[2] !== undefined),
+    ),
+  };
+};
+
+export const getRoutePositions = (route?: TTripRoute | null) =>
+  (route?.features ?? []).flatMap((f) =>
+    isLine(f) ? f.geometry.coordinates : [f.geometry.coordinates],
+  );
+
+// Web Mercator in pixels at a zoom level, as used by slippy map tiles
+export const TILE_SIZE = 256;
+
+export const project = ([lon, lat]: TRoutePosition, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin(toRad(lat));
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+export const unproject = (x: number, y: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lon = (x / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  return [lon, lat] as TRoutePosition;
+};
+
+// The highest zoom at which every position fits in the given size
+export const fitZoom = (
+  positions: TRoutePosition[],
+  width: number,
+  height: number,
+  maxZoom = 15,
+) => {
+  for (let zoom = maxZoom; zoom > 1; zoom--) {
+    const points = positions.map((p) => project(p, zoom));
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    if (
+      Math.max(...xs) - Math.min(...xs) <= width * 0.9 &&
+      Math.max(...ys) - Math.min(...ys) <= height * 0.9
+    )
+      return zoom;
+  }
+  return 1;
+};
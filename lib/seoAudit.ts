@@ -0,0 +1,294 @@
+import {
+  TSeoAuditInput,
+  TSeoCheck,
+  TSeoCheckStatus,
+} from "@/app/(dash)/types/seo";
+import { generateSlug } from "@/lib/generateSlug";
+import { getFullImageUrl } from "@/lib/getFullImageUrl";
+
+type TRecord = Record<string, unknown>;
+
+export type TSeoSource = "trip" | "post" | "info-page";
+
+export type TMetaTitleEntry = {
+  source: TSeoSource;
+  slug: string;
+  metaTitle: string;
+};
+
+const LARGE_IMAGE_BYTES = 300 * 1024;
+const HUGE_IMAGE_BYTES = 1024 * 1024;
+
+const STATUS_POINTS: Record<TSeoCheckStatus, number> = {
+  pass: 1,
+  warn: 0.5,
+  fail: 0,
+};
+
+const check = (
+  id: string,
+  label: string,
+  status: TSeoCheckStatus,
+  message: string,
+): TSeoCheck => ({ id, label, status, message });
+
+// Pass inside the ideal range, warn inside the loose one, fail otherwise
+const lengthCheck = (
+  id: string,
+  label: string,
+  value: string,
+  ideal: [number, number],
+  loose: [number, number],
+) => {
+  const length = value.trim().length;
+  if (!length) return check(id, label, "fail", `${label} is missing.`);
+  const range = `${ideal[0]}–${ideal[1]}`;
+  if (length >= ideal[0] && length <= ideal[1])
+    return check(id, label, "pass", `${length} characters.`);
+  if (length >= loose[0] && length <= loose[1])
+    return check(id, label, "warn", `${length} characters, aim for ${range}.`);
+  return check(id, label, "fail", `${length} characters, aim for ${range}.`);
+};
+
+const includesKeyword = (text: string, keyword: string) =>
+  text.toLowerCase().includes(keyword.toLowerCase());
+
+const isInternalLink = (href: string) => {
+  if (href.startsWith("/") || href.startsWith("#")) return true;
+  try {
+    const site = new URL(process.env.NEXT_PUBLIC_WEBSITE_URL ?? "");
+    return new URL(href).host === site.host;
+  } catch {
+    return false;
+  }
+};
+
+export const auditSeo = (input: TSeoAuditInput): TSeoCheck[] => {
+  const doc = new DOMParser().parseFromString(input.content, "text/html");
+  const headings = Array.from(doc.querySelectorAll("h1, h2, h3, h4, h5, h6"));
+  const firstParagraph =
+    Array.from(doc.querySelectorAll("p"))
+      .map((p) => p.textContent?.trim() ?? "")
+      .find(Boolean) ?? "";
+  const links = Array.from(doc.querySelectorAll("a[href]")).map(
+    (a) => a.getAttribute("href") ?? "",
+  );
+  const images = [
+    ...(input.images ?? []),
+    ...Array.from(doc.querySelectorAll("img")).map((img) => ({
+      url: img.getAttribute("src") ?? "",
+      alt: img.getAttribute("alt"),
+    })),
+  ].filter((image) => image.url);
+
+  const metaTitle = input.metaTitle || input.title;
+  const keyword = input.focusKeyword.trim();
+  const checks: TSeoCheck[] = [
+    lengthCheck("title", "Title", input.title, [20, 70], [10, 90]),
+    lengthCheck("metaTitle", "Meta title", metaTitle, [50, 60], [30, 70]),
+    lengthCheck(
+      "metaDescription",
+      "Meta description",
+      input.metaDescription,
+      [120, 160],
+      [70, 180],
+    ),
+  ];
+
+  if (!keyword) {
+    checks.push(
+      check(
+        "keyword",
+        "Focus keyword",
+        "warn",
+        "Set a focus keyword to check where it is used.",
+      ),
+    );
+  } else {
+    const keywordChecks: Array<[string, string, boolean]> = [
+      ["keywordTitle", "Keyword in title", includesKeyword(metaTitle, keyword)],
+      [
+        "keywordSlug",
+        "Keyword in slug",
+        input.slug.includes(generateSlug(keyword)),
+      ],
+      [
+        "keywordIntro",
+        "Keyword in first paragraph",
+        includesKeyword(firstParagraph, keyword),
+      ],
+      [
+        "keywordHeadings",
+        "Keyword in headings",
+        headings.some((h) => includesKeyword(h.textContent ?? "", keyword)),
+      ],
+    ];
+    keywordChecks.forEach(([id, label, found]) =>
+      checks.push(
+        check(
+          id,
+          label,
+          found ? "pass" : id === "keywordHeadings" ? "warn" : "fail",
+          found ? `"${keyword}" found.` : `"${keyword}" not found.`,
+        ),
+      ),
+    );
+  }
+
+  const missingAlt = images.filter((image) => !image.alt?.trim()).length;
+  checks.push(
+    check(
+      "altText",
+      "Image alt text",
+      missingAlt ? "fail" : "pass",
+      missingAlt
+        ? `${missingAlt} of ${images.length} images have no alt text.`
+        : images.length
+          ? "Every image has alt text."
+          : "No images to check.",
+    ),
+  );
+
+  // The page title is the H1, so content headings start at H2 and step down
+  // one level at a time
+  const levels = headings.map((h) => Number(h.tagName.slice(1)));
+  const skipped = levels.some((level, i) =>
+    i === 0 ? level > 2 : level > levels[i - 1] + 1,
+  );
+  const extraH1 = levels.includes(1);
+  checks.push(
+    check(
+      "headingOrder",
+      "Heading order",
+      extraH1 || skipped ? "warn" : "pass",
+      extraH1
+        ? "Content has its own H1; the page title is already the H1."
+        : skipped
+          ? "A heading level is skipped (e.g. H2 straight to H4)."
+          : levels.length
+            ? "Headings follow a logical order."
+            : "No headings in the content.",
+    ),
+  );
+
+  const internal = links.filter(isInternalLink).length;
+  const external = links.length - internal;
+  checks.push(
+    check(
+      "internalLinks",
+      "Internal links",
+      internal ? "pass" : "warn",
+      `${internal} internal link${internal === 1 ? "" : "s"}.`,
+    ),
+    check(
+      "externalLinks",
+      "External links",
+      external ? "pass" : "warn",
+      `${external} external link${external === 1 ? "" : "s"}.`,
+    ),
+  );
+
+  const sizes = input.imageSizes ?? {};
+  const sized = images.filter((image) => sizes[image.url] !== undefined);
+  const huge = sized.filter((image) => sizes[image.url] > HUGE_IMAGE_BYTES);
+  const large = sized.filter((image) => sizes[image.url] > LARGE_IMAGE_BYTES);
+  checks.push(
+    check(
+      "imageSize",
+      "Image size",
+      huge.length ? "fail" : large.length ? "warn" : "pass",
+      large.length
+        ? `${large.length} image${large.length === 1 ? " is" : "s are"} over 300 KB.`
+        : sized.length
+          ? "All images are under 300 KB."
+          : "No image sizes to check.",
+    ),
+  );
+
+  const duplicates = (input.otherMetaTitles ?? []).filter(
+    (title) => title.trim().toLowerCase() === metaTitle.trim().toLowerCase(),
+  ).length;
+  checks.push(
+    check(
+      "duplicateMetaTitle",
+      "Unique meta title",
+      duplicates ? "fail" : "pass",
+      duplicates
+        ? `Also used on ${duplicates} other trip or post page${duplicates === 1 ? "" : "s"}.`
+        : "No other trip or post uses this meta title.",
+    ),
+  );
+
+  return checks;
+};
+
+export const getSeoScore = (checks: TSeoCheck[]) =>
+  checks.length
+    ? Math.round(
+        (checks.reduce((sum, c) => sum + STATUS_POINTS[c.status], 0) /
+          checks.length) *
+          100,
+      )
+    : 0;
+
+const PAGE_SIZE = 50;
+
+// Walks every page of a listing, like fetchAllTrips does for the export
+async function fetchAllPages(path: string, key: string) {
+  const items: TRecord[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const res = await fetch(
+      `${process.env.NEXT_PUBLIC_API_BASE_URL}${path}?page=${page}&limit=${PAGE_SIZE}`,
+      { credentials: "include", cache: "no-store" },
+    );
+    if (!res.ok) throw new Error("Failed to fetch meta titles");
+    const data = await res.json();
+    items.push(...(data?.[key] ?? []));
+    totalPages = data?.pagination?.totalPages ?? 1;
+    page++;
+  } while (page <= totalPages);
+  return items;
+}
+
+// Meta titles of every trip and post; a missing one falls back to the title
+export async function fetchMetaTitles(): Promise<TMetaTitleEntry[]> {
+  const [trips, posts] = await Promise.all([
+    fetchAllPages("/activity/a", "activities"),
+    fetchAllPages("/blogs", "data"),
+  ]);
+
+  return [
+    ...trips.map((trip: TRecord) => ({
+      source: "trip" as const,
+      slug: String(trip.slug ?? ""),
+      metaTitle: String(
+        (trip.seo as TRecord | null)?.metaTitle || trip.title || "",
+      ),
+    })),
+    ...posts.map((post: TRecord) => ({
+      source: "post" as const,
+      slug: String(post.slug ?? ""),
+      metaTitle: String(post.metaTitle || post.title || ""),
+    })),
+  ];
+}
+
+// Reads the size from the response headers without downloading the image
+export async function fetchImageSizes(urls: string[]) {
+  const entries = await Promise.all(
+    urls.map(async (url) => {
+      try {
+        const res = await fetch(getFullImageUrl(url), { method: "HEAD" });
+        const length = Number(res.headers.get("content-length"));
+        return length ? ([url, length] as const) : null;
+      } catch {
+        return null;
+      }
+    }),
+  );
+  return Object.fromEntries(
+    entries.filter((entry) => entry !== null),
+  ) as Record<string, number>;
+}
@@ -0,0 +1,91 @@
+import {
+  TSnippet,
+  TSnippetField,
+  TSnippetInput,
+  TSnippetType,
+} from "@/app/(dash)/types/snippet";
+import { TBulkTarget } from "@/app/(dash)/types/bulk";
+import { fetchAllTrips } from "@/lib/tripExport";
+import { getLines } from "@/lib/htmlLines";
+
+const API = `${process.env.NEXT_PUBLIC_API_BASE_URL}/snippets`;
+
+export const SNIPPET_TYPES: {
+  value: TSnippetType;
+  label: string;
+  field: TSnippetField;
+}[] = [
+  { value: "inclusion", label: "Inclusions", field: "inclusions" },
+  { value: "exclusion", label: "Exclusions", field: "exclusions" },
+  { value: "highlight", label: "Highlights", field: "highlights" },
+];
+
+export const getSnippetField = (type: TSnippetType) =>
+  SNIPPET_TYPES.find((t) => t.value === type)!.field;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+export const usesSnippet = (value: unknown, text: string) =>
+  getLines(value).includes(text.trim());
+
+// Adds the snippet as a new line of the editor's HTML, once
+export const appendSnippet = (value: string | undefined, text: string) =>
+  usesSnippet(value, text)
+    ? (value ?? "")
+    : `${value ?? ""}<p>${escapeHtml(text.trim())}</p>`;
+
+// Rewrites only the lines that hold the old text as a whole line, so longer
+// lines that merely contain it are left alone
+export const replaceSnippetText = (items: string[], from: string, to: string) =>
+  items.map((item) => {
+    if (!usesSnippet(item, from)) return item;
+    const lines = getLines(item).map((line) =>
+      line === from.trim() ? to.trim() : line,
+    );
+    // Editor lists hold HTML paragraphs; imported ones may be plain text
+    return /<[^>]+>/.test(item)
+      ? lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("")
+      : lines.join("\n");
+  });
+
+export async function fetchSnippets(type?: TSnippetType) {
+  const res = await fetch(`${API}${type ? `?type=${type}` : ""}`, {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch snippets");
+  const data = await res.json();
+  return (data?.data?.snippets ?? []) as TSnippet[];
+}
+
+export async function saveSnippet(input: TSnippetInput, id?: string) {
+  const res = await fetch(id ? `${API}/${id}` : API, {
+    method: id ? "PATCH" : "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Failed to save snippet");
+  return data?.data as TSnippet;
+}
+
+export async function deleteSnippet(id: string) {
+  const res = await fetch(`${API}/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error("Failed to delete snippet");
+}
+
+// Trips are matched on the snippet's text, since they store plain lists
+export async function findTripsUsingSnippet(
+  snippet: Pick<TSnippet, "type" | "text">,
+): Promise<TBulkTarget[]> {
+  const field = getSnippetField(snippet.type);
+  const trips = await fetchAllTrips();
+  return trips
+    .filter((trip) => usesSnippet(trip[field], snippet.text))
+    .map((trip) => ({ id: String(trip.id), title: String(trip.title ?? "") }));
+}
@@ -0,0 +1,7 @@
+// The API can return ids as numbers, while the form and the ids trips store
+// are strings, so anything compared by id is read through these
+export const toStringId = (value: unknown) =>
+  value === null || value === undefined ? "" : String(value);
+
+export const withStringIds = <T extends { id: unknown }>(items: T[]) =>
+  items.map((item) => ({ ...item, id: toStringId(item.id) }));
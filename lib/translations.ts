@@ -0,0 +1,158 @@
+import { Locale } from "@/app/(dash)/enums/locale.enum";
+import {
+  TTranslatableField,
+  TTranslationProgress,
+  TTranslations,
+} from "@/app/(dash)/types/locale";
+
+type TRecord = Record<string, unknown>;
+
+export const DEFAULT_LOCALE = Locale.EN;
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  [Locale.EN]: "English",
+  [Locale.DE]: "German",
+  [Locale.FR]: "French",
+  [Locale.ES]: "Spanish",
+};
+
+// Every locale content can be translated into
+export const TRANSLATION_LOCALES = Object.values(Locale).filter(
+  (locale) => locale !== DEFAULT_LOCALE,
+);
+
+export const localeOptions = TRANSLATION_LOCALES.map((locale) => ({
+  value: locale,
+  label: LOCALE_LABELS[locale],
+}));
+
+export const POST_TRANSLATABLE_FIELDS: TTranslatableField[] = [
+  { path: "title", label: "Title" },
+  { path: "slug", label: "Slug" },
+  { path: "content", label: "Content", rich: true },
+  { path: "metaTitle", label: "Meta title" },
+  { path: "metaDescription", label: "Meta description" },
+];
+
+export const INFO_PAGE_TRANSLATABLE_FIELDS = POST_TRANSLATABLE_FIELDS;
+
+const toList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+// The itinerary and FAQs are translated day by day and question by question,
+// so the fields follow the trip's current length
+export const getTripTranslatableFields = (
+  trip: TRecord,
+): TTranslatableField[] => [
+  { path: "title", label: "Title" },
+  { path: "slug", label: "Slug" },
+  { path: "shortDescription", label: "Short description" },
+  { path: "fullDescription", label: "Full description", rich: true },
+  ...toList(trip.itinerary).flatMap((_, i) => [
+    { path: `itinerary.${i}.title`, label: `Day ${i + 1} title` },
+    {
+      path: `itinerary.${i}.description`,
+      label: `Day ${i + 1} description`,
+      rich: true,
+    },
+  ]),
+  ...toList(trip.faqs).flatMap((_, i) => [
+    { path: `faqs.${i}.question`, label: `FAQ ${i + 1} question` },
+    { path: `faqs.${i}.answer`, label: `FAQ ${i + 1} answer`, rich: true },
+  ]),
+  { path: "seo.metaTitle", label: "Meta title" },
+  { path: "seo.metaDescription", label: "Meta description" },
+  { path: "seo.metaKeywords", label: "Meta keywords" },
+];
+
+/**
+ * Itinerary days and FAQs are translated by position, so list edits are
+ * replayed on every locale's copy to keep each translation with its day or
+ * question. Copies are padded to the list's length first, since pruning
+ * leaves untranslated items at the end out.
+ */
+export const remapTranslatedList = (
+  translations: TTranslations | undefined,
+  key: string,
+  length: number,
+  change: (items: unknown[]) => unknown[],
+): TTranslations =>
+  Object.fromEntries(
+    Object.entries(translations ?? {}).map(([locale, values]) => {
+      const items = values?.[key];
+      if (!Array.isArray(items)) return [locale, values];
+      const padded = Array.from(
+        { length: Math.max(items.length, length) },
+        (_, i) => items[i] ?? null,
+      );
+      return [locale, { ...values, [key]: change(padded) }];
+    }),
+  );
+
+export const getPathValue = (source: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object" ? (value as TRecord)[key] : null,
+      source,
+    );
+
+// Rich text counts as empty when it has no text left without its tags
+export const hasText = (value: unknown) =>
+  typeof value === "string" && value.replace(/<[^>]*>/g, "").trim() !== "";
+
+// Only fields with content in the default locale need translating
+export const getSourceFields = (
+  source: unknown,
+  fields: TTranslatableField[],
+) => fields.filter((field) => hasText(getPathValue(source, field.path)));
+
+// The translated value where there is one, otherwise the default locale's
+export const getLocalizedValue = (
+  source: TRecord & { translations?: TTranslations },
+  locale: Locale,
+  path: string,
+) => {
+  const translated = getPathValue(source.translations?.[locale], path);
+  return hasText(translated) ? translated : getPathValue(source, path);
+};
+
+export const getTranslationProgress = (
+  source: TRecord & { translations?: TTranslations },
+  fields: TTranslatableField[],
+  locale: Locale,
+): TTranslationProgress => {
+  const required = getSourceFields(source, fields);
+  const done = required.filter((field) =>
+    hasText(getPathValue(source.translations?.[locale], field.path)),
+  ).length;
+  return {
+    done,
+    total: required.length,
+    percent: required.length ? Math.round((done / required.length) * 100) : 100,
+  };
+};
+
+// Drops empty strings and the objects they leave empty. Arrays keep their
+// positions so index paths still line up with the source.
+const prune = (value: unknown): unknown => {
+  if (typeof value === "string") return hasText(value) ? value : undefined;
+  if (Array.isArray(value)) {
+    const items = value.map(prune);
+    return items.some((item) => item !== undefined)
+      ? items.map((item) => item ?? null)
+      : undefined;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .map(([key, item]) => [key, prune(item)])
+      .filter(([, item]) => item !== undefined);
+    return entries.length ? Object.fromEntries(entries) : undefined;
+  }
+  return undefined;
+};
+
+export const pruneTranslations = (
+  translations: TTranslations | undefined,
+): TTranslations => (prune(translations ?? {}) ?? {}) as TTranslations;
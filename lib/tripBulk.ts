@@ -0,0 +1,154 @@
+import { TBulkAction, TBulkResult, TBulkTarget } from "@/app/(dash)/types/bulk";
+import { TSnippetField } from "@/app/(dash)/types/snippet";
+import { TReviewAction } from "@/app/(dash)/types/review";
+import { replaceSnippetText } from "@/lib/snippets";
+
+const API = process.env.NEXT_PUBLIC_API_BASE_URL;
+
+const request = async (path: string, init: RequestInit, fallback: string) => {
+  const res = await fetch(`${API}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    cache: "no-store",
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || fallback);
+  return data;
+};
+
+// Publishes a trip, or moves it back to drafts when `reject` is set. The API
+// logs the change with the signed-in reviewer, the action and the comment.
+export const setListingStatus = (
+  id: string,
+  reject?: boolean,
+  review?: { action: TReviewAction; comment?: string },
+) =>
+  request(
+    "/admin/approve-listing",
+    {
+      method: "PATCH",
+      body: JSON.stringify({
+        activityId: Number(id),
+        ...(reject && { reject: true }),
+        action: review?.action ?? (reject ? "unpublish" : "publish"),
+        ...(review?.comment && { comment: review.comment }),
+      }),
+    },
+    "Failed to update status",
+  );
+
+export const deleteTrip = (id: string) =>
+  request(`/activity/${id}`, { method: "DELETE" }, "Failed to delete trip");
+
+const patchTrip = (id: string, patch: Record<string, unknown>) =>
+  request(
+    `/activity/${id}`,
+    { method: "PATCH", body: JSON.stringify(patch) },
+    "Failed to update trip",
+  );
+
+// Featured tags are saved as a full list, so add to what the trip already has
+const addFeaturedTag = async (id: string, tagId: string) => {
+  const data = await request(
+    `/activity/${id}`,
+    { method: "GET" },
+    "Failed to fetch trip",
+  );
+  const current: string[] = (data?.data?.featuredTags ?? []).map(
+    (tag: { id: string } | string) =>
+      String(typeof tag === "object" ? tag.id : tag),
+  );
+  if (current.includes(String(tagId))) return;
+  await patchTrip(id, { featuredTags: [...current, tagId] });
+};
+
+// Lists are saved whole too, so rewrite the trip's current list
+const replaceSnippet = async (
+  id: string,
+  field: TSnippetField,
+  from: string,
+  to: string,
+) => {
+  const data = await request(
+    `/activity/${id}`,
+    { method: "GET" },
+    "Failed to fetch trip",
+  );
+  const current: unknown[] = data?.data?.[field] ?? [];
+  await patchTrip(id, {
+    [field]: replaceSnippetText(
+      current.filter((item): item is string => typeof item === "string"),
+      from,
+      to,
+    ),
+  });
+};
+
+const runAction = (id: string, action: TBulkAction) => {
+  switch (action.kind) {
+    case "publish":
+      return setListingStatus(id);
+    case "draft":
+      return setListingStatus(id, true);
+    case "delete":
+      return deleteTrip(id);
+    case "featuredTag":
+      return addFeaturedTag(id, action.tagId);
+    case "category":
+      return patchTrip(id, { tripCategoryId: action.categoryId });
+    case "region":
+      return patchTrip(id, { regionId: action.regionId });
+    case "difficulty":
+      return patchTrip(id, { difficultyLevel: action.level });
+    case "snippet":
+      return replaceSnippet(id, action.field, action.from, action.to);
+  }
+};
+
+export const describeBulkAction = (action: TBulkAction) => {
+  switch (action.kind) {
+    case "publish":
+      return "Publish";
+    case "draft":
+      return "Move to drafts";
+    case "delete":
+      return "Delete permanently";
+    case "featuredTag":
+      return `Add featured tag “${action.label}”`;
+    case "category":
+      return `Change category to “${action.label}”`;
+    case "region":
+      return `Change region to “${action.label}”`;
+    case "difficulty":
+      return `Set difficulty to ${action.level.toLowerCase()}`;
+    case "snippet":
+      return `Replace “${action.from}” with “${action.to}”`;
+  }
+};
+
+/**
+ * Applies an action to each trip in turn. One failure doesn't stop the rest;
+ * every trip gets its own result for the report.
+ */
+export async function runBulkAction(
+  targets: TBulkTarget[],
+  action: TBulkAction,
+  onProgress?: (done: number) => void,
+) {
+  const results: TBulkResult[] = [];
+  for (const target of targets) {
+    try {
+      await runAction(target.id, action);
+      results.push({ ...target, ok: true, message: "Done" });
+    } catch (err) {
+      results.push({
+        ...target,
+        ok: false,
+        message: (err as Error)?.message || "Something went wrong",
+      });
+    }
+    onProgress?.(results.length);
+  }
+  return results;
+}
@@ -0,0 +1,171 @@
+import { TFieldChange } from "@/app/(dash)/types/revision";
+
+type TRecord = Record<string, unknown>;
+
+// Bookkeeping and relation objects that change without anyone editing them
+const IGNORED_KEYS = [
+  "id",
+  "createdAt",
+  "updatedAt",
+  "status",
+  "views",
+  "averageRating",
+  "tripCategory",
+  "tripType",
+  "city",
+  "region",
+  "supplier",
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  tripCategoryId: "Category",
+  tripTypeId: "Activity type",
+  cityId: "City",
+  regionId: "Region",
+  difficultyLevel: "Difficulty",
+  price: "From price",
+  faqs: "FAQs",
+  seo: "SEO",
+  metaTitle: "Meta title",
+  metaDescription: "Meta description",
+};
+
+// Repeated sections are compared row by row so a single edited day or FAQ
+// shows up on its own instead of as one huge changed blob
+const ROW_SECTIONS: Record<string, { label: string; fields: string[] }> = {
+  itinerary: {
+    label: "Day",
+    fields: [
+      "title",
+      "description",
+      "duration",
+      "distance",
+      "ascent",
+      "descent",
+      "meals",
+      "accommodations",
+      "sleepingAltitude",
+      "maxAltitude",
+    ],
+  },
+  faqs: { label: "FAQ", fields: ["question", "answer"] },
+  additionalInfo: {
+    label: "Additional info",
+    fields: ["title", "description"],
+  },
+};
+
+const NESTED_SECTIONS = ["seo", "pricing"];
+
+export const humanizeKey = (key: string) => {
+  if (FIELD_LABELS[key]) return FIELD_LABELS[key];
+  const words = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Rich text is compared as plain text so markup-only changes are not noise
+export const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value) && value.every((v) => typeof v !== "object"))
+    return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return stripHtml(String(value));
+};
+
+const asRows = (value: unknown) =>
+  Array.isArray(value) ? (value as TRecord[]) : [];
+
+const diffRows = (
+  key: string,
+  before: unknown,
+  after: unknown,
+): TFieldChange[] => {
+  const { label, fields } = ROW_SECTIONS[key];
+  const prevRows = asRows(before);
+  const nextRows = asRows(after);
+  const changes: TFieldChange[] = [];
+
+  for (let i = 0; i < Math.max(prevRows.length, nextRows.length); i++) {
+    const prev = prevRows[i];
+    const next = nextRows[i];
+    const rowLabel = `${label} ${i + 1}`;
+
+    if (!prev || !next) {
+      changes.push({
+        path: `${key}.${i}`,
+        label: `${rowLabel} ${prev ? "removed" : "added"}`,
+        before: prev ? toText(prev[fields[0]]) : "",
+        after: next ? toText(next[fields[0]]) : "",
+      });
+      continue;
+    }
+
+    fields.forEach((field) => {
+      const beforeText = toText(prev[field]);
+      const afterText = toText(next[field]);
+      if (beforeText === afterText) return;
+      changes.push({
+        path: `${key}.${i}.${field}`,
+        label: `${rowLabel} · ${humanizeKey(field)}`,
+        before: beforeText,
+        after: afterText,
+      });
+    });
+  }
+
+  return changes;
+};
+
+const diffNested = (
+  key: string,
+  before: unknown,
+  after: unknown,
+): TFieldChange[] => {
+  const prev = (before ?? {}) as TRecord;
+  const next = (after ?? {}) as TRecord;
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+  return [...keys]
+    .filter((field) => !IGNORED_KEYS.includes(field))
+    .filter((field) => toText(prev[field]) !== toText(next[field]))
+    .map((field) => ({
+      path: `${key}.${field}`,
+      label: `${humanizeKey(key)} · ${humanizeKey(field)}`,
+      before: toText(prev[field]),
+      after: toText(next[field]),
+    }));
+};
+
+/**
+ * Field-by-field differences between two saved versions of an activity.
+ * `previous` is the older snapshot, `next` the newer one.
+ */
+export const diffTrips = (previous: TRecord, next: TRecord) => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: TFieldChange[] = [];
+
+  keys.forEach((key) => {
+    if (IGNORED_KEYS.includes(key)) return;
+    if (ROW_SECTIONS[key]) {
+      changes.push(...diffRows(key, previous[key], next[key]));
+      return;
+    }
+    if (NESTED_SECTIONS.includes(key)) {
+      changes.push(...diffNested(key, previous[key], next[key]));
+      return;
+    }
+    const before = toText(previous[key]);
+    const after = toText(next[key]);
+    if (before !== after)
+      changes.push({ path: key, label: humanizeKey(key), before, after });
+  });
+
+  return changes;
+};
@@ -0,0 +1,88 @@
+import { TTripDraft } from "@/app/(dash)/types/draft";
+import { diffTrips } from "@/lib/tripDiff";
+import { toDateKey } from "@/lib/departures";
+
+type TRecord = Record<string, unknown>;
+
+// Unsaved new trips share one draft slot per admin user
+export const NEW_TRIP_DRAFT_KEY = "new";
+
+const draftUrl = (key: string) =>
+  `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity-draft/${key}`;
+
+// Drafts are scoped to the signed-in admin by the session cookie
+export async function fetchDraft(key: string) {
+  const res = await fetch(draftUrl(key), {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error("Failed to fetch draft");
+  const data = await res.json();
+  return (data?.data?.draft ?? null) as TTripDraft | null;
+}
+
+export async function saveDraft(key: string, draft: TTripDraft) {
+  const res = await fetch(draftUrl(key), {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(draft),
+  });
+  if (!res.ok) throw new Error("Failed to save draft");
+}
+
+export async function deleteDraft(key: string) {
+  const res = await fetch(draftUrl(key), {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!res.ok && res.status !== 404) throw new Error("Failed to delete draft");
+}
+
+/**
+ * Brings an activity from the API into the same shape the editor saves, so
+ * comparing it with draft values only reports real edits.
+ */
+export const toDraftBase = (activity: TRecord): TRecord => ({
+  ...activity,
+  featuredTags: Array.isArray(activity.featuredTags)
+    ? activity.featuredTags.map((tag: TRecord | string) =>
+        typeof tag === "object" ? tag.id : tag,
+      )
+    : [],
+  departures: Array.isArray(activity.departures)
+    ? activity.departures.map((d: TRecord) => ({
+        ...d,
+        startDate: d.startDate ? toDateKey(String(d.startDate)) : "",
+      }))
+    : [],
+});
+
+// Top-level fields the draft changed relative to the version it started from
+export const getDraftChangedKeys = (base: TRecord, values: TRecord) =>
+  new Set(diffTrips(base, values).map((change) => change.path.split(".")[0]));
+
+/**
+ * Three-way merge: fields edited in the draft win, everything else takes the
+ * latest server value.
+ */
+export const mergeDraft = (base: TRecord, server: TRecord, values: TRecord) => {
+  const merged: TRecord = { ...toDraftBase(server) };
+  getDraftChangedKeys(base, values).forEach((key) => {
+    merged[key] = values[key];
+  });
+  return merged;
+};
+
+// Fields edited both in the draft and on the server since the draft started
+export const getConflictingKeys = (
+  base: TRecord,
+  server: TRecord,
+  values: TRecord,
+) => {
+  const serverChanged = getDraftChangedKeys(base, toDraftBase(server));
+  return [...getDraftChangedKeys(base, values)].filter((key) =>
+    serverChanged.has(key),
+  );
+};
@@ -0,0 +1,166 @@
+import { getFromPrice } from "@/lib/tripPricing";
+import { toActivityInput } from "@/lib/duplicateTrip";
+import { buildXlsx } from "@/lib/xlsx";
+import { EMPTY_TRIP_FILTERS, toActivityQuery } from "@/lib/tripFilters";
+import { TTripFilters } from "@/app/(dash)/types/tripFilters";
+
+type TRecord = Record<string, unknown>;
+
+export type TExportFormat = "csv" | "json" | "xlsx";
+
+// Id -> display name for the relations the list endpoint only returns as ids
+export type TExportNames = {
+  categories: Record<string, string>;
+  tripTypes: Record<string, string>;
+  regions: Record<string, string>;
+  cities: Record<string, string>;
+};
+
+export const EXPORT_COLUMNS: {
+  key: string;
+  label: string;
+  value: (trip: TRecord, names: TExportNames) => string | number | null;
+}[] = [
+  { key: "title", label: "Title", value: (t) => String(t.title ?? "") },
+  { key: "slug", label: "Slug", value: (t) => String(t.slug ?? "") },
+  {
+    key: "category",
+    label: "Category",
+    value: (t, names) => names.categories[String(t.tripCategoryId)] ?? "",
+  },
+  {
+    key: "region",
+    label: "Region",
+    value: (t, names) => names.regions[String(t.regionId)] ?? "",
+  },
+  {
+    key: "duration",
+    label: "Duration",
+    value: (t) => String(t.duration ?? ""),
+  },
+  {
+    key: "price",
+    label: "Price",
+    value: (t) =>
+      t.pricing
+        ? getFromPrice(t.pricing as Parameters<typeof getFromPrice>[0])
+        : Number(t.price) || 0,
+  },
+  {
+    key: "currency",
+    label: "Currency",
+    value: (t) => String(t.currency ?? ""),
+  },
+  { key: "status", label: "Status", value: (t) => String(t.status ?? "") },
+  {
+    key: "difficultyLevel",
+    label: "Difficulty",
+    value: (t) => String(t.difficultyLevel ?? ""),
+  },
+  {
+    key: "maximumAltitude",
+    label: "Maximum altitude",
+    value: (t) => String(t.maximumAltitude ?? ""),
+  },
+  {
+    key: "departureCount",
+    label: "Departures",
+    value: (t) => (Array.isArray(t.departures) ? t.departures.length : 0),
+  },
+];
+
+const PAGE_SIZE = 50;
+
+// Walks every page of the listing so the export isn't capped at one page
+export async function fetchAllTrips(
+  filters: TTripFilters = EMPTY_TRIP_FILTERS,
+  onProgress?: (fetched: number, total: number) => void,
+) {
+  const trips: TRecord[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const res = await fetch(
+      `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/a?${toActivityQuery(filters, page, PAGE_SIZE)}`,
+      { credentials: "include", cache: "no-store" },
+    );
+    if (!res.ok) throw new Error("Failed to fetch trips");
+    const data = await res.json();
+    trips.push(...(data?.activities ?? []));
+    totalPages = data?.pagination?.totalPages ?? 1;
+    onProgress?.(trips.length, data?.pagination?.total ?? trips.length);
+    page++;
+  } while (page <= totalPages);
+  return trips;
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toTable = (trips: TRecord[], columns: string[], names: TExportNames) => {
+  const selected = EXPORT_COLUMNS.filter((c) => columns.includes(c.key));
+  return [
+    selected.map((c) => c.label),
+    ...trips.map((trip) => selected.map((c) => c.value(trip, names))),
+  ];
+};
+
+/**
+ * JSON carries the whole trip in the shape the import wizard reads, with
+ * relation names instead of ids so it also imports into another site.
+ * Departures are left out since their dates rarely carry over.
+ */
+const toImportRecord = (trip: TRecord, names: TExportNames) => {
+  const record: TRecord = {
+    ...toActivityInput(trip),
+    category: names.categories[String(trip.tripCategoryId)] ?? null,
+    tripType: names.tripTypes[String(trip.tripTypeId)] ?? null,
+    region: names.regions[String(trip.regionId)] ?? null,
+    destination: names.cities[String(trip.cityId)] ?? null,
+  };
+  delete record.featuredTags;
+  // The importer prefers ids over names, and these only match on this site
+  delete record.tripCategoryId;
+  delete record.tripTypeId;
+  delete record.regionId;
+  delete record.cityId;
+  return record;
+};
+
+export const buildExport = (
+  trips: TRecord[],
+  format: TExportFormat,
+  columns: string[],
+  names: TExportNames,
+) => {
+  if (format === "json")
+    return new Blob(
+      [
+        JSON.stringify(
+          trips.map((trip) => toImportRecord(trip, names)),
+          null,
+          2,
+        ),
+      ],
+      { type: "application/json" },
+    );
+  const table = toTable(trips, columns, names);
+  if (format === "xlsx") return buildXlsx(table, "Trips");
+  // The BOM makes Excel read the file as UTF-8
+  return new Blob(
+    ["\uFEFF" + table.map((row) => row.map(csvCell).join(",")).join("\r\n")],
+    { type: "text/csv;charset=utf-8" },
+  );
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,95 @@
+import { TTripFilters, TTripSortField } from "@/app/(dash)/types/tripFilters";
+
+type TSearchParams = { get: (key: string) => string | null };
+
+export const EMPTY_TRIP_FILTERS: TTripFilters = {
+  q: "",
+  status: "",
+  category: "",
+  type: "",
+  region: "",
+  destination: "",
+  difficulty: "",
+  minPrice: "",
+  maxPrice: "",
+  minDays: "",
+  maxDays: "",
+  missing: "",
+  sort: "",
+  order: "asc",
+};
+
+const SORT_FIELDS: TTripSortField[] = [
+  "title",
+  "price",
+  "duration",
+  "status",
+  "createdAt",
+];
+
+// Dashboard query key -> the activity list endpoint's parameter
+const API_PARAMS: Record<keyof TTripFilters, string> = {
+  q: "search",
+  status: "status",
+  category: "tripCategoryId",
+  type: "tripTypeId",
+  region: "regionId",
+  destination: "cityId",
+  difficulty: "difficultyLevel",
+  minPrice: "minPrice",
+  maxPrice: "maxPrice",
+  minDays: "minDuration",
+  maxDays: "maxDuration",
+  missing: "missingTranslation",
+  sort: "sortBy",
+  order: "sortOrder",
+};
+
+export const parseTripFilters = (params: TSearchParams): TTripFilters => {
+  const sort = params.get("sort") as TTripSortField;
+  return {
+    ...(Object.fromEntries(
+      Object.keys(EMPTY_TRIP_FILTERS).map((key) => [
+        key,
+        params.get(key)?.trim() ?? "",
+      ]),
+    ) as TTripFilters),
+    sort: SORT_FIELDS.includes(sort) ? sort : "",
+    order: params.get("order") === "desc" ? "desc" : "asc",
+  };
+};
+
+export const countActiveFilters = (filters: TTripFilters) =>
+  (Object.keys(filters) as (keyof TTripFilters)[]).filter(
+    (key) => key !== "sort" && key !== "order" && filters[key],
+  ).length;
+
+const toQuery = (
+  filters: TTripFilters,
+  page: number,
+  limit: number,
+  paramFor: (key: keyof TTripFilters) => string,
+) => {
+  const params = new URLSearchParams({
+    page: String(page),
+    limit: String(limit),
+  });
+  (Object.keys(filters) as (keyof TTripFilters)[]).forEach((key) => {
+    if (key === "order" && !filters.sort) return;
+    if (filters[key]) params.set(paramFor(key), filters[key]);
+  });
+  return params.toString();
+};
+
+// The dashboard URL: page and limit, then only the filters that are set
+export const toTripSearchParams = (
+  filters: TTripFilters,
+  page: number,
+  limit: number,
+) => toQuery(filters, page, limit, (key) => key);
+
+export const toActivityQuery = (
+  filters: TTripFilters,
+  page: number,
+  limit: number,
+) => toQuery(filters, page, limit, (key) => API_PARAMS[key]);
@@ -0,0 +1,91 @@
+import { TTripImage } from "@/app/(dash)/types/image";
+
+// Smallest size that still fills the hero gallery and social cards
+export const MIN_IMAGE_WIDTH = 1200;
+export const MIN_IMAGE_HEIGHT = 800;
+
+type TRecord = Record<string, unknown>;
+
+const toText = (value: unknown) => (typeof value === "string" ? value : "");
+
+const toSize = (value: unknown) =>
+  typeof value === "number" && value > 0 ? value : null;
+
+export const toTripImage = (url: string): TTripImage => ({
+  url,
+  alt: "",
+  caption: "",
+  credit: "",
+  isCover: false,
+});
+
+// Keeps the first cover, or makes the first image the cover when none is set
+const withSingleCover = (images: TTripImage[]) => {
+  const cover = Math.max(
+    images.findIndex((image) => image.isCover),
+    0,
+  );
+  return images.map((image, i) => ({ ...image, isCover: i === cover }));
+};
+
+// Trips saved before the gallery manager store plain URL strings
+export const toTripImages = (value: unknown): TTripImage[] => {
+  if (!Array.isArray(value)) return [];
+  const images = value.flatMap((item: unknown): TTripImage[] => {
+    if (typeof item === "string") return item ? [toTripImage(item)] : [];
+    if (!item || typeof item !== "object") return [];
+    const image = item as TRecord;
+    const url = toText(image.url);
+    if (!url) return [];
+    return [
+      {
+        url,
+        alt: toText(image.alt),
+        caption: toText(image.caption),
+        credit: toText(image.credit),
+        isCover: image.isCover === true,
+        width: toSize(image.width),
+        height: toSize(image.height),
+      },
+    ];
+  });
+  return withSingleCover(images);
+};
+
+export const addTripImages = (images: TTripImage[], urls: string[]) =>
+  withSingleCover([...images, ...urls.map(toTripImage)]);
+
+export const removeTripImage = (images: TTripImage[], index: number) =>
+  withSingleCover(images.filter((_, i) => i !== index));
+
+export const setCoverImage = (images: TTripImage[], index: number) =>
+  images.map((image, i) => ({ ...image, isCover: i === index }));
+
+export const getCoverImage = (images: TTripImage[]) =>
+  images.find((image) => image.isCover) ?? images[0] ?? null;
+
+// Cover first, then the rest in gallery order, for places that take a list
+export const getImageUrls = (images: TTripImage[]) => {
+  const cover = getCoverImage(images);
+  return cover
+    ? [
+        cover.url,
+        ...images.filter((image) => image !== cover).map((i) => i.url),
+      ]
+    : [];
+};
+
+// Unknown sizes are not flagged until the image has been measured
+export const isBelowMinResolution = (image: TTripImage) =>
+  !!image.width &&
+  !!image.height &&
+  (image.width < MIN_IMAGE_WIDTH || image.height < MIN_IMAGE_HEIGHT);
+
+export const loadImageSize = (src: string) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () =>
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
@@ -0,0 +1,346 @@
+import {
+  TColumnMapping,
+  TImportField,
+  TImportLookups,
+  TImportRow,
+} from "@/app/(dash)/types/import";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { createActivitySchema } from "@/lib/validationSchemas";
+import { cleanStringArray } from "@/lib/cleanStringArray";
+import { generateSlug } from "@/lib/generateSlug";
+import { getFromPrice, pricingFromLegacyPrice } from "@/lib/tripPricing";
+import { toTripImages } from "@/lib/tripImages";
+
+type TRecord = Record<string, unknown>;
+
+export const IMPORT_FIELDS: TImportField[] = [
+  { key: "title", label: "Title", required: true },
+  { key: "slug", label: "Slug", hint: "Generated from the title if empty" },
+  { key: "category", label: "Category", hint: "Category name" },
+  { key: "tripType", label: "Activity type", hint: "Activity type name" },
+  { key: "region", label: "Region", hint: "Region name" },
+  { key: "destination", label: "Destination", hint: "City name" },
+  {
+    key: "difficultyLevel",
+    label: "Difficulty",
+    hint: "Easy, Moderate, Hard or Extreme",
+  },
+  { key: "shortDescription", label: "Short description", required: true },
+  { key: "fullDescription", label: "Full description", required: true },
+  { key: "duration", label: "Duration" },
+  { key: "maximumAltitude", label: "Maximum altitude" },
+  { key: "guestCapacity", label: "Guest capacity", required: true },
+  {
+    key: "price",
+    label: "Price",
+    required: true,
+    hint: "Per person, all year",
+  },
+  { key: "currency", label: "Currency", hint: "Defaults to USD" },
+  {
+    key: "itinerary",
+    label: "Itinerary",
+    required: true,
+    hint: "One day per line as “Title: description”, or a JSON array",
+  },
+  { key: "highlights", label: "Highlights", hint: "Separated by |" },
+  { key: "inclusions", label: "Inclusions", hint: "Separated by |" },
+  { key: "exclusions", label: "Exclusions", hint: "Separated by |" },
+  { key: "keywords", label: "Keywords", hint: "Comma separated" },
+  { key: "locations", label: "Locations", hint: "Comma separated" },
+  { key: "accommodations", label: "Accommodations", hint: "Comma separated" },
+  { key: "transportation", label: "Transportation" },
+  { key: "meals", label: "Meals" },
+  { key: "bestSeason", label: "Best season" },
+  { key: "groupSize", label: "Group size" },
+  { key: "meetingPoint", label: "Meeting point" },
+  { key: "dropOffPoint", label: "Drop-off point" },
+  { key: "metaTitle", label: "Meta title" },
+  { key: "metaDescription", label: "Meta description" },
+];
+
+/**
+ * Parses RFC 4180 CSV: quoted cells may hold commas, newlines and doubled
+ * quotes. Fully empty lines are dropped.
+ */
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += char;
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim()));
+};
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Pre-fills the mapping with headers that match a field key or label
+export const guessMapping = (headers: string[]): TColumnMapping =>
+  Object.fromEntries(
+    IMPORT_FIELDS.map((field) => [
+      field.key,
+      headers.find((header) =>
+        [field.key, field.label]
+          .map(normalizeName)
+          .includes(normalizeName(header)),
+      ) ?? "",
+    ]),
+  );
+
+export const csvToRecords = (
+  headers: string[],
+  rows: string[][],
+  mapping: TColumnMapping,
+): TRecord[] =>
+  rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(mapping)
+        .filter(([, header]) => header)
+        .map(([key, header]) => [key, row[headers.indexOf(header)] ?? ""]),
+    ),
+  );
+
+// Accepts a bare array or the API's `{ data: [...] }` / `{ activities: [...] }`
+export const jsonToRecords = (text: string): TRecord[] => {
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed)
+    ? parsed
+    : (parsed?.activities ?? parsed?.data ?? [parsed]);
+  if (!Array.isArray(records)) throw new Error("Expected an array of trips");
+  return records;
+};
+
+// "Title: description" per line; a line without a colon is title only
+const parseItineraryText = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const split = line.indexOf(":");
+      return split === -1
+        ? { title: line, description: "" }
+        : {
+            title: line.slice(0, split).trim(),
+            description: line.slice(split + 1).trim(),
+          };
+    });
+
+const toItinerary = (value: unknown) => {
+  let days: unknown = value;
+  if (typeof value === "string")
+    days = value.trim().startsWith("[")
+      ? JSON.parse(value)
+      : parseItineraryText(value);
+  if (!Array.isArray(days)) return [];
+  return days.map((day: TRecord, i) => ({
+    duration: "",
+    distance: "",
+    ascent: "",
+    descent: "",
+    meals: "",
+    accommodations: "",
+    sleepingAltitude: null,
+    maxAltitude: null,
+    ...day,
+    day: i + 1,
+  }));
+};
+
+// Lists come in as arrays (JSON) or "|"-separated cells (CSV)
+const toList = (value: unknown, separator: string) => {
+  if (Array.isArray(value)) return value.join(separator);
+  if (typeof value !== "string") return "";
+  return separator === "\n" ? value.split("|").join("\n") : value;
+};
+
+const toText = (value: unknown) =>
+  value === null || value === undefined ? "" : String(value).trim();
+
+const toNumber = (value: unknown) =>
+  toText(value) === "" ? undefined : Number(toText(value).replace(/,/g, ""));
+
+const resolveId = (
+  value: unknown,
+  options: { id: string; name: string }[],
+  label: string,
+  errors: string[],
+) => {
+  const text = toText(value);
+  if (!text) return null;
+  const match = options.find(
+    (option) =>
+      String(option.id) === text ||
+      normalizeName(option.name) === normalizeName(text),
+  );
+  if (!match) errors.push(`${label} “${text}” was not found`);
+  return match ? String(match.id) : null;
+};
+
+// Builds the form-shaped object the activity schema validates
+const toCandidate = (
+  record: TRecord,
+  lookups: TImportLookups,
+  errors: string[],
+) => {
+  const title = toText(record.title);
+  const seo = (record.seo as TRecord) ?? {};
+  let itinerary: ReturnType<typeof toItinerary> = [];
+  try {
+    itinerary = toItinerary(record.itinerary);
+  } catch {
+    errors.push("itinerary: Could not read the itinerary JSON");
+  }
+
+  return {
+    ...record,
+    title,
+    slug: toText(record.slug) || generateSlug(title),
+    tripCategoryId:
+      toText(record.tripCategoryId) ||
+      resolveId(record.category, lookups.categories, "Category", errors),
+    tripTypeId:
+      toText(record.tripTypeId) ||
+      resolveId(record.tripType, lookups.tripTypes, "Activity type", errors),
+    regionId:
+      toText(record.regionId) ||
+      resolveId(record.region, lookups.regions, "Region", errors),
+    cityId:
+      toText(record.cityId) ||
+      resolveId(
+        record.destination ?? record.city,
+        lookups.cities,
+        "Destination",
+        errors,
+      ),
+    difficultyLevel: toText(record.difficultyLevel).toUpperCase() || undefined,
+    shortDescription: toText(record.shortDescription),
+    fullDescription: toText(record.fullDescription),
+    duration: toText(record.duration),
+    guestCapacity: toNumber(record.guestCapacity),
+    meetingPoint: toText(record.meetingPoint),
+    dropOffPoint: toText(record.dropOffPoint),
+    itinerary,
+    highlights: toList(record.highlights, "\n"),
+    inclusions: toList(record.inclusions, "\n"),
+    exclusions: toList(record.exclusions, "\n"),
+    keywords: toList(record.keywords, ", "),
+    locations: toList(record.locations, ", "),
+    accommodations: toList(record.accommodations, ", "),
+    currency: toText(record.currency).toUpperCase() || Currency.USD,
+    pricing: record.pricing ?? pricingFromLegacyPrice(toNumber(record.price)),
+    faqs: record.faqs ?? [],
+    additionalInfo: record.additionalInfo ?? [],
+    departures: record.departures ?? [],
+    seo: {
+      ...seo,
+      metaTitle: toText(seo.metaTitle ?? record.metaTitle) || title,
+      metaDescription: toText(seo.metaDescription ?? record.metaDescription),
+    },
+  };
+};
+
+// Mirrors the trip editor's payload, always created as an unpublished draft
+const toPayload = (
+  data: ReturnType<typeof createActivitySchema.parse>,
+  images: unknown,
+) => ({
+  ...data,
+  status: "DRAFT",
+  published: false,
+  // Imported trips are reviewed before anything is scheduled
+  publishAt: null,
+  unpublishAt: null,
+  // Links, add-ons and policies hold ids that only exist on the source site
+  tripLinks: undefined,
+  addOns: undefined,
+  paymentPolicyId: null,
+  // Images survive a JSON export/import round trip
+  images: toTripImages(images),
+  featuredTags: [],
+  price: getFromPrice(data.pricing),
+  itinerary: data.itinerary.map((day) => ({
+    ...day,
+    meals: cleanStringArray(day.meals, ","),
+    accommodations: cleanStringArray(day.accommodations, ","),
+  })),
+  keywords: cleanStringArray(data.keywords, ","),
+  locations: cleanStringArray(data.locations, ","),
+  highlights: cleanStringArray(data.highlights, "\n"),
+  inclusions: cleanStringArray(data.inclusions, "\n"),
+  exclusions: cleanStringArray(data.exclusions, "\n"),
+  accommodations: cleanStringArray(data.accommodations, ","),
+});
+
+export const validateImportRecords = (
+  records: TRecord[],
+  lookups: TImportLookups,
+  firstRow = 1,
+): TImportRow[] => {
+  const seenSlugs = new Set<string>();
+
+  return records.map((record, i) => {
+    const errors: string[] = [];
+    const candidate = toCandidate(record, lookups, errors);
+    const result = createActivitySchema.safeParse(candidate);
+    if (!result.success)
+      result.error.issues.forEach((issue) =>
+        errors.push(
+          issue.path.length
+            ? `${issue.path.join(".")}: ${issue.message}`
+            : issue.message,
+        ),
+      );
+    if (seenSlugs.has(candidate.slug))
+      errors.push(`slug: “${candidate.slug}” is used by an earlier row`);
+    seenSlugs.add(candidate.slug);
+
+    return {
+      row: firstRow + i,
+      title: candidate.title || "(untitled)",
+      status: errors.length ? "invalid" : "valid",
+      errors,
+      payload:
+        result.success && !errors.length
+          ? toPayload(result.data, record.images)
+          : null,
+    };
+  });
+};
+
+export async function createImportedTrip(payload: TRecord) {
+  const res = await fetch(`${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(payload),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Failed to create trip");
+  return String(data?.data?.id ?? data?.id);
+}
@@ -0,0 +1,143 @@
+import {
+  TExtensionTiming,
+  TTripCandidate,
+  TTripLink,
+  TTripLinkGroup,
+  TTripLinks,
+  TTripSuggestion,
+} from "@/app/(dash)/types/tripLinks";
+import { toTripImages } from "@/lib/tripImages";
+import { toStringId } from "@/lib/stringIds";
+
+type TRecord = Record<string, unknown>;
+
+export const TRIP_LINK_GROUPS: {
+  value: TTripLinkGroup;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "related",
+    label: "Related trips",
+    description: 'Shown as "You may also like" at the end of the trip page.',
+  },
+  {
+    value: "extensions",
+    label: "Extensions",
+    description:
+      "Shorter trips travelers can add before or after this one, eg. a jungle safari after a trek.",
+  },
+  {
+    value: "upgrades",
+    label: "Upgrade alternatives",
+    description:
+      "Longer or more premium versions of this trip, offered when travelers compare options.",
+  },
+];
+
+export const EXTENSION_TIMINGS: { value: TExtensionTiming; label: string }[] = [
+  { value: "pre", label: "Pre-trip" },
+  { value: "post", label: "Post-trip" },
+];
+
+export const EMPTY_TRIP_LINKS: TTripLinks = {
+  related: [],
+  extensions: [],
+  upgrades: [],
+};
+
+const toId = (value: unknown) =>
+  toStringId(
+    value && typeof value === "object" ? (value as TRecord).id : value,
+  );
+
+// Trips saved before links existed have none
+export const toTripLinks = (value: unknown): TTripLinks => {
+  const links = (value && typeof value === "object" ? value : {}) as TRecord;
+  const toList = (group: TTripLinkGroup) =>
+    (Array.isArray(links[group]) ? (links[group] as unknown[]) : []).flatMap(
+      (item): TTripLink[] => {
+        const link = (item && typeof item === "object" ? item : {}) as TRecord;
+        const activityId = toId(link.activityId ?? item);
+        if (!activityId) return [];
+        return group === "extensions"
+          ? [{ activityId, timing: link.timing === "pre" ? "pre" : "post" }]
+          : [{ activityId }];
+      },
+    );
+  return {
+    related: toList("related"),
+    extensions: toList("extensions"),
+    upgrades: toList("upgrades"),
+  };
+};
+
+export const toTripCandidate = (trip: TRecord): TTripCandidate => ({
+  id: String(trip.id),
+  title: String(trip.title ?? ""),
+  status: String(trip.status ?? ""),
+  regionId: toId(trip.regionId),
+  tripCategoryId: toId(trip.tripCategoryId),
+  featuredTagIds: Array.isArray(trip.featuredTags)
+    ? trip.featuredTags.map(toId).filter(Boolean)
+    : [],
+  cover: toTripImages(trip.images).find((image) => image.isCover)?.url ?? null,
+});
+
+export const isLinked = (links: TTripLinks, activityId: string) =>
+  Object.values(links).some((list) =>
+    list.some((link) => link.activityId === activityId),
+  );
+
+/**
+ * Ranks the other trips by what they share with this one: region and
+ * category count for more than a single featured tag. Trips already linked
+ * in any list are left out.
+ */
+export const suggestRelatedTrips = (
+  trip: Pick<TTripCandidate, "id" | "regionId" | "tripCategoryId"> & {
+    featuredTagIds: string[];
+  },
+  candidates: TTripCandidate[],
+  links: TTripLinks,
+  limit = 6,
+): TTripSuggestion[] =>
+  candidates
+    .filter((c) => c.id !== trip.id && !isLinked(links, c.id))
+    .map((c) => {
+      const reasons: string[] = [];
+      let score = 0;
+      if (trip.regionId && c.regionId === trip.regionId) {
+        score += 2;
+        reasons.push("Same region");
+      }
+      if (trip.tripCategoryId && c.tripCategoryId === trip.tripCategoryId) {
+        score += 2;
+        reasons.push("Same category");
+      }
+      const shared = c.featuredTagIds.filter((id) =>
+        trip.featuredTagIds.includes(id),
+      ).length;
+      if (shared) {
+        score += shared;
+        reasons.push(`${shared} shared tag${shared > 1 ? "s" : ""}`);
+      }
+      return { trip: c, score, reasons };
+    })
+    .filter((s) => s.score > 0)
+    .sort(
+      (a, b) => b.score - a.score || a.trip.title.localeCompare(b.trip.title),
+    )
+    .slice(0, limit);
+
+export const addTripLink = (
+  links: TTripLinks,
+  group: TTripLinkGroup,
+  activityId: string,
+): TTripLinks => ({
+  ...links,
+  [group]: [
+    ...links[group],
+    group === "extensions" ? { activityId, timing: "post" } : { activityId },
+  ],
+});
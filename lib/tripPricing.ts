@@ -0,0 +1,61 @@
+import { TPricingTier, TTripPricing } from "@/app/(dash)/types/pricing";
+
+export const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+export const defaultPricingTiers: TPricingTier[] = [
+  { minPax: 1, maxPax: 1 },
+  { minPax: 2, maxPax: 4 },
+  { minPax: 5, maxPax: 10 },
+  { minPax: 11, maxPax: null },
+];
+
+// Trips saved before structured pricing only have a single `price`
+export const pricingFromLegacyPrice = (
+  price?: number | null,
+): TTripPricing => ({
+  tiers: [{ minPax: 1, maxPax: null }],
+  seasons: [
+    {
+      name: "All Year",
+      startMonth: 1,
+      endMonth: 12,
+      rates: [price && price > 0 ? price : 0],
+    },
+  ],
+  childRate: null,
+  singleSupplement: null,
+});
+
+export const formatTierLabel = (tier: TPricingTier) => {
+  if (!tier.maxPax) return `${tier.minPax}+ pax`;
+  if (tier.minPax === tier.maxPax) return `${tier.minPax} pax`;
+  return `${tier.minPax}–${tier.maxPax} pax`;
+};
+
+export const formatSeasonMonths = (startMonth: number, endMonth: number) => {
+  const start = MONTHS[startMonth - 1]?.slice(0, 3);
+  const end = MONTHS[endMonth - 1]?.slice(0, 3);
+  return startMonth === endMonth ? start : `${start}–${end}`;
+};
+
+// The lowest adult per-person rate across every season and group tier
+export const getFromPrice = (pricing?: TTripPricing | null) => {
+  const rates = (pricing?.seasons ?? [])
+    .flatMap((season) => season.rates ?? [])
+    .map(Number)
+    .filter((rate) => Number.isFinite(rate) && rate > 0);
+  return rates.length ? Math.min(...rates) : 0;
+};
@@ -0,0 +1,83 @@
+import { TReviewEntry } from "@/app/(dash)/types/review";
+
+type TRecord = Record<string, unknown>;
+
+const API = process.env.NEXT_PUBLIC_API_BASE_URL;
+
+const reviewsUrl = (activityId: string) =>
+  `${API}/activity/${activityId}/reviews`;
+
+const PAGE_SIZE = 50;
+
+// Every page of the queue, like fetchAllTrips does for the export
+export async function fetchPendingTrips() {
+  const trips: TRecord[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const res = await fetch(
+      `${API}/admin/pending-listings?page=${page}&limit=${PAGE_SIZE}`,
+      { credentials: "include", cache: "no-store" },
+    );
+    if (!res.ok) throw new Error("Failed to fetch pending trips");
+    const data = await res.json();
+    trips.push(...(data?.data?.activities ?? data?.activities ?? []));
+    totalPages = (data?.pagination ?? data?.data?.pagination)?.totalPages ?? 1;
+    page++;
+  } while (page <= totalPages);
+  return trips;
+}
+
+export async function fetchTrip(id: string) {
+  const res = await fetch(`${API}/activity/${id}`, {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch trip");
+  return (await res.json()).data as TRecord;
+}
+
+// The version visitors currently see; null for a trip never published
+export async function fetchLiveVersion(id: string) {
+  const res = await fetch(`${API}/activity/${id}/live`, {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error("Failed to fetch the live version");
+  return ((await res.json())?.data ?? null) as TRecord | null;
+}
+
+// Status changes are logged by the API as they happen; this is that log
+// together with the comments, oldest first
+export async function fetchReviewThread(activityId: string) {
+  const res = await fetch(reviewsUrl(activityId), {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch review comments");
+  const data = await res.json();
+  const entries: TReviewEntry[] = data?.data?.reviews || [];
+  return [...entries].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+}
+
+// The API attaches the signed-in user to the comment from the session
+export async function postReviewComment(activityId: string, comment: string) {
+  const res = await fetch(reviewsUrl(activityId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ action: "comment", comment }),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Failed to post comment");
+  return data?.data as TReviewEntry;
+}
+
+// The latest approve or reject, which is what the author needs to act on
+export const getLatestDecision = (entries: TReviewEntry[]) =>
+  entries.findLast(
+    (entry) => entry.action === "approve" || entry.action === "reject",
+  );
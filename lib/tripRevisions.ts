@@ -0,0 +1,63 @@
+import { TRevision } from "@/app/(dash)/types/revision";
+import { TDeparture } from "@/app/(dash)/types/departure";
+import { toActivityInput } from "@/lib/duplicateTrip";
+import { toDateKey } from "@/lib/departures";
+
+const revisionsUrl = (activityId: string) =>
+  `${process.env.NEXT_PUBLIC_API_BASE_URL}/activity/${activityId}/revisions`;
+
+export async function fetchRevisions(activityId: string) {
+  const res = await fetch(revisionsUrl(activityId), {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch revisions");
+  const data = await res.json();
+  const revisions: TRevision[] = data?.data?.revisions || [];
+  // Newest first, whatever order the API returns
+  return [...revisions].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+}
+
+// The API attaches the signed-in user to the revision from the session
+export async function recordRevision(
+  activityId: string,
+  snapshot: Record<string, unknown>,
+) {
+  const res = await fetch(revisionsUrl(activityId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ snapshot }),
+  });
+  if (!res.ok) throw new Error("Failed to record revision");
+}
+
+// The trip as the editor would save it, so the first diff in history only
+// shows what was edited and restoring it fills the form like any revision
+const toBaselineSnapshot = (activity: Record<string, unknown>) => ({
+  ...toActivityInput(activity),
+  departures: ((activity.departures ?? []) as TDeparture[]).map((d) => ({
+    id: d.id,
+    startDate: d.startDate ? toDateKey(d.startDate) : "",
+    seatsTotal: d.seatsTotal,
+    seatsBooked: d.seatsBooked,
+    status: d.status,
+    priceOverride: d.priceOverride ?? null,
+  })),
+  // Left out of duplicates, but part of what the editor saves
+  publishAt: activity.publishAt ?? null,
+  unpublishAt: activity.unpublishAt ?? null,
+});
+
+// Trips edited before history existed have no revisions, so the version on
+// the server is recorded first; otherwise the first save couldn't be undone
+export async function recordBaselineRevision(
+  activityId: string,
+  activity: Record<string, unknown>,
+) {
+  const revisions = await fetchRevisions(activityId);
+  if (!revisions.length)
+    await recordRevision(activityId, toBaselineSnapshot(activity));
+}
@@ -0,0 +1,190 @@
+import {
+  TScheduleField,
+  TScheduleResult,
+  TScheduledChange,
+  TScheduledStatus,
+  TScheduledTrip,
+  TTripScheduleApi,
+} from "@/app/(dash)/types/schedule";
+
+type TRecord = Record<string, unknown>;
+
+const PAGE_SIZE = 50;
+
+const SCHEDULE_STATUS: Record<TScheduleField, TScheduledStatus> = {
+  publishAt: "PUBLISHED",
+  unpublishAt: "DRAFT",
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// ISO time -> the local "YYYY-MM-DDTHH:mm" a datetime-local input expects
+export const toDateTimeInput = (value?: string | null) => {
+  const date = value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) return "";
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeInput = (value?: string | null) =>
+  value ? new Date(value).toISOString() : null;
+
+export const formatScheduleTime = (value: string) =>
+  new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export const toScheduledTrip = (trip: TRecord): TScheduledTrip => ({
+  id: String(trip.id),
+  title: String(trip.title ?? ""),
+  status: String(trip.status ?? ""),
+  publishAt: (trip.publishAt as string) || null,
+  unpublishAt: (trip.unpublishAt as string) || null,
+});
+
+// Both scheduled changes, earliest first
+const getChanges = (trip: Partial<TScheduledTrip>): TScheduledChange[] =>
+  (Object.keys(SCHEDULE_STATUS) as TScheduleField[])
+    .filter((field) => !Number.isNaN(Date.parse(trip[field] ?? "")))
+    .map((field) => ({
+      field,
+      status: SCHEDULE_STATUS[field],
+      at: trip[field] as string,
+    }))
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+export const getDueChanges = (
+  trip: Partial<TScheduledTrip>,
+  now = new Date(),
+) => getChanges(trip).filter((c) => Date.parse(c.at) <= now.getTime());
+
+// The next change that would actually move the trip to another status
+export const getUpcomingChange = (
+  trip: Partial<TScheduledTrip>,
+  now = new Date(),
+) =>
+  getChanges(trip).find(
+    (c) => Date.parse(c.at) > now.getTime() && c.status !== trip.status,
+  );
+
+// Unpublished trips waiting for their publish time show as scheduled
+export const getDisplayStatus = (
+  trip: Partial<TScheduledTrip>,
+  now = new Date(),
+) =>
+  trip.status !== "PUBLISHED" &&
+  getUpcomingChange(trip, now)?.field === "publishAt"
+    ? "SCHEDULED"
+    : trip.status;
+
+// Applies every change that is due and clears the times it used, so running
+// again (or an editor changing the status by hand afterwards) is not undone
+export async function runTripSchedule(api: TTripScheduleApi, now = new Date()) {
+  const results: TScheduleResult[] = [];
+  for (const trip of await api.listScheduledTrips()) {
+    const due = getDueChanges(trip, now);
+    if (!due.length) continue;
+    // When both times have passed, the later one decides the status
+    const status = due[due.length - 1].status;
+    const changes = status !== trip.status;
+    try {
+      if (changes) await api.setStatus(trip.id, status);
+      await api.clearSchedule(
+        trip.id,
+        due.map((c) => c.field),
+      );
+      results.push({
+        id: trip.id,
+        title: trip.title,
+        status: changes ? status : null,
+        ok: true,
+        message: changes
+          ? status === "PUBLISHED"
+            ? "Published"
+            : "Moved to drafts"
+          : "Already in the scheduled status",
+      });
+    } catch (err) {
+      results.push({
+        id: trip.id,
+        title: trip.title,
+        status: null,
+        ok: false,
+        message: (err as Error)?.message || "Something went wrong",
+      });
+    }
+  }
+  return results;
+}
+
+// The scheduler runs on the server without an admin session, so it
+// authenticates with a token instead of cookies
+export const createScheduleApi = (
+  baseUrl: string,
+  token?: string,
+): TTripScheduleApi => {
+  const request = async (path: string, init: RequestInit, fallback: string) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      cache: "no-store",
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(data?.message || fallback);
+    return data;
+  };
+
+  return {
+    listScheduledTrips: async () => {
+      const trips: TRecord[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const data = await request(
+          `/activity/a?scheduled=true&page=${page}&limit=${PAGE_SIZE}`,
+          {},
+          "Failed to fetch trips",
+        );
+        trips.push(...(data?.activities ?? []));
+        totalPages = data?.pagination?.totalPages ?? 1;
+        page++;
+      } while (page <= totalPages);
+      return trips
+        .filter((trip) => trip.publishAt || trip.unpublishAt)
+        .map(toScheduledTrip);
+    },
+    setStatus: async (id, status) => {
+      await request(
+        "/admin/approve-listing",
+        {
+          method: "PATCH",
+          body: JSON.stringify({
+            activityId: Number(id),
+            ...(status === "DRAFT" && { reject: true }),
+            action: status === "DRAFT" ? "unpublish" : "publish",
+            comment: "Scheduled status change",
+          }),
+        },
+        "Failed to update status",
+      );
+    },
+    clearSchedule: async (id, fields) => {
+      await request(
+        `/activity/${id}`,
+        {
+          method: "PATCH",
+          body: JSON.stringify(
+            Object.fromEntries(fields.map((field) => [field, null])),
+          ),
+        },
+        "Failed to clear schedule",
+      );
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { TScheduledTrip, TTripScheduleApi } from "@/app/(dash)/types/schedule";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// A few trips around the current time, one for each case the scheduler handles
+export const getStandInTrips = (now = new Date()): TScheduledTrip[] => {
+  const at = (offset: number) => new Date(now.getTime() + offset).toISOString();
+  return [
+    {
+      id: "1",
+      title: "Spring promotion: Annapurna Base Camp",
+      status: "DRAFT",
+      publishAt: at(-MINUTE),
+      unpublishAt: at(30 * DAY),
+    },
+    {
+      id: "2",
+      title: "Winter special: Everest View Trek",
+      status: "PUBLISHED",
+      publishAt: null,
+      unpublishAt: at(-MINUTE),
+    },
+    {
+      id: "3",
+      title: "Autumn departure: Langtang Valley",
+      status: "DRAFT",
+      publishAt: at(2 * MINUTE),
+      unpublishAt: null,
+    },
+    {
+      id: "4",
+      title: "Expired flash sale: Poon Hill",
+      status: "DRAFT",
+      publishAt: at(-2 * DAY),
+      unpublishAt: at(-DAY),
+    },
+  ];
+};
+
+// In-memory stand-in for the trip endpoints the scheduler calls, so it can be
+// run locally without the backend. Changes last as long as the process.
+export const createStandInScheduleApi = (
+  trips: TScheduledTrip[],
+): TTripScheduleApi & { trips: TScheduledTrip[] } => {
+  const find = (id: string) => {
+    const trip = trips.find((t) => t.id === id);
+    if (!trip) throw new Error(`Trip ${id} not found`);
+    return trip;
+  };
+
+  return {
+    trips,
+    listScheduledTrips: async () =>
+      trips
+        .filter((trip) => trip.publishAt || trip.unpublishAt)
+        .map((trip) => ({ ...trip })),
+    setStatus: async (id, status) => {
+      find(id).status = status;
+    },
+    clearSchedule: async (id, fields) => {
+      const trip = find(id);
+      fields.forEach((field) => {
+        trip[field] = null;
+      });
+    },
+  };
+};
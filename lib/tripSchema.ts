@@ -0,0 +1,264 @@
+import { TSchemaIssue, TSchemaOverrides } from "@/app/(dash)/types/schema";
+import { TTripPricing } from "@/app/(dash)/types/pricing";
+import { getFullImageUrl } from "@/lib/getFullImageUrl";
+import { getFromPrice } from "@/lib/tripPricing";
+import { toText } from "@/lib/tripDiff";
+
+type TRecord = Record<string, unknown>;
+
+export type TTripSchemaSource = {
+  title: string;
+  slug: string;
+  shortDescription: string;
+  duration: string;
+  currency: string;
+  pricing: TTripPricing;
+  images: string[];
+  itinerary: Array<{ day: number; title: string; description: string }>;
+  faqs: Array<{ question: string; answer: string }>;
+  rating?: { value: number; count: number } | null;
+};
+
+// Properties editors can replace without hand-editing the JSON
+export const OVERRIDABLE_PROPERTIES = [
+  { path: "name", label: "Name" },
+  { path: "description", label: "Description" },
+  { path: "url", label: "URL" },
+  { path: "image", label: "Images (JSON array)" },
+  { path: "touristType", label: "Tourist type" },
+  { path: "offers.price", label: "Offer price" },
+  { path: "offers.priceCurrency", label: "Offer currency" },
+  { path: "aggregateRating.ratingValue", label: "Rating value" },
+  { path: "aggregateRating.ratingCount", label: "Rating count" },
+];
+
+// Properties each type needs before search engines accept it
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  TouristTrip: ["name", "description"],
+  Product: ["name", "image"],
+  Offer: ["price", "priceCurrency"],
+  AggregateRating: ["ratingValue", "ratingCount"],
+  FAQPage: ["mainEntity"],
+  Question: ["name", "acceptedAnswer"],
+  Answer: ["text"],
+  BreadcrumbList: ["itemListElement"],
+  ListItem: ["position", "name"],
+};
+
+const tripUrl = (slug: string) =>
+  `${process.env.NEXT_PUBLIC_WEBSITE_URL}/${slug}`;
+
+// "16 Days" -> "P16D", "8 hours" -> "PT8H"; anything else is left out
+export const toIsoDuration = (duration: string) => {
+  const match = duration?.match(/(\d+(?:\.\d+)?)\s*(day|night|hour|hr)/i);
+  if (!match) return undefined;
+  const [, amount, unit] = match;
+  return /^(hour|hr)/i.test(unit) ? `PT${amount}H` : `P${amount}D`;
+};
+
+// Overrides that parse as JSON keep their type, so numbers stay numbers
+const parseOverride = (value: string) => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export const applySchemaOverrides = (
+  node: TRecord,
+  overrides?: TSchemaOverrides | null,
+) => {
+  const result: TRecord = structuredClone(node);
+  Object.entries(overrides ?? {}).forEach(([path, value]) => {
+    if (!value?.trim()) return;
+    const keys = path.split(".");
+    const last = keys.pop()!;
+    let target = result;
+    keys.forEach((key) => {
+      if (typeof target[key] !== "object" || target[key] === null)
+        target[key] = {};
+      target = target[key] as TRecord;
+    });
+    target[last] = parseOverride(value);
+  });
+  return result;
+};
+
+export const buildTripNode = (trip: TTripSchemaSource) => {
+  const url = tripUrl(trip.slug);
+  const price = getFromPrice(trip.pricing);
+  const itinerary = trip.itinerary.filter((day) => day.title);
+  const node: TRecord = {
+    "@type": ["TouristTrip", "Product"],
+    "@id": `${url}#trip`,
+    name: trip.title,
+    description: toText(trip.shortDescription),
+    url,
+    image: trip.images.map(getFullImageUrl),
+  };
+  const duration = toIsoDuration(trip.duration);
+  if (duration)
+    node.additionalProperty = {
+      "@type": "PropertyValue",
+      name: "Duration",
+      value: duration,
+    };
+  if (itinerary.length)
+    node.itinerary = {
+      "@type": "ItemList",
+      numberOfItems: itinerary.length,
+      itemListElement: itinerary.map((day, idx) => ({
+        "@type": "ListItem",
+        position: idx + 1,
+        name: `Day ${day.day}: ${day.title}`,
+        description: toText(day.description),
+      })),
+    };
+  if (price)
+    node.offers = {
+      "@type": "Offer",
+      price,
+      priceCurrency: trip.currency,
+      availability: "https://schema.org/InStock",
+      url,
+    };
+  if (trip.rating?.value && trip.rating.count)
+    node.aggregateRating = {
+      "@type": "AggregateRating",
+      ratingValue: trip.rating.value,
+      ratingCount: trip.rating.count,
+      bestRating: 5,
+    };
+  return node;
+};
+
+export const buildTripSchema = (
+  trip: TTripSchemaSource,
+  overrides?: TSchemaOverrides | null,
+) => {
+  const faqs = trip.faqs.filter((faq) => faq.question && toText(faq.answer));
+  const crumbs = [
+    { name: "Home", item: process.env.NEXT_PUBLIC_WEBSITE_URL },
+    { name: trip.title, item: tripUrl(trip.slug) },
+  ];
+
+  const graph: TRecord[] = [
+    applySchemaOverrides(buildTripNode(trip), overrides),
+    {
+      "@type": "BreadcrumbList",
+      itemListElement: crumbs.map((crumb, idx) => ({
+        "@type": "ListItem",
+        position: idx + 1,
+        ...crumb,
+      })),
+    },
+  ];
+  if (faqs.length)
+    graph.push({
+      "@type": "FAQPage",
+      mainEntity: faqs.map((faq) => ({
+        "@type": "Question",
+        name: faq.question,
+        acceptedAnswer: { "@type": "Answer", text: toText(faq.answer) },
+      })),
+    });
+
+  return { "@context": "https://schema.org", "@graph": graph };
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const typesOf = (node: TRecord) =>
+  ([] as unknown[]).concat(node["@type"] ?? []).map(String);
+
+const checkNode = (node: TRecord, issues: TSchemaIssue[]) => {
+  typesOf(node).forEach((type) => {
+    (REQUIRED_PROPERTIES[type] ?? []).forEach((property) => {
+      if (isEmpty(node[property]))
+        issues.push({ type, property, message: `${type} needs "${property}"` });
+    });
+    if (
+      type === "Product" &&
+      ["offers", "aggregateRating", "review"].every((key) => isEmpty(node[key]))
+    )
+      issues.push({
+        type,
+        property: "offers",
+        message: "Product needs a price, a rating or a review",
+      });
+    if (type === "Offer" && !(Number(node.price) > 0))
+      issues.push({
+        type,
+        property: "price",
+        message: "Offer price must be a number greater than zero",
+      });
+    if (type === "AggregateRating") {
+      const rating = Number(node.ratingValue);
+      if (!isEmpty(node.ratingValue) && !(rating >= 1 && rating <= 5))
+        issues.push({
+          type,
+          property: "ratingValue",
+          message: "Rating value must be between 1 and 5",
+        });
+    }
+  });
+
+  Object.entries(node).forEach(([key, value]) => {
+    if (key.startsWith("@")) return;
+    ([] as unknown[]).concat(value).forEach((child) => {
+      if (child && typeof child === "object")
+        checkNode(child as TRecord, issues);
+    });
+  });
+};
+
+/**
+ * Checks JSON-LD text against the required properties of the types the
+ * generator produces. Runs fully offline; an empty string is valid.
+ */
+export const validateSchemaMarkup = (json?: string | null) => {
+  if (!json?.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return [
+      {
+        type: "JSON",
+        property: "",
+        message: `Invalid JSON: ${(e as Error).message}`,
+      },
+    ];
+  }
+
+  const issues: TSchemaIssue[] = [];
+  const roots = ([] as unknown[]).concat(parsed);
+  roots.forEach((root) => {
+    if (!root || typeof root !== "object") return;
+    const record = root as TRecord;
+    if (!record["@context"])
+      issues.push({
+        type: "JSON-LD",
+        property: "@context",
+        message: 'Missing "@context" (use "https://schema.org")',
+      });
+    const nodes = Array.isArray(record["@graph"])
+      ? (record["@graph"] as TRecord[])
+      : [record];
+    nodes.forEach((node) => {
+      if (!node["@type"])
+        issues.push({
+          type: "JSON-LD",
+          property: "@type",
+          message: 'Every node needs an "@type"',
+        });
+      checkNode(node, issues);
+    });
+  });
+  return issues;
+};
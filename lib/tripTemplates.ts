@@ -0,0 +1,125 @@
+import {
+  TTripTemplate,
+  TTripTemplateInput,
+  TTripTemplateValues,
+} from "@/app/(dash)/types/template";
+import { toActivityInput } from "@/lib/duplicateTrip";
+import { cleanStringArray } from "@/lib/cleanStringArray";
+
+type TRecord = Record<string, unknown>;
+
+const API = `${process.env.NEXT_PUBLIC_API_BASE_URL}/trip-templates`;
+
+export const SEO_PATTERN_TOKENS = [
+  { token: "{title}", label: "Trip title" },
+  { token: "{duration}", label: "Duration" },
+  { token: "{locations}", label: "Locations" },
+];
+
+const SEO_PATTERN_KEYS = ["metaTitle", "metaDescription", "metaKeywords"];
+
+const toList = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : cleanStringArray(typeof value === "string" ? value : "", "\n");
+
+type TPatternSource = Partial<
+  Record<"title" | "duration" | "locations", unknown>
+>;
+
+// Token -> this trip's value, title first so a duration inside the title is
+// not swapped on its own
+const getPatternValues = (trip: TPatternSource) => ({
+  "{title}": String(trip.title ?? ""),
+  "{duration}": String(trip.duration ?? ""),
+  "{locations}": Array.isArray(trip.locations)
+    ? trip.locations.join(", ")
+    : String(trip.locations ?? ""),
+});
+
+const fillPattern = (pattern: string, trip: TPatternSource) =>
+  Object.entries(getPatternValues(trip)).reduce(
+    (text, [token, value]) => text.replaceAll(token, value),
+    pattern,
+  );
+
+// The reverse of fillPattern, so a trip started from the template does not
+// inherit this trip's title word for word
+const toPattern = (text: string, trip: TPatternSource) =>
+  Object.entries(getPatternValues(trip))
+    .filter(([, value]) => value.trim())
+    .reduce(
+      (pattern, [token, value]) => pattern.replaceAll(value, token),
+      text,
+    );
+
+// Keeps the reusable structure of a trip and drops what makes it one trip
+export const toTemplateValues = (trip: TRecord): TTripTemplateValues => {
+  const input = toActivityInput(trip);
+  const seo = (input.seo ?? {}) as TRecord;
+  return {
+    itinerary: input.itinerary,
+    faqs: input.faqs as TTripTemplateValues["faqs"],
+    additionalInfo:
+      input.additionalInfo as TTripTemplateValues["additionalInfo"],
+    inclusions: toList(trip.inclusions),
+    exclusions: toList(trip.exclusions),
+    highlights: toList(trip.highlights),
+    seo: Object.fromEntries(
+      SEO_PATTERN_KEYS.map((key) => [
+        key,
+        toPattern(String(seo[key] ?? ""), trip),
+      ]),
+    ),
+  };
+};
+
+// Fills the tokens a template left in the SEO fields with the trip's values
+export const fillSeoPatterns = <T extends TRecord>(
+  seo: T,
+  trip: TPatternSource,
+): T => ({
+  ...seo,
+  ...Object.fromEntries(
+    SEO_PATTERN_KEYS.filter((key) => typeof seo[key] === "string").map(
+      (key) => [key, fillPattern(seo[key] as string, trip)],
+    ),
+  ),
+});
+
+export async function fetchTemplates() {
+  const res = await fetch(API, { credentials: "include", cache: "no-store" });
+  if (!res.ok) throw new Error("Failed to fetch templates");
+  const data = await res.json();
+  return (data?.data?.templates ?? []) as TTripTemplate[];
+}
+
+export async function fetchTemplate(id: string) {
+  const res = await fetch(`${API}/${id}`, {
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to fetch template");
+  const data = await res.json();
+  return data?.data as TTripTemplate;
+}
+
+export async function saveTemplate(input: TTripTemplateInput, id?: string) {
+  const res = await fetch(id ? `${API}/${id}` : API, {
+    method: id ? "PATCH" : "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(input),
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Failed to save template");
+  return data?.data as TTripTemplate;
+}
+
+export async function deleteTemplate(id: string) {
+  const res = await fetch(`${API}/${id}`, {
+    method: "DELETE",
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error("Failed to delete template");
+}
@@ -1,5 +1,9 @@
 import { TripDifficulty } from "@/app/(dash)/enums/tripDifficulty.enum";
+import { DepartureStatus } from "@/app/(dash)/enums/departureStatus.enum";
+import { Currency } from "@/app/(dash)/enums/currency.enum";
+import { Locale } from "@/app/(dash)/enums/locale.enum";
 import z from "zod";
+import { validateSchemaMarkup } from "@/lib/tripSchema";
 
 const safeString = z
   .union([z.string(), z.array(z.string())])
@@ -10,85 +14,275 @@ const safeString = z
   })
   .catch("");
 
-export const createActivitySchema = z.object({
-  title: z.string().min(15, "Title must be at least 15 characters long"),
-  slug: z.string("slug is required"),
-  tripCategoryId: z.string().nullable().optional(),
-  tripTypeId: z.string().nullable().optional(),
-  cityId: z.string().nullable().optional(),
-  regionId: z.string().nullable().optional(),
-  difficultyLevel: z.enum(TripDifficulty).optional(),
+const tripLinkSchema = z.object({
+  activityId: z.string(),
+  timing: z.enum(["pre", "post"]).optional(),
+});
 
-  shortDescription: z.string().min(10, "Short description is too short"),
-  fullDescription: z.string().min(10, "Full description is too short"),
+export const createActivitySchema = z
+  .object({
+    title: z.string().min(15, "Title must be at least 15 characters long"),
+    slug: z.string("slug is required"),
+    tripCategoryId: z.string().nullable().optional(),
+    tripTypeId: z.string().nullable().optional(),
+    cityId: z.string().nullable().optional(),
+    regionId: z.string().nullable().optional(),
+    difficultyLevel: z.enum(TripDifficulty).optional(),
 
-  duration: z.string(),
-  maximumAltitude: z.string().nullable().optional(),
-  accommodations: safeString,
-  transportation: z.string().nullable().optional(),
-  meals: z.string().nullable().optional(),
-  bestSeason: z.string().nullable().optional(),
-  groupSize: z.string().nullable().optional(),
-  videoUrl: z.string().nullable().optional(),
-  map: z.string().nullable().optional(),
+    shortDescription: z.string().min(10, "Short description is too short"),
+    fullDescription: z.string().min(10, "Full description is too short"),
 
-  guestCapacity: z
-    .number()
-    .int()
-    .positive("Guest capacity must be a positive integer"),
+    duration: z.string(),
+    maximumAltitude: z.string().nullable().optional(),
+    accommodations: safeString,
+    transportation: z.string().nullable().optional(),
+    meals: z.string().nullable().optional(),
+    bestSeason: z.string().nullable().optional(),
+    groupSize: z.string().nullable().optional(),
+    videoUrl: z.string().nullable().optional(),
+    map: z.string().nullable().optional(),
+    route: z
+      .object({
+        type: z.literal("FeatureCollection"),
+        features: z.array(
+          z.object({
+            type: z.literal("Feature"),
+            geometry: z.object({
+              type: z.enum(["LineString", "Point"]),
+              coordinates: z.array(z.unknown()),
+            }),
+            properties: z.object({ day: z.number().nullable() }).loose(),
+          }),
+        ),
+      })
+      .nullable()
+      .optional(),
 
-  itinerary: z
-    .array(
+    guestCapacity: z
+      .number()
+      .int()
+      .positive("Guest capacity must be a positive integer"),
+
+    itinerary: z
+      .array(
+        z.object({
+          day: z
+            .number()
+            .int()
+            .positive("Day must be a positive integer")
+            .optional(),
+          title: z.string().min(5, "Itinerary title is too short"),
+          description: z.string().min(10, "Itinerary description is too short"),
+          duration: z.string().nullable().optional(),
+          distance: z.string().nullable().optional(),
+          ascent: z.string().nullable().optional(),
+          descent: z.string().nullable().optional(),
+          meals: safeString,
+          accommodations: safeString,
+          sleepingAltitude: z
+            .number()
+            .nonnegative("Altitude cannot be negative")
+            .nullable()
+            .optional(),
+          maxAltitude: z
+            .number()
+            .nonnegative("Altitude cannot be negative")
+            .nullable()
+            .optional(),
+        }),
+      )
+      .min(1, "At least one itinerary item is required"),
+
+    meetingPoint: z.string(),
+    dropOffPoint: z.string(),
+
+    additionalInfo: z
+      .array(
+        z.object({
+          title: z.string(),
+          description: z.string(),
+        }),
+      )
+      .optional(),
+    faqs: z.array(
       z.object({
-        day: z
+        question: z.string(),
+        answer: z.string(),
+      }),
+    ),
+    highlights: safeString,
+    locations: safeString,
+    keywords: safeString,
+    inclusions: safeString,
+    exclusions: safeString,
+
+    currency: z.enum(Currency, "Base currency is required"),
+    pricing: z
+      .object({
+        tiers: z
+          .array(
+            z
+              .object({
+                minPax: z
+                  .number("Minimum group size is required")
+                  .int()
+                  .positive("Minimum group size must be at least 1"),
+                maxPax: z.number().int().positive().nullable(),
+              })
+              .refine((t) => t.maxPax === null || t.maxPax >= t.minPax, {
+                message: "Maximum must be greater than or equal to minimum",
+                path: ["maxPax"],
+              }),
+          )
+          .min(1, "At least one group tier is required"),
+        seasons: z
+          .array(
+            z.object({
+              name: z.string().min(1, "Season name is required"),
+              startMonth: z.number().int().min(1).max(12),
+              endMonth: z.number().int().min(1).max(12),
+              rates: z.array(
+                z
+                  .number("Rate is required")
+                  .positive("Rate must be greater than zero"),
+              ),
+            }),
+          )
+          .min(1, "At least one season is required"),
+        childRate: z
           .number()
-          .int()
-          .positive("Day must be a positive integer")
+          .positive("Child rate must be greater than zero")
+          .nullable()
           .optional(),
-        title: z.string().min(5, "Itinerary title is too short"),
-        description: z.string().min(10, "Itinerary description is too short"),
-        duration: z.string().nullable().optional(),
-        distance: z.string().nullable().optional(),
-        ascent: z.string().nullable().optional(),
-        descent: z.string().nullable().optional(),
-        meals: safeString,
-        accommodations: safeString,
-      }),
-    )
-    .min(1, "At least one itinerary item is required"),
+        singleSupplement: z
+          .number()
+          .positive("Single supplement must be greater than zero")
+          .nullable()
+          .optional(),
+      })
+      .refine(
+        (p) =>
+          p.seasons.every((season) => season.rates.length === p.tiers.length),
+        { message: "Every season needs a rate for each group tier" },
+      ),
+    // Imported trips come without add-ons, since catalogue ids differ by site
+    addOns: z
+      .array(
+        z.object({
+          addOnId: z.string(),
+          priceOverride: z
+            .number()
+            .min(0, "Price override cannot be negative")
+            .nullable(),
+        }),
+      )
+      .optional(),
+    departures: z
+      .array(
+        z
+          .object({
+            id: z.string().nullable().optional(),
+            startDate: z.string().min(1, "Start date is required"),
+            seatsTotal: z
+              .number("Total seats is required")
+              .int()
+              .positive("Total seats must be a positive integer"),
+            seatsBooked: z
+              .number("Booked seats is required")
+              .int()
+              .min(0, "Booked seats cannot be negative"),
+            status: z.enum(DepartureStatus),
+            priceOverride: z
+              .number()
+              .positive("Price override must be greater than zero")
+              .nullable()
+              .optional(),
+          })
+          .refine((d) => d.seatsBooked <= d.seatsTotal, {
+            message: "Booked seats cannot exceed total seats",
+            path: ["seatsBooked"],
+          }),
+      )
+      .optional(),
+    published: z.boolean().optional().default(false),
+    seo: z.object({
+      metaTitle: z.string().nullable().optional(),
+      metaDescription: z.string().nullable().optional(),
+      featuredMedia: z.string().nullable().optional(),
+      schema: z
+        .string()
+        .nullable()
+        .optional()
+        .superRefine((json, ctx) => {
+          const [issue] = validateSchemaMarkup(json);
+          if (issue) ctx.addIssue({ code: "custom", message: issue.message });
+        }),
+      schemaOverrides: z.record(z.string(), z.string()).nullable().optional(),
+      metaKeywords: z.string().nullable().optional(),
+      metaRobots: z.string().nullable().optional(),
+      metaAuthor: z.string().nullable().optional(),
+    }),
+    publishAt: z.string().nullable().optional(),
+    unpublishAt: z.string().nullable().optional(),
+    translations: z
+      .partialRecord(z.enum(Locale), z.record(z.string(), z.unknown()))
+      .optional(),
+    // Imported trips come without links, since ids differ between sites
+    tripLinks: z
+      .object({
+        related: z.array(tripLinkSchema),
+        extensions: z.array(tripLinkSchema),
+        upgrades: z.array(tripLinkSchema),
+      })
+      .optional(),
+    paymentPolicyId: z.string().nullable().optional(),
+  })
+  .refine(
+    (trip) =>
+      !trip.publishAt ||
+      !trip.unpublishAt ||
+      new Date(trip.unpublishAt) > new Date(trip.publishAt),
+    {
+      message: "Unpublish time must be after the publish time",
+      path: ["unpublishAt"],
+    },
+  );
 
-  meetingPoint: z.string(),
-  dropOffPoint: z.string(),
+const percent = (label: string) =>
+  z
+    .number(`${label} is required`)
+    .min(0, `${label} cannot be negative`)
+    .max(100, `${label} cannot be more than 100%`);
 
-  additionalInfo: z
+export const paymentPolicySchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  depositPercent: percent("Deposit"),
+  balanceDueDays: z
+    .number("Balance due days is required")
+    .int()
+    .min(0, "Balance due days cannot be negative"),
+  refundTiers: z
     .array(
       z.object({
-        title: z.string(),
-        description: z.string(),
+        daysBefore: z
+          .number("Days before departure is required")
+          .int()
+          .min(0, "Days before departure cannot be negative"),
+        refundPercent: percent("Refund"),
       }),
     )
-    .optional(),
-  faqs: z.array(
-    z.object({
-      question: z.string(),
-      answer: z.string(),
-    }),
-  ),
-  highlights: safeString,
-  locations: safeString,
-  keywords: safeString,
-  inclusions: safeString,
-  exclusions: safeString,
-
-  price: z.number().positive("Price must be greater than zero"),
-  published: z.boolean().optional().default(false),
-  seo: z.object({
-    metaTitle: z.string().nullable().optional(),
-    metaDescription: z.string().nullable().optional(),
-    featuredMedia: z.string().nullable().optional(),
-    schema: z.string().nullable().optional(),
-    metaKeywords: z.string().nullable().optional(),
-    metaRobots: z.string().nullable().optional(),
-    metaAuthor: z.string().nullable().optional(),
-  }),
+    .refine(
+      (tiers) => new Set(tiers.map((t) => t.daysBefore)).size === tiers.length,
+      { message: "Each refund tier needs a different number of days" },
+    )
+    .refine(
+      (tiers) =>
+        [...tiers]
+          .sort((a, b) => b.daysBefore - a.daysBefore)
+          .every(
+            (tier, i, sorted) =>
+              i === 0 || tier.refundPercent <= sorted[i - 1].refundPercent,
+          ),
+      { message: "Refunds cannot grow closer to departure" },
+    ),
 });